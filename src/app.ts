@@ -3,6 +3,12 @@ import { ZodError } from "zod";
 import { registerCryptoRoutes } from "./routes/crypto";
 import { registerOrderRoutes } from "./routes/orders";
 import { registerEquityRoutes } from "./routes/equity";
+import { registerOptionsRoutes } from "./routes/options";
+import { registerAccountRoutes } from "./routes/accounts";
+import { registerWebhookRoutes } from "./routes/webhooks";
+import { registerStatusRoutes } from "./routes/status";
+import { registerAdminRoutes } from "./routes/admin";
+import { registerOpenApiRoutes } from "./routes/openapi";
 import { validationError } from "./utils/snaptrade";
 
 /**
@@ -18,6 +24,12 @@ app.get("/healthz", (c) => c.text("ok"));
 registerCryptoRoutes(app);
 registerOrderRoutes(app);
 registerEquityRoutes(app);
+registerOptionsRoutes(app);
+registerAccountRoutes(app);
+registerWebhookRoutes(app);
+registerStatusRoutes(app);
+registerAdminRoutes(app);
+registerOpenApiRoutes(app);
 
 /**
  * Catch-all error handler. Most validation errors are handled in the routes,
@@ -0,0 +1,223 @@
+import { env } from "./env";
+import { logInfo, logWarn } from "../utils/logging";
+
+/**
+ * Per-operation circuit breakers around SnapTrade SDK calls.
+ *
+ * When SnapTrade is degraded every call would otherwise wait out
+ * `SNAPTRADE_TIMEOUT_MS` and Java threads pile up behind it. After
+ * `COINAGE_BREAKER_FAILURE_THRESHOLD` consecutive 5xx responses or network
+ * failures an operation's breaker opens and calls fail fast with
+ * `CircuitOpenError`. Once `COINAGE_BREAKER_OPEN_MS` has passed, a limited
+ * number of half-open probes go through; one success closes the breaker and a
+ * failure re-opens it.
+ *
+ * 4xx responses prove SnapTrade is up, so they count as successes here and
+ * still reach `handleSnaptradeError` untouched.
+ */
+export type SnaptradeOperation =
+  | "searchCryptocurrencyPairInstruments"
+  | "getCryptocurrencyPairQuote"
+  | "previewCryptoOrder"
+  | "placeCryptoOrder"
+  | "getOrderImpact"
+  | "placeForceOrder"
+  | "placeOrder"
+  | "cancelOrder"
+  | "replaceOrder"
+  | "getUserAccountOrderDetail"
+  | "getUserAccountOrders"
+  | "getUserAccountBalance"
+  | "getUserAccountPositions"
+  | "getUserHoldings"
+  | "symbolSearchUserAccount"
+  | "getUserAccountQuotes"
+  | "getOptionsChain"
+  | "placeMlegOrder";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export type BreakerSnapshot = {
+  operation: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAfterMs: number | null;
+};
+
+/**
+ * Thrown instead of calling SnapTrade while a breaker is open.
+ * `handleSnaptradeError` turns it into a 503 with `Retry-After`.
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly retryAfterMs: number
+  ) {
+    super(`SnapTrade ${operation} circuit is open`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private consecutiveFailures = 0;
+  private openedAtMs: number | undefined;
+  private probesInFlight = 0;
+
+  constructor(
+    readonly operation: string,
+    private readonly options: () => { failureThreshold: number; openMs: number; halfOpenProbes: number }
+  ) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    this.admit();
+    const probing = this.state === "half_open";
+    if (probing) {
+      this.probesInFlight += 1;
+    }
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isBreakerFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (probing) {
+        this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      }
+    }
+  }
+
+  snapshot(now = Date.now()): BreakerSnapshot {
+    this.refresh(now);
+    return {
+      operation: this.operation,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAtMs !== undefined ? new Date(this.openedAtMs).toISOString() : null,
+      retryAfterMs: this.state === "open" ? this.remainingOpenMs(now) : null
+    };
+  }
+
+  /**
+   * Throws `CircuitOpenError` when the call may not proceed.
+   */
+  private admit(now = Date.now()) {
+    this.refresh(now);
+    if (this.state === "open") {
+      throw new CircuitOpenError(this.operation, this.remainingOpenMs(now));
+    }
+    if (this.state === "half_open" && this.probesInFlight >= this.options().halfOpenProbes) {
+      // Probes are already checking recovery; keep everyone else failing fast.
+      throw new CircuitOpenError(this.operation, 1_000);
+    }
+  }
+
+  private refresh(now: number) {
+    if (this.state === "open" && this.remainingOpenMs(now) === 0) {
+      this.state = "half_open";
+      logInfo("snaptrade.circuit.half_open", { operation: this.operation });
+    }
+  }
+
+  private remainingOpenMs(now: number): number {
+    return Math.max(0, (this.openedAtMs ?? now) + this.options().openMs - now);
+  }
+
+  private recordSuccess() {
+    if (this.state !== "closed") {
+      logInfo("snaptrade.circuit.closed", { operation: this.operation });
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAtMs = undefined;
+  }
+
+  private recordFailure(now = Date.now()) {
+    this.consecutiveFailures += 1;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.options().failureThreshold) {
+      if (this.state !== "open") {
+        logWarn("snaptrade.circuit.opened", {
+          operation: this.operation,
+          consecutiveFailures: this.consecutiveFailures
+        });
+      }
+      this.state = "open";
+      this.openedAtMs = now;
+    }
+  }
+}
+
+/**
+ * 5xx responses and errors without any HTTP status (timeouts, socket resets,
+ * DNS failures) indicate SnapTrade itself is unhealthy.
+ */
+export function isBreakerFailure(error: unknown): boolean {
+  const status = upstreamStatus(error);
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Reads the HTTP status from either axios-shaped or `SnaptradeError`-shaped
+ * errors. Returns `undefined` when the request never got a response.
+ */
+export function upstreamStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const e = error as { response?: { status?: unknown }; statusCode?: unknown; status?: unknown };
+  const candidates = [e.response?.status, e.statusCode, e.status];
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && candidate > 0) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerOptions() {
+  return {
+    failureThreshold: env.COINAGE_BREAKER_FAILURE_THRESHOLD,
+    openMs: env.COINAGE_BREAKER_OPEN_MS,
+    halfOpenProbes: env.COINAGE_BREAKER_HALF_OPEN_PROBES
+  };
+}
+
+function breakerFor(operation: SnaptradeOperation): CircuitBreaker {
+  let breaker = breakers.get(operation);
+  if (!breaker) {
+    breaker = new CircuitBreaker(operation, breakerOptions);
+    breakers.set(operation, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Runs a SnapTrade SDK call through the breaker for `operation`.
+ */
+export function withCircuitBreaker<T>(operation: SnaptradeOperation, fn: () => Promise<T>): Promise<T> {
+  return breakerFor(operation).run(fn);
+}
+
+/**
+ * Breaker states for monitoring. Operations that have never been called are
+ * omitted.
+ */
+export function circuitBreakerSnapshot(): BreakerSnapshot[] {
+  return [...breakers.values()].map((breaker) => breaker.snapshot());
+}
+
+/**
+ * Testing hook to close every breaker between specs.
+ */
+export function resetCircuitBreakersForTests() {
+  breakers.clear();
+}
@@ -1,5 +1,16 @@
 import { z } from "zod";
 
+// Comma-separated, case-insensitive symbol list; unset or blank means empty.
+const symbolList = z
+  .string()
+  .optional()
+  .transform((value) =>
+    (value ?? "")
+      .split(",")
+      .map((item) => item.trim().toUpperCase())
+      .filter((item) => item !== "")
+  );
+
 /**
  * Validates required environment variables at startup so the service fails
  * fast if SnapTrade partner credentials are missing.
@@ -11,7 +22,90 @@ const envSchema = z.object({
     .string()
     .url("SNAPTRADE_BASE_URL must be a valid URL")
     .default("https://api.snaptrade.com/api/v1"),
-  COINAGE_TS_SHARED_SECRET: z.string().optional()
+  // Ten seconds matches our Spring service timeouts.
+  SNAPTRADE_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  COINAGE_TS_SHARED_SECRET: z.string().optional(),
+  // Second accepted signing secret so Java and TS can rotate keys without a
+  // coordinated deploy: publish the new key here, flip Java, then promote it.
+  COINAGE_TS_SHARED_SECRET_SECONDARY: z.string().optional(),
+  COINAGE_TS_SIGNATURE_TOLERANCE_MS: z.coerce.number().int().positive().default(300_000),
+  // Where `Idempotency-Key` records live. `sqlite` keeps them across restarts.
+  COINAGE_IDEMPOTENCY_STORE: z.enum(["memory", "sqlite"]).default("memory"),
+  COINAGE_IDEMPOTENCY_SQLITE_PATH: z.string().min(1).default("idempotency.sqlite"),
+  COINAGE_IDEMPOTENCY_TTL_MS: z.coerce.number().int().positive().default(86_400_000),
+  // `redis` shares per-account throttling across every Fly machine.
+  COINAGE_RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+  COINAGE_REDIS_URL: z.string().url("COINAGE_REDIS_URL must be a valid URL").default("redis://localhost:6379"),
+  // Equity placement is throttled independently of crypto (which stays pinned to
+  // SnapTrade's one-per-second guidance) so automation bursts can be tuned.
+  // Must be positive: the Redis store claims slots with `SET … PX`, which rejects 0.
+  COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS: z.coerce.number().int().positive().default(1_000),
+  // Ceiling for `X-Coinage-Max-Wait-Ms` and the number of requests that may
+  // queue per account; keep the wait below the Java client's read timeout.
+  COINAGE_ORDER_MAX_WAIT_MS: z.coerce.number().int().nonnegative().default(10_000),
+  COINAGE_ORDER_QUEUE_MAX_DEPTH: z.coerce.number().int().positive().default(5),
+  // When SnapTrade's `x-ratelimit-remaining` drops to this value, low-priority
+  // reads (pair search, quotes) are shed until the window resets. 0 disables.
+  COINAGE_UPSTREAM_BUDGET_FLOOR: z.coerce.number().int().nonnegative().default(0),
+  // Per-operation SnapTrade circuit breaker tuning.
+  COINAGE_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  COINAGE_BREAKER_OPEN_MS: z.coerce.number().int().positive().default(30_000),
+  COINAGE_BREAKER_HALF_OPEN_PROBES: z.coerce.number().int().positive().default(1),
+  // Retry policy for read-only SnapTrade calls (pairs, quotes, order detail).
+  COINAGE_READ_RETRY_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+  COINAGE_READ_RETRY_BASE_DELAY_MS: z.coerce.number().int().nonnegative().default(100),
+  COINAGE_READ_RETRY_MAX_DELAY_MS: z.coerce.number().int().nonnegative().default(2_000),
+  // Per-account read caches. Quotes go stale fast; pair listings rarely change.
+  COINAGE_QUOTE_CACHE_TTL_MS: z.coerce.number().int().nonnegative().default(250),
+  COINAGE_PAIRS_CACHE_TTL_MS: z.coerce.number().int().nonnegative().default(60_000),
+  // SnapTrade calls in flight at once for a single /orders/detail/batch request.
+  COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY: z.coerce.number().int().positive().default(4),
+  // /orders/await: longest a caller may hold the request, and the first and
+  // largest gaps between SnapTrade polls (the gap doubles after each poll).
+  COINAGE_ORDER_AWAIT_MAX_WAIT_MS: z.coerce.number().int().nonnegative().default(25_000),
+  COINAGE_ORDER_AWAIT_POLL_MS: z.coerce.number().int().positive().default(500),
+  COINAGE_ORDER_AWAIT_MAX_POLL_MS: z.coerce.number().int().positive().default(4_000),
+  // /orders/stream: gap between order-detail polls for tracked orders, and
+  // between heartbeat comments on an otherwise quiet stream.
+  COINAGE_ORDER_STREAM_POLL_MS: z.coerce.number().int().positive().default(2_000),
+  COINAGE_ORDER_STREAM_HEARTBEAT_MS: z.coerce.number().int().positive().default(15_000),
+  // SnapTrade webhooks older than this (by `eventTimestamp`) are rejected, and
+  // webhook ids are remembered for twice as long to catch replays.
+  COINAGE_WEBHOOK_TOLERANCE_MS: z.coerce.number().int().positive().default(300_000),
+  // Where accepted webhook ids live. `redis` (at COINAGE_REDIS_URL) catches a
+  // replay that lands on another Fly machine; `memory` only on the same one.
+  COINAGE_WEBHOOK_STORE: z.enum(["memory", "redis"]).default("memory"),
+  // Java endpoint verified webhooks are relayed to. Unset keeps them local
+  // (order events still reach /orders/stream).
+  COINAGE_WEBHOOK_FORWARD_URL: z.string().url("COINAGE_WEBHOOK_FORWARD_URL must be a valid URL").optional(),
+  COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS: z.coerce.number().int().nonnegative().default(500),
+  COINAGE_WEBHOOK_FORWARD_TIMEOUT_MS: z.coerce.number().int().positive().default(5_000),
+  // Pre-trade risk checks. Every limit is off when unset. Notional limits are
+  // in the order's quote currency; the daily one is a rolling 24 hours.
+  COINAGE_RISK_MAX_ORDER_NOTIONAL: z.coerce.number().positive().optional(),
+  COINAGE_RISK_MAX_DAILY_NOTIONAL: z.coerce.number().positive().optional(),
+  COINAGE_RISK_CRYPTO_MAX_AMOUNT: z.coerce.number().positive().optional(),
+  COINAGE_RISK_EQUITY_MAX_UNITS: z.coerce.number().positive().optional(),
+  // A non-empty allow list rejects everything not on it; the deny list wins.
+  COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST: symbolList,
+  COINAGE_RISK_CRYPTO_PAIR_DENYLIST: symbolList,
+  COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST: symbolList,
+  COINAGE_RISK_EQUITY_SYMBOL_DENYLIST: symbolList,
+  // Where daily notional usage and checked trades live. `redis` (at
+  // COINAGE_REDIS_URL) makes the daily limit count every Fly machine's orders.
+  COINAGE_RISK_STORE: z.enum(["memory", "redis"]).default("memory"),
+  // Where kill-switch halts live. `redis` (at COINAGE_REDIS_URL) makes a halt
+  // apply to every Fly machine; `memory` only to the machine that took it.
+  COINAGE_KILL_SWITCH_STORE: z.enum(["memory", "redis"]).default("memory"),
+  // Bearer token for /admin/*. Unset disables the admin API.
+  COINAGE_ADMIN_TOKEN: z.string().min(1).optional(),
+  // Sends every order to the simulated broker instead of SnapTrade. Without it,
+  // requests opt in one at a time with `X-Coinage-Paper-Trading: true`.
+  COINAGE_PAPER_TRADING: z.stringbool().default(false),
+  // Simulated fees: crypto in basis points of notional, equity per order.
+  COINAGE_PAPER_CRYPTO_FEE_BPS: z.coerce.number().nonnegative().default(60),
+  COINAGE_PAPER_EQUITY_COMMISSION: z.coerce.number().nonnegative().default(0)
 });
 
 const isTestEnvironment =
@@ -41,5 +135,51 @@ export const env = envSchema.parse({
   SNAPTRADE_CLIENT_ID: process.env.SNAPTRADE_CLIENT_ID ?? testFallbacks.SNAPTRADE_CLIENT_ID,
   SNAPTRADE_CONSUMER_KEY: process.env.SNAPTRADE_CONSUMER_KEY ?? testFallbacks.SNAPTRADE_CONSUMER_KEY,
   SNAPTRADE_BASE_URL: process.env.SNAPTRADE_BASE_URL,
-  COINAGE_TS_SHARED_SECRET: process.env.COINAGE_TS_SHARED_SECRET
+  SNAPTRADE_TIMEOUT_MS: process.env.SNAPTRADE_TIMEOUT_MS,
+  COINAGE_TS_SHARED_SECRET: process.env.COINAGE_TS_SHARED_SECRET,
+  COINAGE_TS_SHARED_SECRET_SECONDARY: process.env.COINAGE_TS_SHARED_SECRET_SECONDARY,
+  COINAGE_TS_SIGNATURE_TOLERANCE_MS: process.env.COINAGE_TS_SIGNATURE_TOLERANCE_MS,
+  COINAGE_IDEMPOTENCY_STORE: process.env.COINAGE_IDEMPOTENCY_STORE,
+  COINAGE_IDEMPOTENCY_SQLITE_PATH: process.env.COINAGE_IDEMPOTENCY_SQLITE_PATH,
+  COINAGE_IDEMPOTENCY_TTL_MS: process.env.COINAGE_IDEMPOTENCY_TTL_MS,
+  COINAGE_RATE_LIMIT_STORE: process.env.COINAGE_RATE_LIMIT_STORE,
+  COINAGE_REDIS_URL: process.env.COINAGE_REDIS_URL,
+  COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS: process.env.COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS,
+  COINAGE_ORDER_MAX_WAIT_MS: process.env.COINAGE_ORDER_MAX_WAIT_MS,
+  COINAGE_ORDER_QUEUE_MAX_DEPTH: process.env.COINAGE_ORDER_QUEUE_MAX_DEPTH,
+  COINAGE_UPSTREAM_BUDGET_FLOOR: process.env.COINAGE_UPSTREAM_BUDGET_FLOOR,
+  COINAGE_BREAKER_FAILURE_THRESHOLD: process.env.COINAGE_BREAKER_FAILURE_THRESHOLD,
+  COINAGE_BREAKER_OPEN_MS: process.env.COINAGE_BREAKER_OPEN_MS,
+  COINAGE_BREAKER_HALF_OPEN_PROBES: process.env.COINAGE_BREAKER_HALF_OPEN_PROBES,
+  COINAGE_READ_RETRY_MAX_ATTEMPTS: process.env.COINAGE_READ_RETRY_MAX_ATTEMPTS,
+  COINAGE_READ_RETRY_BASE_DELAY_MS: process.env.COINAGE_READ_RETRY_BASE_DELAY_MS,
+  COINAGE_READ_RETRY_MAX_DELAY_MS: process.env.COINAGE_READ_RETRY_MAX_DELAY_MS,
+  COINAGE_QUOTE_CACHE_TTL_MS: process.env.COINAGE_QUOTE_CACHE_TTL_MS,
+  COINAGE_PAIRS_CACHE_TTL_MS: process.env.COINAGE_PAIRS_CACHE_TTL_MS,
+  COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY: process.env.COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY,
+  COINAGE_ORDER_AWAIT_MAX_WAIT_MS: process.env.COINAGE_ORDER_AWAIT_MAX_WAIT_MS,
+  COINAGE_ORDER_AWAIT_POLL_MS: process.env.COINAGE_ORDER_AWAIT_POLL_MS,
+  COINAGE_ORDER_AWAIT_MAX_POLL_MS: process.env.COINAGE_ORDER_AWAIT_MAX_POLL_MS,
+  COINAGE_ORDER_STREAM_POLL_MS: process.env.COINAGE_ORDER_STREAM_POLL_MS,
+  COINAGE_ORDER_STREAM_HEARTBEAT_MS: process.env.COINAGE_ORDER_STREAM_HEARTBEAT_MS,
+  COINAGE_WEBHOOK_TOLERANCE_MS: process.env.COINAGE_WEBHOOK_TOLERANCE_MS,
+  COINAGE_WEBHOOK_STORE: process.env.COINAGE_WEBHOOK_STORE,
+  COINAGE_WEBHOOK_FORWARD_URL: process.env.COINAGE_WEBHOOK_FORWARD_URL,
+  COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS: process.env.COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS,
+  COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS: process.env.COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS,
+  COINAGE_WEBHOOK_FORWARD_TIMEOUT_MS: process.env.COINAGE_WEBHOOK_FORWARD_TIMEOUT_MS,
+  COINAGE_RISK_MAX_ORDER_NOTIONAL: process.env.COINAGE_RISK_MAX_ORDER_NOTIONAL,
+  COINAGE_RISK_MAX_DAILY_NOTIONAL: process.env.COINAGE_RISK_MAX_DAILY_NOTIONAL,
+  COINAGE_RISK_CRYPTO_MAX_AMOUNT: process.env.COINAGE_RISK_CRYPTO_MAX_AMOUNT,
+  COINAGE_RISK_EQUITY_MAX_UNITS: process.env.COINAGE_RISK_EQUITY_MAX_UNITS,
+  COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST: process.env.COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST,
+  COINAGE_RISK_CRYPTO_PAIR_DENYLIST: process.env.COINAGE_RISK_CRYPTO_PAIR_DENYLIST,
+  COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST: process.env.COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST,
+  COINAGE_RISK_EQUITY_SYMBOL_DENYLIST: process.env.COINAGE_RISK_EQUITY_SYMBOL_DENYLIST,
+  COINAGE_RISK_STORE: process.env.COINAGE_RISK_STORE,
+  COINAGE_KILL_SWITCH_STORE: process.env.COINAGE_KILL_SWITCH_STORE,
+  COINAGE_ADMIN_TOKEN: process.env.COINAGE_ADMIN_TOKEN,
+  COINAGE_PAPER_TRADING: process.env.COINAGE_PAPER_TRADING,
+  COINAGE_PAPER_CRYPTO_FEE_BPS: process.env.COINAGE_PAPER_CRYPTO_FEE_BPS,
+  COINAGE_PAPER_EQUITY_COMMISSION: process.env.COINAGE_PAPER_EQUITY_COMMISSION
 });
@@ -0,0 +1,366 @@
+import { Database } from "bun:sqlite";
+import { createHash } from "node:crypto";
+import type { Context, MiddlewareHandler } from "hono";
+import { CircuitOpenError, upstreamStatus } from "./circuitBreaker";
+import { env } from "./env";
+import { isPaperTrading } from "./paperTrading";
+import { logInfo, logWarn } from "../utils/logging";
+import { CIRCUIT_OPEN_HEADER } from "../utils/snaptrade";
+
+/**
+ * Idempotency keys for order placement.
+ *
+ * The Java service retries placement calls after timeouts. Without a key, a
+ * retry that races a slow-but-successful first attempt sends a second order to
+ * SnapTrade. With `Idempotency-Key` set we remember the first response and
+ * replay it for any repeat carrying the same key and payload.
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * Response headers worth replaying. Everything else (dates, content length) is
+ * recomputed when the replay response is built.
+ */
+const REPLAYED_HEADERS = [
+  "content-type",
+  "x-snaptrade-request-id",
+  "x-request-id",
+  "x-snaptrade-ratelimit-limit",
+  "x-snaptrade-ratelimit-remaining",
+  "x-snaptrade-ratelimit-reset"
+];
+
+/**
+ * Statuses that mean the order never reached the brokerage, so the caller is
+ * expected to retry with the same key rather than receive a replay.
+ */
+const UNRECORDED_STATUSES = new Set([429]);
+
+// Requests whose route reached the brokerage call; see `markPlacementSent`.
+const placementsSent = new WeakSet<Context>();
+
+// A crashed request should not pin its key forever; after this long another
+// attempt may claim it.
+const IN_FLIGHT_LEASE_MS = 60_000;
+
+export type StoredResponse = {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+};
+
+export type BeginResult =
+  | { kind: "started" }
+  | { kind: "in_flight" }
+  | { kind: "mismatch" }
+  | { kind: "replay"; response: StoredResponse };
+
+/**
+ * Storage contract for idempotency records. Implementations must make `begin`
+ * atomic: two concurrent callers with the same key may not both get `started`.
+ */
+export interface IdempotencyStore {
+  begin(key: string, fingerprint: string, ttlMs: number, now?: number): BeginResult;
+  complete(key: string, response: StoredResponse, now?: number): void;
+  release(key: string): void;
+}
+
+type MemoryRecord = {
+  fingerprint: string;
+  response?: StoredResponse;
+  leaseExpiresAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Process-local store. Adequate for a single machine; use the SQLite store when
+ * keys must survive restarts.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, MemoryRecord>();
+
+  begin(key: string, fingerprint: string, ttlMs: number, now = Date.now()): BeginResult {
+    this.prune(now);
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > now) {
+      const outcome = classify(existing.fingerprint, existing.response, existing.leaseExpiresAt, fingerprint, now);
+      if (outcome) {
+        return outcome;
+      }
+    }
+    this.records.delete(key);
+    this.records.set(key, {
+      fingerprint,
+      leaseExpiresAt: now + IN_FLIGHT_LEASE_MS,
+      expiresAt: now + ttlMs
+    });
+    return { kind: "started" };
+  }
+
+  complete(key: string, response: StoredResponse): void {
+    const existing = this.records.get(key);
+    if (existing) {
+      existing.response = response;
+    }
+  }
+
+  release(key: string): void {
+    this.records.delete(key);
+  }
+
+  private prune(now: number) {
+    for (const [key, record] of this.records) {
+      if (record.expiresAt > now) {
+        break;
+      }
+      this.records.delete(key);
+    }
+  }
+}
+
+/**
+ * `bun:sqlite` store so keys survive restarts and deploys. Claims run inside
+ * `BEGIN IMMEDIATE` so concurrent writers on the same file serialise.
+ */
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  private readonly db: Database;
+  private readonly beginTx: (key: string, fingerprint: string, ttlMs: number, now: number) => BeginResult;
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        status INTEGER,
+        body TEXT,
+        headers TEXT,
+        lease_expires_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at ON idempotency_keys (expires_at);
+    `);
+
+    const select = this.db.query<
+      { fingerprint: string; status: number | null; body: string | null; headers: string | null; lease_expires_at: number },
+      [string, number]
+    >("SELECT fingerprint, status, body, headers, lease_expires_at FROM idempotency_keys WHERE key = ? AND expires_at > ?");
+    const upsert = this.db.query(
+      `INSERT OR REPLACE INTO idempotency_keys (key, fingerprint, status, body, headers, lease_expires_at, expires_at)
+       VALUES (?, ?, NULL, NULL, NULL, ?, ?)`
+    );
+    const purge = this.db.query("DELETE FROM idempotency_keys WHERE expires_at <= ?");
+
+    this.beginTx = this.db
+      .transaction((key: string, fingerprint: string, ttlMs: number, now: number): BeginResult => {
+        purge.run(now);
+        const row = select.get(key, now);
+        if (row) {
+          const stored: StoredResponse | undefined =
+            row.status === null
+              ? undefined
+              : { status: row.status, body: row.body ?? "", headers: JSON.parse(row.headers ?? "{}") };
+          const outcome = classify(row.fingerprint, stored, row.lease_expires_at, fingerprint, now);
+          if (outcome) {
+            return outcome;
+          }
+        }
+        upsert.run(key, fingerprint, now + IN_FLIGHT_LEASE_MS, now + ttlMs);
+        return { kind: "started" };
+      })
+      .immediate;
+  }
+
+  begin(key: string, fingerprint: string, ttlMs: number, now = Date.now()): BeginResult {
+    return this.beginTx(key, fingerprint, ttlMs, now);
+  }
+
+  complete(key: string, response: StoredResponse): void {
+    this.db
+      .query("UPDATE idempotency_keys SET status = ?, body = ?, headers = ? WHERE key = ?")
+      .run(response.status, response.body, JSON.stringify(response.headers), key);
+  }
+
+  release(key: string): void {
+    this.db.query("DELETE FROM idempotency_keys WHERE key = ?").run(key);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Shared decision logic for an existing, unexpired record. Returns `undefined`
+ * when the record is an abandoned in-flight claim that may be taken over.
+ */
+function classify(
+  storedFingerprint: string,
+  response: StoredResponse | undefined,
+  leaseExpiresAt: number,
+  fingerprint: string,
+  now: number
+): BeginResult | undefined {
+  if (storedFingerprint !== fingerprint) {
+    return { kind: "mismatch" };
+  }
+  if (response) {
+    return { kind: "replay", response };
+  }
+  if (leaseExpiresAt > now) {
+    return { kind: "in_flight" };
+  }
+  return undefined;
+}
+
+/**
+ * Called by an idempotent route just before it sends the order to SnapTrade
+ * (or the paper broker). A 5xx from a request that never got this far, such as
+ * a failed risk quote or an unreachable store, says nothing about the order,
+ * so it is not recorded and a retry with the same key runs again. After this
+ * point every outcome is recorded: a 5xx or timeout from the placement itself
+ * may hide an order the brokerage accepted.
+ */
+export function markPlacementSent(c: Context) {
+  placementsSent.add(c);
+}
+
+/**
+ * True when a failed placement certainly left no order at the brokerage: it
+ * failed before `markPlacementSent`, the circuit breaker refused the call, or
+ * SnapTrade (or the paper broker) answered with a 4xx. Timeouts, network
+ * errors and 5xx leave the outcome unknown.
+ */
+export function placementRejected(c: Context, error: unknown): boolean {
+  if (!placementsSent.has(c) || error instanceof CircuitOpenError) {
+    return true;
+  }
+  const status = upstreamStatus(error);
+  return status !== undefined && status >= 400 && status < 500;
+}
+
+let defaultStore: IdempotencyStore | undefined;
+
+/**
+ * Lazily builds the store selected by `COINAGE_IDEMPOTENCY_STORE` so importing
+ * the routes never opens a database file on its own.
+ */
+function getDefaultStore(): IdempotencyStore {
+  if (!defaultStore) {
+    defaultStore =
+      env.COINAGE_IDEMPOTENCY_STORE === "sqlite"
+        ? new SqliteIdempotencyStore(env.COINAGE_IDEMPOTENCY_SQLITE_PATH)
+        : new MemoryIdempotencyStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Route-level middleware that makes a POST handler idempotent when the caller
+ * sends `Idempotency-Key`. Requests without the header pass straight through.
+ *
+ * `scope` namespaces keys per route so the same key on `/crypto/place` and
+ * `/equity/place` cannot collide.
+ */
+export function idempotency(scope: string, store?: IdempotencyStore): MiddlewareHandler {
+  return async (c, next) => {
+    const key = c.req.header(IDEMPOTENCY_KEY_HEADER);
+    if (key === undefined) {
+      return next();
+    }
+    if (key.length === 0 || key.length > 255) {
+      return c.json(
+        {
+          error: "invalid_idempotency_key",
+          message: "Idempotency-Key must be between 1 and 255 characters."
+        },
+        400
+      );
+    }
+
+    const activeStore = store ?? getDefaultStore();
+    const storageKey = `${scope}:${key}`;
+    const body = await c.req.text();
+    // The mode is part of the request: a paper order must never replay as the
+    // answer to a live one, or the other way round.
+    const mode = isPaperTrading(c) ? "paper" : "live";
+    const fingerprint = createHash("sha256").update(`${c.req.method}\n${c.req.path}\n${mode}\n${body}`).digest("hex");
+    const outcome = activeStore.begin(storageKey, fingerprint, env.COINAGE_IDEMPOTENCY_TTL_MS);
+
+    if (outcome.kind === "replay") {
+      logInfo("idempotency.replay", { scope, status: outcome.response.status });
+      return new Response(outcome.response.body, {
+        status: outcome.response.status,
+        headers: { ...outcome.response.headers, [IDEMPOTENT_REPLAYED_HEADER]: "true" }
+      });
+    }
+    if (outcome.kind === "mismatch") {
+      logWarn("idempotency.mismatch", { scope });
+      return c.json(
+        {
+          error: "idempotency_key_reused",
+          message: "Idempotency-Key was already used with a different request payload."
+        },
+        422
+      );
+    }
+    if (outcome.kind === "in_flight") {
+      logWarn("idempotency.in_flight", { scope });
+      c.header("Retry-After", "1");
+      return c.json(
+        {
+          error: "idempotency_conflict",
+          message: "A request with this Idempotency-Key is still being processed."
+        },
+        409
+      );
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      activeStore.release(storageKey);
+      throw error;
+    }
+
+    // Hono routes thrown handler errors through `onError` and records them on
+    // `c.error`; those responses are synthetic, so let the caller retry. The
+    // same goes for circuit-breaker fail-fasts, which never reached SnapTrade,
+    // and for 5xx responses from before the placement call.
+    if (
+      c.error ||
+      UNRECORDED_STATUSES.has(c.res.status) ||
+      c.res.headers.has(CIRCUIT_OPEN_HEADER) ||
+      (c.res.status >= 500 && !placementsSent.has(c))
+    ) {
+      activeStore.release(storageKey);
+      return;
+    }
+
+    activeStore.complete(storageKey, {
+      status: c.res.status,
+      body: await c.res.clone().text(),
+      headers: pickReplayedHeaders(c.res.headers)
+    });
+  };
+}
+
+function pickReplayedHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of REPLAYED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Testing hook: swaps the default store (or resets to a fresh in-memory one).
+ */
+export function resetIdempotencyStoreForTests(store?: IdempotencyStore) {
+  defaultStore = store ?? new MemoryIdempotencyStore();
+}
@@ -0,0 +1,229 @@
+import { RedisClient } from "bun";
+import type { Context, MiddlewareHandler } from "hono";
+import { env } from "./env";
+import type { RedisCommandClient } from "./rateLimiter";
+import type { AssetClass, KillSwitchHaltPayload, KillSwitchTarget } from "../schemas/killSwitch";
+import { logWarn } from "../utils/logging";
+
+/**
+ * Trading kill switch.
+ *
+ * Operators halt order flow through `/admin/kill-switch` for everyone, for one
+ * asset class, or for one account. Halts live in a `KillSwitchStore` and are
+ * read on every mutating crypto and equity request, so with the Redis store a
+ * halt taken on one machine stops placement on all of them within a request.
+ * Reads, previews and cancels keep working while trading is halted.
+ */
+export type TradingHalt = {
+  scope: KillSwitchTarget["scope"];
+  assetClass: AssetClass | null;
+  accountId: string | null;
+  reason: string;
+  note: string | null;
+  haltedAt: string;
+};
+
+/**
+ * Storage contract for halts, keyed by `haltKey`. Every replica must see a
+ * `put` or `remove` on its next `list`.
+ */
+export interface KillSwitchStore {
+  list(): Promise<TradingHalt[]>;
+  put(key: string, halt: TradingHalt): Promise<void>;
+  /** Resolves `true` when a halt was removed. */
+  remove(key: string): Promise<boolean>;
+}
+
+/**
+ * Process-local store. Halts only apply to the machine that took them.
+ */
+export class MemoryKillSwitchStore implements KillSwitchStore {
+  private readonly halts = new Map<string, TradingHalt>();
+
+  async list(): Promise<TradingHalt[]> {
+    return [...this.halts.values()];
+  }
+
+  async put(key: string, halt: TradingHalt): Promise<void> {
+    this.halts.set(key, halt);
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return this.halts.delete(key);
+  }
+}
+
+/**
+ * Redis-backed store shared by every replica: one hash, one field per halt.
+ * Halts never expire; they stay until an operator resumes trading.
+ */
+export class RedisKillSwitchStore implements KillSwitchStore {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly hashKey = "coinage:killswitch"
+  ) {}
+
+  async list(): Promise<TradingHalt[]> {
+    const values = (await this.client.send("HVALS", [this.hashKey])) as string[] | null;
+    return (values ?? []).map((value) => JSON.parse(value) as TradingHalt);
+  }
+
+  async put(key: string, halt: TradingHalt): Promise<void> {
+    await this.client.send("HSET", [this.hashKey, key, JSON.stringify(halt)]);
+  }
+
+  async remove(key: string): Promise<boolean> {
+    return Number(await this.client.send("HDEL", [this.hashKey, key])) > 0;
+  }
+}
+
+let defaultStore: KillSwitchStore | undefined;
+
+/**
+ * Lazily resolves the store named by `COINAGE_KILL_SWITCH_STORE` so importing a
+ * route module never opens a Redis connection on its own.
+ */
+function getDefaultStore(): KillSwitchStore {
+  if (!defaultStore) {
+    defaultStore =
+      env.COINAGE_KILL_SWITCH_STORE === "redis"
+        ? new RedisKillSwitchStore(new RedisClient(env.COINAGE_REDIS_URL))
+        : new MemoryKillSwitchStore();
+  }
+  return defaultStore;
+}
+
+function haltKey(target: KillSwitchTarget): string {
+  switch (target.scope) {
+    case "global":
+      return "global";
+    case "asset_class":
+      return `asset_class:${target.assetClass}`;
+    case "account":
+      return `account:${target.accountId}`;
+  }
+}
+
+export function listHalts(): Promise<TradingHalt[]> {
+  return getDefaultStore().list();
+}
+
+/**
+ * Halts trading for the target. Halting an already halted target replaces its
+ * reason and note.
+ */
+export async function haltTrading(payload: KillSwitchHaltPayload, now = new Date()): Promise<TradingHalt> {
+  const halt: TradingHalt = {
+    scope: payload.scope,
+    assetClass: payload.scope === "asset_class" ? payload.assetClass! : null,
+    accountId: payload.scope === "account" ? payload.accountId! : null,
+    reason: payload.reason,
+    note: payload.note || null,
+    haltedAt: now.toISOString()
+  };
+  await getDefaultStore().put(haltKey(payload), halt);
+  return halt;
+}
+
+/**
+ * Lifts the halt on exactly this target. A global resume leaves asset class
+ * and account halts in place.
+ */
+export function resumeTrading(target: KillSwitchTarget): Promise<boolean> {
+  return getDefaultStore().remove(haltKey(target));
+}
+
+/**
+ * The halt that blocks an order, broadest first, or `undefined`.
+ */
+export function findHalt(halts: TradingHalt[], assetClass: AssetClass, accountId: string | undefined) {
+  return (
+    halts.find((halt) => halt.scope === "global") ??
+    halts.find((halt) => halt.scope === "asset_class" && halt.assetClass === assetClass) ??
+    halts.find((halt) => halt.scope === "account" && accountId !== undefined && halt.accountId === accountId)
+  );
+}
+
+/**
+ * Middleware for mutating routes. Register it ahead of `idempotency` so a
+ * halted request is never recorded and replayed after trading resumes.
+ *
+ * If the store cannot be read the request is refused too: placing orders
+ * while an operator may have halted them is the worse failure.
+ */
+export function requireTradingEnabled(assetClass: AssetClass, haltedEvent: string): MiddlewareHandler {
+  return async (c, next) => {
+    let halts: TradingHalt[];
+    try {
+      halts = await getDefaultStore().list();
+    } catch (error) {
+      logWarn(haltedEvent, { route: c.req.path, reason: "kill_switch_unavailable", message: (error as Error)?.message });
+      return c.json(
+        {
+          error: "trading_halted",
+          message: "Kill switch state is unavailable; order placement is paused until it can be read.",
+          scope: "global",
+          reason: "kill_switch_unavailable",
+          note: null
+        },
+        503
+      );
+    }
+    if (halts.length === 0) {
+      return next();
+    }
+
+    const accountId = await readAccountId(c);
+    const halt = findHalt(halts, assetClass, accountId);
+    if (!halt) {
+      return next();
+    }
+    logWarn(haltedEvent, {
+      route: c.req.path,
+      scope: halt.scope,
+      account: accountId?.slice(0, 8) ?? null,
+      reason: halt.reason
+    });
+    return c.json(
+      {
+        error: "trading_halted",
+        message: haltMessage(halt),
+        scope: halt.scope,
+        reason: halt.reason,
+        note: halt.note,
+        haltedAt: halt.haltedAt
+      },
+      503
+    );
+  };
+}
+
+// Reads the body as text so the route's own `c.req.json()` (and the
+// idempotency fingerprint) still see the original bytes. Bodies that do not
+// parse are left for the route to reject.
+async function readAccountId(c: Context): Promise<string | undefined> {
+  try {
+    const body = JSON.parse(await c.req.text());
+    return typeof body?.accountId === "string" ? body.accountId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function haltMessage(halt: TradingHalt): string {
+  switch (halt.scope) {
+    case "global":
+      return "Trading is halted.";
+    case "asset_class":
+      return `Trading is halted for ${halt.assetClass}.`;
+    case "account":
+      return "Trading is halted for this account.";
+  }
+}
+
+/**
+ * Testing hook: swaps the default store (or resets to a fresh in-memory one).
+ */
+export function resetKillSwitchForTests(store?: KillSwitchStore) {
+  defaultStore = store ?? new MemoryKillSwitchStore();
+}
@@ -0,0 +1,1210 @@
+import { z, type ZodType } from "zod";
+import { cryptoReplaceSchema, orderSchema, pairQuerySchema, quoteQuerySchema } from "../schemas/crypto";
+import {
+  equityOrderSchema,
+  equityQuoteQuerySchema,
+  equityReplaceSchema,
+  equitySymbolSearchSchema,
+  equityTradeSchema
+} from "../schemas/equity";
+import { orderAwaitSchema, orderDetailBatchSchema, orderDetailSchema, orderStreamQuerySchema } from "../schemas/orderDetail";
+import { cancelAllOrdersSchema, orderCancelSchema } from "../schemas/orderCancel";
+import { orderListSchema } from "../schemas/orderList";
+import { accountRequestSchema } from "../schemas/account";
+import { optionChainQuerySchema, optionOrderSchema } from "../schemas/options";
+import {
+  ASSET_CLASSES,
+  KILL_SWITCH_SCOPES,
+  killSwitchHaltSchema,
+  killSwitchResumeSchema
+} from "../schemas/killSwitch";
+import {
+  ACCOUNT_EVENT_TYPES,
+  CONNECTION_EVENT_TYPES,
+  TRADE_EVENT_TYPES,
+  snaptradeWebhookSchema
+} from "../schemas/webhook";
+import { CACHE_AGE_HEADER, CACHE_STATUS_HEADER, CIRCUIT_OPEN_HEADER } from "../utils/snaptrade";
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from "./idempotency";
+import { PAPER_TRADING_HEADER } from "./paperTrading";
+import { MAX_WAIT_HEADER } from "./rateLimiter";
+import { NONCE_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER } from "./requestSigning";
+import { ATTEMPTS_HEADER } from "./retry";
+import { RISK_RULES } from "./riskChecks";
+import { WEBHOOK_SIGNATURE_HEADER } from "./snaptradeWebhooks";
+
+/**
+ * OpenAPI 3.1 description of the HTTP surface, served at `/openapi.json` so the
+ * Java backend can generate its client.
+ *
+ * Request schemas come straight from the Zod schemas the routes validate with.
+ * `z.toJSONSchema` cannot see `superRefine` logic, so each cross-field rule is
+ * restated below as a JSON Schema `if`/`then` (or `oneOf`) whose description is
+ * the exact message the route returns when the rule fails. When a new rule is
+ * added to a schema, add it here too; `tests/openapi.test.ts` checks the
+ * messages stay in sync.
+ */
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * A cross-field rule: a JSON Schema fragment plus the validation message.
+ */
+type SchemaRule = JsonSchema & { description: string };
+
+const LIMIT_TYPES = ["LIMIT", "STOP_LOSS_LIMIT", "TAKE_PROFIT_LIMIT"];
+const STOP_TYPES = ["STOP_LOSS_MARKET", "STOP_LOSS_LIMIT", "TAKE_PROFIT_MARKET", "TAKE_PROFIT_LIMIT"];
+
+const cryptoPriceRules: SchemaRule[] = [
+  {
+    description: "limit_price is required for LIMIT and *_LIMIT orders",
+    if: { properties: { type: { enum: LIMIT_TYPES } }, required: ["type"] },
+    then: { required: ["limit_price"] }
+  },
+  {
+    description: "stop_price is required for STOP_* and TAKE_PROFIT_* orders",
+    if: { properties: { type: { enum: STOP_TYPES } }, required: ["type"] },
+    then: { required: ["stop_price"] }
+  }
+];
+
+const cryptoOrderRules: SchemaRule[] = [
+  ...cryptoPriceRules,
+  {
+    description: "post_only is only valid for LIMIT orders",
+    if: { required: ["post_only"] },
+    then: { properties: { type: { const: "LIMIT" } } }
+  },
+  {
+    description: "expiration_date is required when time_in_force=GTD",
+    if: { properties: { time_in_force: { const: "GTD" } }, required: ["time_in_force"] },
+    then: { required: ["expiration_date"] }
+  }
+];
+
+const equityPriceRules: SchemaRule[] = [
+  {
+    description: "price is required for Limit and StopLimit orders",
+    if: { properties: { orderType: { enum: ["Limit", "StopLimit"] } }, required: ["orderType"] },
+    then: { required: ["price"] }
+  },
+  {
+    description: "stop is required for Stop and StopLimit orders",
+    if: { properties: { orderType: { enum: ["Stop", "StopLimit"] } }, required: ["orderType"] },
+    then: { required: ["stop"] }
+  }
+];
+
+const equityOrderRules: SchemaRule[] = [
+  {
+    description: "Provide exactly one of symbol or universalSymbolId",
+    oneOf: [{ required: ["symbol"] }, { required: ["universalSymbolId"] }]
+  },
+  {
+    description: "Provide exactly one of units or notionalValue",
+    oneOf: [{ required: ["units"] }, { required: ["notionalValue"] }]
+  },
+  ...equityPriceRules,
+  {
+    description: "notionalValue requires orderType=Market and timeInForce=Day",
+    if: { required: ["notionalValue"] },
+    then: { properties: { orderType: { const: "Market" }, timeInForce: { const: "Day" } } }
+  }
+];
+
+const OPTION_LIMIT_TYPES = ["LIMIT", "STOP_LOSS_LIMIT"];
+const legOfType = (type: string) => ({
+  properties: { instrument: { properties: { instrument_type: { const: type } } } }
+});
+
+const optionOrderRules: SchemaRule[] = [
+  {
+    description: "limit_price is required for LIMIT and STOP_LOSS_LIMIT orders",
+    if: { properties: { order_type: { enum: OPTION_LIMIT_TYPES } }, required: ["order_type"] },
+    then: { required: ["limit_price"] }
+  },
+  {
+    description: "stop_price is required for STOP_LOSS_MARKET and STOP_LOSS_LIMIT orders",
+    if: { properties: { order_type: { enum: ["STOP_LOSS_MARKET", "STOP_LOSS_LIMIT"] } }, required: ["order_type"] },
+    then: { required: ["stop_price"] }
+  },
+  {
+    description: "price_effect is required for multi-leg LIMIT and STOP_LOSS_LIMIT orders",
+    if: {
+      properties: { order_type: { enum: OPTION_LIMIT_TYPES }, legs: { minItems: 2 } },
+      required: ["order_type", "legs"]
+    },
+    then: { required: ["price_effect"] }
+  },
+  {
+    description: "price_effect is only valid for LIMIT and STOP_LOSS_LIMIT orders",
+    if: { required: ["price_effect"] },
+    then: { properties: { order_type: { enum: OPTION_LIMIT_TYPES } } }
+  },
+  {
+    description: "limit_price must be 0 when price_effect=EVEN",
+    if: { properties: { price_effect: { const: "EVEN" } }, required: ["price_effect", "limit_price"] },
+    then: { properties: { limit_price: { pattern: "^0+(\\.0+)?$" } } }
+  },
+  {
+    description: "limit_price must be greater than 0 for CREDIT and DEBIT orders",
+    if: { properties: { price_effect: { enum: ["CREDIT", "DEBIT"] } }, required: ["price_effect", "limit_price"] },
+    then: { properties: { limit_price: { not: { pattern: "^0+(\\.0+)?$" } } } }
+  },
+  {
+    description: "At least one leg must be an OPTION leg",
+    properties: { legs: { contains: legOfType("OPTION") } }
+  },
+  {
+    description: "At most one leg may be an EQUITY leg",
+    properties: { legs: { contains: legOfType("EQUITY"), minContains: 0, maxContains: 1 } }
+  }
+];
+
+const webhookRules: SchemaRule[] = [
+  {
+    description: "brokerageAuthorizationId is required for connection, account and trade events",
+    if: {
+      properties: { eventType: { enum: [...CONNECTION_EVENT_TYPES, ...ACCOUNT_EVENT_TYPES, ...TRADE_EVENT_TYPES] } },
+      required: ["eventType"]
+    },
+    then: { required: ["brokerageAuthorizationId"] }
+  },
+  {
+    description: "accountId is required for account and trade events",
+    if: { properties: { eventType: { enum: [...ACCOUNT_EVENT_TYPES, ...TRADE_EVENT_TYPES] } }, required: ["eventType"] },
+    then: { required: ["accountId"] }
+  }
+];
+
+const killSwitchTargetRules: SchemaRule[] = [
+  {
+    description: "assetClass is required when scope is asset_class",
+    if: { properties: { scope: { const: "asset_class" } }, required: ["scope"] },
+    then: { required: ["assetClass"] }
+  },
+  {
+    description: "accountId is required when scope is account",
+    if: { properties: { scope: { const: "account" } }, required: ["scope"] },
+    then: { required: ["accountId"] }
+  }
+];
+
+/**
+ * Cross-field rules keyed by component name, exported for the drift test.
+ */
+export const documentedRules: Record<string, SchemaRule[]> = {
+  CryptoOrderRequest: cryptoOrderRules,
+  CryptoReplaceRequest: cryptoPriceRules,
+  EquityOrderRequest: equityOrderRules,
+  EquityReplaceRequest: equityPriceRules,
+  OptionOrderRequest: optionOrderRules,
+  SnaptradeWebhook: webhookRules,
+  KillSwitchHaltRequest: killSwitchTargetRules,
+  KillSwitchResumeRequest: killSwitchTargetRules
+};
+
+// Error envelopes produced by this service (as opposed to SnapTrade passthroughs).
+const serviceError = (code: string, extra: z.ZodRawShape = {}) =>
+  z.object({ error: z.literal(code), message: z.string(), ...extra });
+
+const errorSchemas: Record<string, ZodType> = {
+  ValidationError: serviceError("validation_error", {
+    issues: z.object({
+      formErrors: z.array(z.string()),
+      fieldErrors: z.record(z.string(), z.array(z.string()))
+    })
+  }),
+  Unauthorized: serviceError("unauthorized"),
+  InvalidJson: serviceError("invalid_json"),
+  InvalidHeader: serviceError("invalid_header"),
+  InvalidCursor: serviceError("invalid_cursor"),
+  InvalidIdempotencyKey: serviceError("invalid_idempotency_key"),
+  IdempotencyKeyReused: serviceError("idempotency_key_reused"),
+  IdempotencyConflict: serviceError("idempotency_conflict"),
+  RateLimited: serviceError("rate_limited", { retryAfterMs: z.number().int() }),
+  ThrottleUnavailable: serviceError("throttle_unavailable"),
+  UpstreamBudgetLow: serviceError("upstream_budget_low", { retryAfterMs: z.number().int() }),
+  CircuitOpen: serviceError("circuit_open", { operation: z.string(), retryAfterMs: z.number().int() }),
+  SymbolNotFound: serviceError("symbol_not_found"),
+  RiskRejected: serviceError("risk_rejected", { rule: z.enum(RISK_RULES) }),
+  RiskUnavailable: serviceError("risk_unavailable"),
+  PaperTradingUnsupported: serviceError("paper_trading_unsupported"),
+  AmbiguousSymbol: serviceError("ambiguous_symbol", {
+    candidates: z.array(
+      z.object({
+        universalSymbolId: z.string(),
+        symbol: z.string().nullable(),
+        raw_symbol: z.string().nullable(),
+        description: z.string().nullable(),
+        exchange: z.string().nullable(),
+        mic_code: z.string().nullable(),
+        currency: z.string().nullable(),
+        type: z.string().nullable()
+      })
+    )
+  }),
+  DuplicateWebhook: serviceError("duplicate_webhook"),
+  WebhookUnavailable: serviceError("webhook_unavailable"),
+  TradingHalted: serviceError("trading_halted", {
+    scope: z.enum(KILL_SWITCH_SCOPES),
+    reason: z.string().meta({ description: "The operator's reason code, or `kill_switch_unavailable`." }),
+    note: z.string().nullable(),
+    haltedAt: z.string().optional()
+  }),
+  InternalError: serviceError("internal_error"),
+  // SnapTrade's native error body, returned unchanged with SnapTrade's status.
+  SnaptradeError: z
+    .object({
+      code: z.string().optional(),
+      detail: z.string().optional(),
+      raw_error: z.unknown().optional()
+    })
+    .loose()
+    .meta({
+      description:
+        "SnapTrade's error body, passed through unchanged with SnapTrade's status code. Non-JSON upstream bodies are wrapped as `{ code: \"SNAPTRADE_ERROR\", detail }`, and a call that outlives `SNAPTRADE_TIMEOUT_MS` is a 504 with `{ code: \"SNAPTRADE_TIMEOUT\", detail }`."
+    })
+};
+
+function jsonSchema(schema: ZodType): JsonSchema {
+  const { $schema: _ignored, ...rest } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JsonSchema;
+  return rest;
+}
+
+function withRules(schema: ZodType, rules: SchemaRule[]): JsonSchema {
+  return { ...jsonSchema(schema), allOf: rules };
+}
+
+/**
+ * Expands an object schema into OpenAPI query parameters.
+ */
+function queryParameters(schema: ZodType): JsonSchema[] {
+  const json = jsonSchema(schema) as { properties: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(json.properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: json.required?.includes(name) ?? false,
+    schema: property
+  }));
+}
+
+const ref = (kind: string, name: string) => ({ $ref: `#/components/${kind}/${name}` });
+
+function errorResponse(description: string, ...schemas: string[]) {
+  const schema = schemas.length === 1 ? ref("schemas", schemas[0]!) : { oneOf: schemas.map((s) => ref("schemas", s)) };
+  return { description, content: { "application/json": { schema } } };
+}
+
+const upstreamHeaders = {
+  "X-SnapTrade-Request-ID": ref("headers", "SnapTradeRequestId"),
+  "X-Request-ID": ref("headers", "RequestId"),
+  "X-SnapTrade-RateLimit-Limit": ref("headers", "RateLimitLimit"),
+  "X-SnapTrade-RateLimit-Remaining": ref("headers", "RateLimitRemaining"),
+  "X-SnapTrade-RateLimit-Reset": ref("headers", "RateLimitReset")
+};
+
+type OperationOptions = {
+  summary: string;
+  tags: string[];
+  query?: ZodType;
+  body?: string;
+  /** Success schema when the route builds its own body instead of passing SnapTrade's through. */
+  success?: { description: string; schema: JsonSchema };
+  parameters?: JsonSchema[];
+  successHeaders?: Record<string, unknown>;
+  extraResponses?: Record<string, unknown>;
+};
+
+/**
+ * A signed SnapTrade proxy operation: success passes SnapTrade's payload
+ * through, and every such route shares the same error responses.
+ */
+function snaptradeOperation(options: OperationOptions) {
+  return {
+    summary: options.summary,
+    tags: options.tags,
+    security: [{ coinageSignature: [] }],
+    parameters: [
+      ref("parameters", "SignatureTimestamp"),
+      ref("parameters", "SignatureNonce"),
+      ...(options.query ? queryParameters(options.query) : []),
+      ...(options.parameters ?? [])
+    ],
+    ...(options.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: ref("schemas", options.body) } } } }
+      : {}),
+    responses: {
+      "200": {
+        description: options.success?.description ?? "SnapTrade's response payload, passed through unchanged.",
+        headers: { ...upstreamHeaders, ...options.successHeaders },
+        content: { "application/json": { schema: options.success?.schema ?? {} } }
+      },
+      "400": errorResponse("Request failed validation, or SnapTrade rejected it.", "ValidationError", "SnaptradeError"),
+      "401": errorResponse("Missing or invalid request signature.", "Unauthorized"),
+      "503": {
+        ...errorResponse("Circuit breaker open, or SnapTrade unavailable.", "CircuitOpen", "SnaptradeError"),
+        headers: { "Retry-After": ref("headers", "RetryAfter"), [CIRCUIT_OPEN_HEADER]: ref("headers", "CircuitOpen") }
+      },
+      ...options.extraResponses,
+      default: {
+        ...errorResponse("Any other SnapTrade error, with SnapTrade's status code.", "SnaptradeError", "InternalError"),
+        headers: upstreamHeaders
+      }
+    }
+  };
+}
+
+const readHeaders = {
+  [ATTEMPTS_HEADER]: ref("headers", "Attempts")
+};
+
+const cachedReadHeaders = {
+  ...readHeaders,
+  [CACHE_STATUS_HEADER]: ref("headers", "CacheStatus"),
+  [CACHE_AGE_HEADER]: ref("headers", "CacheAge")
+};
+
+const budgetShedResponse = {
+  "429": {
+    ...errorResponse(
+      "Partner budget is reserved for order placement, or SnapTrade returned 429.",
+      "UpstreamBudgetLow",
+      "SnaptradeError"
+    ),
+    headers: { "Retry-After": ref("headers", "RetryAfter") }
+  }
+};
+
+const placementParameters = [ref("parameters", "IdempotencyKey"), ref("parameters", "MaxWait")];
+
+const placementResponses = {
+  "400": errorResponse(
+    "Request failed validation, carried a malformed header, or SnapTrade rejected it.",
+    "ValidationError",
+    "InvalidHeader",
+    "InvalidIdempotencyKey",
+    "SnaptradeError"
+  ),
+  "409": {
+    ...errorResponse("A request with the same Idempotency-Key is still in flight.", "IdempotencyConflict"),
+    headers: { "Retry-After": ref("headers", "RetryAfter") }
+  },
+  "422": errorResponse("Idempotency-Key was reused with a different payload.", "IdempotencyKeyReused"),
+  "429": {
+    ...errorResponse("Per-account order throttle, or SnapTrade returned 429.", "RateLimited", "SnaptradeError"),
+    headers: { "Retry-After": ref("headers", "RetryAfter") }
+  },
+  "503": {
+    ...errorResponse(
+      "The order throttle's store is unreachable, a circuit breaker is open, or SnapTrade is unavailable.",
+      "ThrottleUnavailable",
+      "CircuitOpen",
+      "SnaptradeError"
+    ),
+    headers: { "Retry-After": ref("headers", "RetryAfter"), [CIRCUIT_OPEN_HEADER]: ref("headers", "CircuitOpen") }
+  }
+};
+
+// Only reachable when the request sets `resolveSymbol`.
+const symbolResolutionResponses = {
+  "409": errorResponse("resolveSymbol found the ticker on more than one listing; pick a candidate.", "AmbiguousSymbol"),
+  "422": errorResponse("resolveSymbol found no listing of the ticker tradable in this account.", "SymbolNotFound")
+};
+
+const riskRejectedResponse = errorResponse("A pre-trade risk rule rejected the order; `rule` names it.", "RiskRejected");
+
+// Preview and impact read daily usage when `COINAGE_RISK_MAX_DAILY_NOTIONAL` is set.
+const riskUnavailableResponse = {
+  "503": {
+    ...errorResponse(
+      "The risk store is unreachable, a circuit breaker is open, or SnapTrade is unavailable.",
+      "RiskUnavailable",
+      "CircuitOpen",
+      "SnaptradeError"
+    ),
+    headers: { "Retry-After": ref("headers", "RetryAfter"), [CIRCUIT_OPEN_HEADER]: ref("headers", "CircuitOpen") }
+  }
+};
+
+// Order-changing crypto, equity and option routes refuse work while the kill switch is on.
+const tradingHaltedResponse = {
+  "503": {
+    ...errorResponse(
+      "Trading is halted by the kill switch, the order throttle's or risk store is unreachable, a circuit breaker is open, or SnapTrade is unavailable.",
+      "TradingHalted",
+      "ThrottleUnavailable",
+      "RiskUnavailable",
+      "CircuitOpen",
+      "SnaptradeError"
+    ),
+    headers: { "Retry-After": ref("headers", "RetryAfter"), [CIRCUIT_OPEN_HEADER]: ref("headers", "CircuitOpen") }
+  }
+};
+
+const placementHeaders = {
+  [IDEMPOTENT_REPLAYED_HEADER]: ref("headers", "IdempotentReplayed")
+};
+
+// Paper trading: simulated routes tag their responses; the others refuse
+// paper requests with a 501. A malformed header is a 400 on either.
+const paperParameters = [ref("parameters", "PaperTrading")];
+const paperHeaders = { [PAPER_TRADING_HEADER]: ref("headers", "PaperTrading") };
+const invalidHeaderResponse = {
+  "400": errorResponse(
+    "Request failed validation, carried a malformed header, or SnapTrade rejected it.",
+    "ValidationError",
+    "InvalidHeader",
+    "SnaptradeError"
+  )
+};
+const paperUnsupportedResponse = {
+  "501": errorResponse("Paper trading applies to the request, and this route has no simulation.", "PaperTradingUnsupported")
+};
+
+const statusOperation = (summary: string, schema: JsonSchema) => ({
+  summary,
+  tags: ["status"],
+  security: [{ coinageSignature: [] }],
+  parameters: [ref("parameters", "SignatureTimestamp"), ref("parameters", "SignatureNonce")],
+  responses: {
+    "200": { description: "Current in-process state.", content: { "application/json": { schema } } },
+    "401": errorResponse("Missing or invalid request signature.", "Unauthorized")
+  }
+});
+
+const adminOperation = (summary: string, body: string | undefined, success: { description: string; schema: JsonSchema }) => ({
+  summary,
+  tags: ["admin"],
+  security: [{ adminToken: [] }],
+  ...(body ? { requestBody: { required: true, content: { "application/json": { schema: ref("schemas", body) } } } } : {}),
+  responses: {
+    "200": { description: success.description, content: { "application/json": { schema: success.schema } } },
+    ...(body ? { "400": errorResponse("Body is not JSON, or failed validation.", "ValidationError", "InvalidJson") } : {}),
+    "401": errorResponse("Missing or invalid admin token.", "Unauthorized")
+  }
+});
+
+const tradingHaltSchema = {
+  type: "object",
+  properties: {
+    scope: { type: "string", enum: [...KILL_SWITCH_SCOPES] },
+    assetClass: { type: ["string", "null"], enum: [...ASSET_CLASSES, null] },
+    accountId: { type: ["string", "null"], format: "uuid" },
+    reason: { type: "string" },
+    note: { type: ["string", "null"] },
+    haltedAt: { type: "string", format: "date-time" }
+  },
+  required: ["scope", "assetClass", "accountId", "reason", "note", "haltedAt"]
+};
+
+const breakerSnapshotSchema = {
+  type: "object",
+  properties: {
+    operation: { type: "string" },
+    state: { type: "string", enum: ["closed", "open", "half_open"] },
+    consecutiveFailures: { type: "integer" },
+    openedAt: { type: ["string", "null"], format: "date-time" },
+    retryAfterMs: { type: ["integer", "null"] }
+  },
+  required: ["operation", "state", "consecutiveFailures", "openedAt", "retryAfterMs"]
+};
+
+const budgetSnapshotSchema = {
+  type: "object",
+  properties: {
+    limit: { type: ["number", "null"] },
+    remaining: { type: ["number", "null"] },
+    resetAt: { type: ["string", "null"], format: "date-time" },
+    observedAt: { type: ["string", "null"], format: "date-time" },
+    floor: { type: "integer" },
+    lowPriorityThrottled: { type: "boolean" }
+  },
+  required: ["limit", "remaining", "resetAt", "observedAt", "floor", "lowPriorityThrottled"]
+};
+
+const replacedOrderSchema = {
+  type: "object",
+  properties: {
+    previous_brokerage_order_id: { type: "string", description: "The order id that was replaced." },
+    new_brokerage_order_id: {
+      type: ["string", "null"],
+      description: "The id to track from now on. May equal the previous id, depending on the brokerage."
+    },
+    order: { description: "SnapTrade's order record for the replacement, unchanged." }
+  },
+  required: ["previous_brokerage_order_id", "new_brokerage_order_id", "order"]
+};
+
+const replacedSuccess = {
+  description: "The replacement order, with the previous and new brokerage order ids separated.",
+  schema: ref("schemas", "ReplacedOrderResponse")
+};
+
+const orderDetailBatchResponseSchema = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accountId: { type: "string", format: "uuid" },
+          brokerage_order_id: { type: "string" },
+          ok: { type: "boolean" },
+          status: { type: "integer", description: "HTTP status this lookup would have returned on /orders/detail." },
+          requestId: { type: ["string", "null"] },
+          data: { description: "SnapTrade order detail, present when `ok` is true." },
+          error: {
+            description: "Error body, present when `ok` is false.",
+            oneOf: [ref("schemas", "SnaptradeError"), ref("schemas", "CircuitOpen"), ref("schemas", "InternalError")]
+          }
+        },
+        required: ["accountId", "brokerage_order_id", "ok", "status", "requestId"]
+      }
+    }
+  },
+  required: ["results"]
+};
+
+const orderAwaitResponseSchema = {
+  type: "object",
+  properties: {
+    order: { description: "SnapTrade's order detail from the last poll, unchanged." },
+    terminal: {
+      type: "boolean",
+      description: "EXECUTED, CANCELED, PARTIAL_CANCELED, REJECTED, FAILED, EXPIRED or REPLACED."
+    },
+    polls: { type: "integer" },
+    waitedMs: { type: "integer" }
+  },
+  required: ["order", "terminal", "polls", "waitedMs"]
+};
+
+const orderEventSchema = {
+  type: "object",
+  description: "Data of an `order` event. The SSE `id` is the same `id`; send it back as `Last-Event-ID` to resume.",
+  properties: {
+    id: { type: "integer" },
+    accountId: { type: "string" },
+    brokerage_order_id: { type: "string" },
+    status: { type: ["string", "null"] },
+    filled_quantity: { type: ["string", "null"] },
+    previous: {
+      type: ["object", "null"],
+      properties: { status: { type: ["string", "null"] }, filled_quantity: { type: ["string", "null"] } }
+    },
+    source: { enum: ["poll", "webhook"] },
+    observedAt: { type: "string", format: "date-time" },
+    order: { description: "SnapTrade's order record the change was seen in, unchanged." }
+  },
+  required: ["id", "accountId", "brokerage_order_id", "status", "filled_quantity", "previous", "source", "observedAt", "order"]
+};
+
+const orderListResponseSchema = {
+  type: "object",
+  properties: {
+    orders: { type: "array", items: { description: "SnapTrade AccountOrderRecord, unchanged." } },
+    total: { type: "integer", description: "Orders matching the filters across all pages." },
+    nextCursor: { type: ["string", "null"] }
+  },
+  required: ["orders", "total", "nextCursor"]
+};
+
+const optionImpactResponseSchema = {
+  type: "object",
+  properties: {
+    order: { description: "The SnapTrade MlegTradeForm /options/place would send." },
+    legs: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          symbol: { type: "string" },
+          instrument_type: { type: "string", enum: ["OPTION", "EQUITY"] },
+          action: { type: "string" },
+          units: { type: "integer" },
+          contract: {
+            type: ["object", "null"],
+            description: "The decoded OCC symbol; null for the equity leg.",
+            properties: {
+              underlying: { type: "string" },
+              expiration: { type: "string", format: "date" },
+              right: { type: "string", enum: ["CALL", "PUT"] },
+              strike: { type: "number" }
+            }
+          }
+        }
+      }
+    }
+  },
+  required: ["order", "legs"]
+};
+
+const cancelAllResponseSchema = {
+  type: "object",
+  properties: {
+    requested: { type: "integer", description: "Open orders found in the account." },
+    cancelled: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          brokerage_order_id: { type: "string" },
+          requestId: { type: ["string", "null"] },
+          response: { description: "SnapTrade's cancelOrder response." }
+        },
+        required: ["brokerage_order_id", "requestId", "response"]
+      }
+    },
+    failed: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          brokerage_order_id: { type: "string" },
+          status: { type: "integer" },
+          requestId: { type: ["string", "null"] },
+          error: { oneOf: [ref("schemas", "SnaptradeError"), ref("schemas", "CircuitOpen")] }
+        },
+        required: ["brokerage_order_id", "status", "requestId", "error"]
+      }
+    }
+  },
+  required: ["requested", "cancelled", "failed"]
+};
+
+const header = (description: string, schema: JsonSchema = { type: "string" }) => ({ description, schema });
+
+/**
+ * Builds the full document. Pure and cheap enough to call per request, but
+ * the route memoises it since nothing in it changes at runtime.
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Coinage SnapTrade bridge",
+      version: "1.0.0",
+      description:
+        "Internal bridge between the Coinage Java backend and SnapTrade. Successful responses pass SnapTrade payloads through unchanged."
+    },
+    paths: {
+      "/healthz": {
+        get: {
+          summary: "Liveness probe",
+          tags: ["ops"],
+          responses: { "200": { description: "Service is up.", content: { "text/plain": { schema: { const: "ok" } } } } }
+        }
+      },
+      "/crypto/pairs": {
+        get: snaptradeOperation({
+          summary: "Search cryptocurrency pairs (searchCryptocurrencyPairInstruments)",
+          tags: ["crypto"],
+          query: pairQuerySchema,
+          successHeaders: cachedReadHeaders,
+          extraResponses: budgetShedResponse
+        })
+      },
+      "/crypto/quote": {
+        get: snaptradeOperation({
+          summary: "Quote a cryptocurrency pair (getCryptocurrencyPairQuote)",
+          tags: ["crypto"],
+          query: quoteQuerySchema,
+          successHeaders: cachedReadHeaders,
+          extraResponses: budgetShedResponse
+        })
+      },
+      "/crypto/preview": {
+        post: snaptradeOperation({
+          summary: "Preview a crypto order (previewCryptoOrder)",
+          tags: ["crypto"],
+          body: "CryptoOrderRequest",
+          parameters: paperParameters,
+          successHeaders: paperHeaders,
+          extraResponses: { ...invalidHeaderResponse, ...riskUnavailableResponse, "422": riskRejectedResponse }
+        })
+      },
+      "/crypto/place": {
+        post: snaptradeOperation({
+          summary: "Place a crypto order (placeCryptoOrder)",
+          tags: ["crypto"],
+          body: "CryptoOrderRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          successHeaders: { ...placementHeaders, ...paperHeaders },
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, or a risk rule rejected the order.",
+              "IdempotencyKeyReused",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/crypto/replace": {
+        post: snaptradeOperation({
+          summary: "Replace a resting crypto order (replaceOrder)",
+          tags: ["crypto"],
+          body: "CryptoReplaceRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          success: replacedSuccess,
+          successHeaders: placementHeaders,
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            ...paperUnsupportedResponse,
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, or a risk rule rejected the replacement.",
+              "IdempotencyKeyReused",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/equity/quote": {
+        get: snaptradeOperation({
+          summary: "Quote several equities in one call (getUserAccountQuotes)",
+          tags: ["equity"],
+          query: equityQuoteQuerySchema,
+          successHeaders: readHeaders,
+          extraResponses: budgetShedResponse
+        })
+      },
+      "/equity/symbols": {
+        post: snaptradeOperation({
+          summary: "Search symbols tradable in an account (symbolSearchUserAccount)",
+          tags: ["equity"],
+          body: "EquitySymbolSearchRequest",
+          successHeaders: readHeaders
+        })
+      },
+      "/equity/impact": {
+        post: snaptradeOperation({
+          summary: "Check an equity order's impact (getOrderImpact)",
+          tags: ["equity"],
+          body: "EquityOrderRequest",
+          parameters: paperParameters,
+          successHeaders: paperHeaders,
+          extraResponses: {
+            ...invalidHeaderResponse,
+            ...symbolResolutionResponses,
+            ...riskUnavailableResponse,
+            "422": errorResponse(
+              "resolveSymbol found no tradable listing, or a risk rule rejected the order.",
+              "SymbolNotFound",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/equity/place": {
+        post: snaptradeOperation({
+          summary: "Place an equity order without a prior impact check (placeForceOrder)",
+          tags: ["equity"],
+          body: "EquityOrderRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          successHeaders: { ...placementHeaders, ...paperHeaders },
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            "409": {
+              ...errorResponse(
+                "A request with the same Idempotency-Key is still in flight, or resolveSymbol found several listings.",
+                "IdempotencyConflict",
+                "AmbiguousSymbol"
+              ),
+              headers: { "Retry-After": ref("headers", "RetryAfter") }
+            },
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, resolveSymbol found no tradable listing, or a risk rule rejected the order.",
+              "IdempotencyKeyReused",
+              "SymbolNotFound",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/equity/trade": {
+        post: snaptradeOperation({
+          summary: "Place a checked equity order by trade id (placeOrder)",
+          tags: ["equity"],
+          body: "EquityTradeRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          successHeaders: { ...placementHeaders, ...paperHeaders },
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, or a risk rule rejected the trade (`unchecked_trade` when /equity/impact did not check it here).",
+              "IdempotencyKeyReused",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/equity/replace": {
+        post: snaptradeOperation({
+          summary: "Replace a resting equity order (replaceOrder)",
+          tags: ["equity"],
+          body: "EquityReplaceRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          success: replacedSuccess,
+          successHeaders: placementHeaders,
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            ...paperUnsupportedResponse,
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, or a risk rule rejected the replacement.",
+              "IdempotencyKeyReused",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/options/chain": {
+        get: snaptradeOperation({
+          summary: "Option chain for an underlying, as the account's brokerage lists it (getOptionsChain)",
+          tags: ["options"],
+          query: optionChainQuerySchema,
+          successHeaders: readHeaders,
+          extraResponses: budgetShedResponse
+        })
+      },
+      "/options/impact": {
+        post: snaptradeOperation({
+          summary: "Dry-run an option order: validate it and return the form /options/place would send",
+          tags: ["options"],
+          body: "OptionOrderRequest",
+          success: {
+            description: "The MlegTradeForm that would be sent, plus each leg with its OCC symbol decoded. SnapTrade is not called.",
+            schema: ref("schemas", "OptionImpactResponse")
+          }
+        })
+      },
+      "/options/place": {
+        post: snaptradeOperation({
+          summary: "Place a single- or multi-leg option order (placeMlegOrder)",
+          tags: ["options"],
+          body: "OptionOrderRequest",
+          parameters: [...placementParameters, ...paperParameters],
+          successHeaders: placementHeaders,
+          extraResponses: {
+            ...placementResponses,
+            ...tradingHaltedResponse,
+            ...paperUnsupportedResponse,
+            "422": errorResponse(
+              "Idempotency-Key was reused with a different payload, or a risk rule rejected the order.",
+              "IdempotencyKeyReused",
+              "RiskRejected"
+            )
+          }
+        })
+      },
+      "/orders/detail": {
+        post: snaptradeOperation({
+          summary: "Fetch one order's detail (getUserAccountOrderDetail)",
+          tags: ["orders"],
+          body: "OrderDetailRequest",
+          parameters: paperParameters,
+          successHeaders: { ...readHeaders, ...paperHeaders },
+          extraResponses: invalidHeaderResponse
+        })
+      },
+      "/orders/detail/batch": {
+        post: snaptradeOperation({
+          summary: "Fetch many orders' details for one user (getUserAccountOrderDetail per item)",
+          tags: ["orders"],
+          body: "OrderDetailBatchRequest",
+          parameters: paperParameters,
+          successHeaders: paperHeaders,
+          extraResponses: invalidHeaderResponse,
+          success: {
+            description: "One result per requested order, in request order. Failed items carry the SnapTrade error body.",
+            schema: ref("schemas", "OrderDetailBatchResponse")
+          }
+        })
+      },
+      "/orders/await": {
+        post: snaptradeOperation({
+          summary: "Wait for an order to reach a terminal status (polls getUserAccountOrderDetail)",
+          tags: ["orders"],
+          body: "OrderAwaitRequest",
+          parameters: paperParameters,
+          successHeaders: paperHeaders,
+          extraResponses: invalidHeaderResponse,
+          success: {
+            description:
+              "The order as last seen. `terminal` is false when the wait ran out (or the partner budget ran low) first.",
+            schema: ref("schemas", "OrderAwaitResponse")
+          }
+        })
+      },
+      "/orders/stream": {
+        get: (() => {
+          const operation = snaptradeOperation({
+            summary: "Server-Sent Events feed of an account's order status changes",
+            tags: ["orders"],
+            query: orderStreamQuerySchema,
+            parameters: [
+              {
+                name: "Last-Event-ID",
+                in: "header",
+                required: false,
+                description: "Id of the last event received; events after it are replayed first.",
+                schema: { type: "string" }
+              },
+              ...paperParameters
+            ],
+            extraResponses: invalidHeaderResponse
+          });
+          return {
+            ...operation,
+            responses: {
+              ...operation.responses,
+              "200": {
+                description:
+                  "`order` events carry an OrderEvent. `order_error` reports a tracked order SnapTrade rejected, which is no longer polled. `reset` means some missed events cannot be replayed and the client should refetch order state. Quiet streams get `: heartbeat` comments.",
+                content: { "text/event-stream": { schema: { type: "string" } } }
+              }
+            }
+          };
+        })()
+      },
+      "/orders/list": {
+        post: snaptradeOperation({
+          summary: "List an account's orders, filtered and paged (getUserAccountOrders)",
+          tags: ["orders"],
+          body: "OrderListRequest",
+          success: {
+            description: "One page of orders, newest first. Pass `nextCursor` back as `cursor` for the next page.",
+            schema: ref("schemas", "OrderListResponse")
+          },
+          successHeaders: readHeaders,
+          parameters: paperParameters,
+          extraResponses: {
+            "400": errorResponse(
+              "Request failed validation, the cursor or a header is malformed, or SnapTrade rejected it.",
+              "ValidationError",
+              "InvalidCursor",
+              "InvalidHeader",
+              "SnaptradeError"
+            ),
+            ...paperUnsupportedResponse
+          }
+        })
+      },
+      "/orders/cancel": {
+        post: snaptradeOperation({
+          summary: "Cancel one open order (cancelOrder)",
+          tags: ["orders"],
+          body: "OrderCancelRequest",
+          parameters: paperParameters,
+          successHeaders: paperHeaders,
+          extraResponses: invalidHeaderResponse
+        })
+      },
+      "/orders/cancel-all": {
+        post: snaptradeOperation({
+          summary: "Cancel every open order in an account (getUserAccountOrders + cancelOrder)",
+          tags: ["orders"],
+          body: "CancelAllOrdersRequest",
+          parameters: paperParameters,
+          extraResponses: { ...invalidHeaderResponse, ...paperUnsupportedResponse },
+          success: {
+            description: "Per-order outcomes. Failures carry SnapTrade's status and error body for that order.",
+            schema: ref("schemas", "CancelAllOrdersResponse")
+          },
+          successHeaders: readHeaders
+        })
+      },
+      "/accounts/balances": {
+        post: snaptradeOperation({
+          summary: "Account cash balances and buying power (getUserAccountBalance)",
+          tags: ["accounts"],
+          body: "AccountRequest",
+          successHeaders: readHeaders
+        })
+      },
+      "/accounts/positions": {
+        post: snaptradeOperation({
+          summary: "Stock, ETF, crypto and fund positions (getUserAccountPositions)",
+          tags: ["accounts"],
+          body: "AccountRequest",
+          successHeaders: readHeaders
+        })
+      },
+      "/accounts/holdings": {
+        post: snaptradeOperation({
+          summary: "Balances, positions and recent orders in one payload (getUserHoldings)",
+          tags: ["accounts"],
+          body: "AccountRequest",
+          successHeaders: readHeaders
+        })
+      },
+      "/webhooks/snaptrade": {
+        post: {
+          summary: "Receive a SnapTrade webhook and relay it to Java",
+          tags: ["webhooks"],
+          security: [{ snaptradeWebhookSignature: [] }],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref("schemas", "SnaptradeWebhook") } }
+          },
+          responses: {
+            "200": {
+              description: "Verified and accepted. Relaying to COINAGE_WEBHOOK_FORWARD_URL happens in the background.",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: { received: { const: true }, webhookId: { type: "string" } },
+                    required: ["received", "webhookId"]
+                  }
+                }
+              }
+            },
+            "400": errorResponse("Body is not JSON, or failed validation.", "ValidationError", "InvalidJson"),
+            "401": errorResponse("Missing or invalid signature, or `eventTimestamp` outside the tolerance.", "Unauthorized"),
+            "409": errorResponse("A delivery with this `webhookId` was already accepted.", "DuplicateWebhook"),
+            "503": errorResponse("The webhook id store could not be reached; SnapTrade redelivers.", "WebhookUnavailable")
+          }
+        }
+      },
+      "/status/upstream-budget": {
+        get: statusOperation("Last observed SnapTrade partner budget", budgetSnapshotSchema)
+      },
+      "/status/circuit-breakers": {
+        get: statusOperation("SnapTrade circuit breaker states", {
+          type: "object",
+          properties: { breakers: { type: "array", items: breakerSnapshotSchema } },
+          required: ["breakers"]
+        })
+      },
+      "/admin/kill-switch": {
+        get: adminOperation("List active trading halts", undefined, {
+          description: "Every active halt.",
+          schema: { type: "object", properties: { halts: { type: "array", items: ref("schemas", "TradingHalt") } }, required: ["halts"] }
+        })
+      },
+      "/admin/kill-switch/halt": {
+        post: adminOperation("Halt trading globally, for an asset class, or for an account", "KillSwitchHaltRequest", {
+          description: "The halt now in force. Halting an already halted target replaces its reason and note.",
+          schema: ref("schemas", "TradingHalt")
+        })
+      },
+      "/admin/kill-switch/resume": {
+        post: adminOperation("Lift the halt on exactly one target", "KillSwitchResumeRequest", {
+          description: "`resumed` is false when the target was not halted.",
+          schema: { type: "object", properties: { resumed: { type: "boolean" } }, required: ["resumed"] }
+        })
+      }
+    },
+    components: {
+      schemas: {
+        CryptoOrderRequest: withRules(orderSchema, cryptoOrderRules),
+        CryptoReplaceRequest: withRules(cryptoReplaceSchema, cryptoPriceRules),
+        EquityOrderRequest: withRules(equityOrderSchema, equityOrderRules),
+        EquitySymbolSearchRequest: jsonSchema(equitySymbolSearchSchema),
+        OptionOrderRequest: withRules(optionOrderSchema, optionOrderRules),
+        OptionImpactResponse: optionImpactResponseSchema,
+        EquityReplaceRequest: withRules(equityReplaceSchema, equityPriceRules),
+        ReplacedOrderResponse: replacedOrderSchema,
+        EquityTradeRequest: jsonSchema(equityTradeSchema),
+        OrderDetailRequest: jsonSchema(orderDetailSchema),
+        OrderDetailBatchRequest: jsonSchema(orderDetailBatchSchema),
+        OrderDetailBatchResponse: orderDetailBatchResponseSchema,
+        OrderListRequest: jsonSchema(orderListSchema),
+        OrderAwaitRequest: jsonSchema(orderAwaitSchema),
+        OrderAwaitResponse: orderAwaitResponseSchema,
+        OrderEvent: orderEventSchema,
+        OrderListResponse: orderListResponseSchema,
+        OrderCancelRequest: jsonSchema(orderCancelSchema),
+        AccountRequest: jsonSchema(accountRequestSchema),
+        CancelAllOrdersRequest: jsonSchema(cancelAllOrdersSchema),
+        CancelAllOrdersResponse: cancelAllResponseSchema,
+        SnaptradeWebhook: withRules(snaptradeWebhookSchema, webhookRules),
+        KillSwitchHaltRequest: withRules(killSwitchHaltSchema, killSwitchTargetRules),
+        KillSwitchResumeRequest: withRules(killSwitchResumeSchema, killSwitchTargetRules),
+        TradingHalt: tradingHaltSchema,
+        ...Object.fromEntries(Object.entries(errorSchemas).map(([name, schema]) => [name, jsonSchema(schema)]))
+      },
+      parameters: {
+        SignatureTimestamp: {
+          name: TIMESTAMP_HEADER,
+          in: "header",
+          required: false,
+          description: "Epoch milliseconds; required when request signing is enabled.",
+          schema: { type: "string", pattern: "^[0-9]+$" }
+        },
+        SignatureNonce: {
+          name: NONCE_HEADER,
+          in: "header",
+          required: false,
+          description: "Single-use random value; required when request signing is enabled.",
+          schema: { type: "string", minLength: 1 }
+        },
+        IdempotencyKey: {
+          name: IDEMPOTENCY_KEY_HEADER,
+          in: "header",
+          required: false,
+          description: "Repeats with the same key and payload replay the first response instead of placing again.",
+          schema: { type: "string", minLength: 1, maxLength: 255 }
+        },
+        MaxWait: {
+          name: MAX_WAIT_HEADER,
+          in: "header",
+          required: false,
+          description: "Milliseconds the caller will wait for the account's next order slot instead of receiving 429.",
+          schema: { type: "string", pattern: "^[0-9]+$" }
+        },
+        PaperTrading: {
+          name: PAPER_TRADING_HEADER,
+          in: "header",
+          required: false,
+          description:
+            "`true` sends the request to the simulated broker instead of SnapTrade. Ignored (always on) when COINAGE_PAPER_TRADING is set.",
+          schema: { type: "string", enum: ["true", "false"] }
+        }
+      },
+      headers: {
+        SnapTradeRequestId: header("SnapTrade's request id, for support tickets."),
+        RequestId: header("Same value as X-SnapTrade-Request-ID."),
+        RateLimitLimit: header("SnapTrade partner request budget for the current window."),
+        RateLimitRemaining: header("Requests left in SnapTrade's current window."),
+        RateLimitReset: header("When SnapTrade's window resets."),
+        RetryAfter: header("Seconds to wait before retrying."),
+        CircuitOpen: header("Set, to the SnapTrade operation name, when a circuit breaker failed the call fast."),
+        Attempts: header(
+          "Number of SnapTrade attempts this read took. Cached reads report the attempts of the fetch they shared, and omit the header on a cache hit.", { type: "string", pattern: "^[0-9]+$" }),
+        CacheStatus: header("Whether the payload came from cache.", { type: "string", enum: ["HIT", "MISS", "COALESCED"] }),
+        CacheAge: header("Milliseconds since the payload was fetched from SnapTrade.", { type: "string", pattern: "^[0-9]+$" }),
+        IdempotentReplayed: header("`true` when the response is a replay of an earlier request with the same key.", {
+          const: "true"
+        }),
+        PaperTrading: header("`true` when the simulated broker, not SnapTrade, handled the request.", { const: "true" })
+      },
+      securitySchemes: {
+        adminToken: {
+          type: "http",
+          scheme: "bearer",
+          description: "COINAGE_ADMIN_TOKEN. The admin API refuses every request when it is unset."
+        },
+        snaptradeWebhookSignature: {
+          type: "apiKey",
+          in: "header",
+          name: WEBHOOK_SIGNATURE_HEADER,
+          description:
+            "Base64 HMAC-SHA256, keyed with SNAPTRADE_CONSUMER_KEY, of the JSON body serialised with sorted keys and no whitespace."
+        },
+        coinageSignature: {
+          type: "apiKey",
+          in: "header",
+          name: SIGNATURE_HEADER,
+          description: `Hex HMAC-SHA256, keyed with COINAGE_TS_SHARED_SECRET, of \`METHOD\\npath+query\\ntimestamp\\nnonce\\nsha256hex(body)\`, where timestamp and nonce are the ${TIMESTAMP_HEADER} and ${NONCE_HEADER} values. Only enforced when a shared secret is configured.`
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * In-process bus of order status changes, feeding `/orders/stream`.
+ *
+ * Producers (order-detail polling, the SnapTrade webhook receiver) publish
+ * every order snapshot they see; the bus only turns it into an event when the
+ * order's status or filled quantity differs from the last snapshot, so several
+ * producers watching the same order do not produce duplicates.
+ *
+ * Event ids increase monotonically for the life of the process. Each account
+ * keeps its most recent events so a reconnecting subscriber can resume from
+ * `Last-Event-ID`. After a restart, or once the events it missed have been
+ * evicted, `replaySince` reports the gap instead of silently skipping it.
+ */
+export type OrderEventSource = "poll" | "webhook";
+
+export type OrderEvent = {
+  id: number;
+  accountId: string;
+  brokerage_order_id: string;
+  status: string | null;
+  filled_quantity: string | null;
+  previous: { status: string | null; filled_quantity: string | null } | null;
+  source: OrderEventSource;
+  observedAt: string;
+  /** The SnapTrade order record the change was seen in. */
+  order: unknown;
+};
+
+type Snapshot = { status: string | null; filled_quantity: string | null };
+type Listener = (event: OrderEvent) => void;
+
+export class OrderEventBus {
+  private lastId = 0;
+  private readonly snapshots = new Map<string, Snapshot>();
+  private readonly history = new Map<string, OrderEvent[]>();
+  // Highest event id evicted from each account's history.
+  private readonly evictedThrough = new Map<string, number>();
+  private readonly listeners = new Map<string, Set<Listener>>();
+
+  constructor(
+    private readonly historyPerAccount = 100,
+    private readonly maxTrackedOrders = 10_000
+  ) {}
+
+  /**
+   * Records `order` for the account and notifies subscribers when its status
+   * or filled quantity changed. Returns the event, if one was emitted.
+   */
+  publish(accountId: string, order: unknown, source: OrderEventSource): OrderEvent | undefined {
+    const record = (order ?? {}) as { brokerage_order_id?: unknown; status?: unknown; filled_quantity?: unknown };
+    if (typeof record.brokerage_order_id !== "string") {
+      return undefined;
+    }
+    const next: Snapshot = {
+      status: typeof record.status === "string" ? record.status : null,
+      filled_quantity: record.filled_quantity == null ? null : String(record.filled_quantity)
+    };
+    const key = `${accountId}:${record.brokerage_order_id}`;
+    const previous = this.snapshots.get(key);
+    if (previous && previous.status === next.status && previous.filled_quantity === next.filled_quantity) {
+      return undefined;
+    }
+    // Re-insert so Map order tracks recency and the oldest orders evict first.
+    this.snapshots.delete(key);
+    this.snapshots.set(key, next);
+    if (this.snapshots.size > this.maxTrackedOrders) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+
+    const event: OrderEvent = {
+      id: ++this.lastId,
+      accountId,
+      brokerage_order_id: record.brokerage_order_id,
+      ...next,
+      previous: previous ?? null,
+      source,
+      observedAt: new Date().toISOString(),
+      order
+    };
+    const events = this.history.get(accountId) ?? [];
+    events.push(event);
+    if (events.length > this.historyPerAccount) {
+      const [evicted] = events.splice(0, events.length - this.historyPerAccount);
+      this.evictedThrough.set(accountId, Math.max(evicted!.id, this.evictedThrough.get(accountId) ?? 0));
+    }
+    this.history.set(accountId, events);
+
+    for (const listener of this.listeners.get(accountId) ?? []) {
+      listener(event);
+    }
+    return event;
+  }
+
+  subscribe(accountId: string, listener: Listener): () => void {
+    const listeners = this.listeners.get(accountId) ?? new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(accountId, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(accountId);
+      }
+    };
+  }
+
+  /**
+   * Events for the account after `lastEventId`. `complete` is false when some
+   * of them are no longer held, or when the id is from another process.
+   */
+  replaySince(accountId: string, lastEventId: number): { events: OrderEvent[]; complete: boolean } {
+    const events = (this.history.get(accountId) ?? []).filter((event) => event.id > lastEventId);
+    const complete = lastEventId <= this.lastId && lastEventId >= (this.evictedThrough.get(accountId) ?? 0);
+    return { events, complete };
+  }
+
+  /**
+   * Id of the most recent event on any account.
+   */
+  latestId(): number {
+    return this.lastId;
+  }
+
+  reset(): void {
+    this.lastId = 0;
+    this.snapshots.clear();
+    this.history.clear();
+    this.evictedThrough.clear();
+    this.listeners.clear();
+  }
+}
+
+export const orderEvents = new OrderEventBus();
+
+/**
+ * Testing hook to drop recorded snapshots, history and subscribers.
+ */
+export function resetOrderEventsForTests() {
+  orderEvents.reset();
+}
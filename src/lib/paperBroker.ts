@@ -0,0 +1,433 @@
+import { createHash, randomUUID } from "node:crypto";
+import type {
+  AccountInformationApiGetUserAccountOrderDetailRequest,
+  AccountOrderRecord,
+  AccountOrderRecordStatus,
+  AccountOrderRecordUniversalSymbol,
+  CancelOrderResponse,
+  CryptoOrderPreview,
+  ManualTradeAndImpact,
+  OrderUpdatedResponse,
+  TradingApiCancelOrderRequest,
+  TradingApiPlaceCryptoOrderRequest,
+  TradingApiPlaceForceOrderRequest,
+  TradingApiPlaceOrderRequest,
+  TradingApiPreviewCryptoOrderRequest
+} from "snaptrade-typescript-sdk";
+import { env } from "./env";
+
+/**
+ * Simulated broker behind paper trading.
+ *
+ * Implements the SnapTrade trading calls Coinage places orders with, taking
+ * the SDK's request types and returning `{ data, headers }` with the SDK's
+ * response shapes, against an in-memory order book:
+ * - market orders fill when placed, buys at the ask and sells at the bid;
+ * - limit orders rest until the quote crosses the limit price;
+ * - stop orders rest until the quote reaches the stop price (take-profit
+ *   orders until it moves past it the other way), then act as market or limit
+ *   orders;
+ * - IOC and FOK orders that cannot fill when placed are canceled.
+ *
+ * Fills are all or nothing at the touch; there is no depth or partial fill.
+ * Resting orders are checked against a fresh quote whenever their detail is
+ * read, so a caller polling for a fill sees one once the market gets there.
+ * Previews and impacts estimate fees from `COINAGE_PAPER_CRYPTO_FEE_BPS` and
+ * `COINAGE_PAPER_EQUITY_COMMISSION`.
+ */
+export type PaperQuote = {
+  bid: number;
+  ask: number;
+  /** SnapTrade's universal symbol for the instrument, when the quote carries one. */
+  symbol?: Partial<AccountOrderRecordUniversalSymbol>;
+};
+
+/**
+ * Where the simulated broker gets prices. The service reads real SnapTrade
+ * quotes; tests supply fixed ones.
+ */
+export interface PaperQuoteSource {
+  cryptoPair(request: { accountId: string; userId: string; userSecret: string; instrumentSymbol: string }): Promise<PaperQuote>;
+  equity(request: {
+    accountId: string;
+    userId: string;
+    userSecret: string;
+    symbol: string;
+    useTicker: boolean;
+  }): Promise<PaperQuote>;
+}
+
+type PaperResponse<T> = Promise<{ data: T; headers: Record<string, string> }>;
+
+type Side = "BUY" | "SELL";
+
+/** What price movement releases a resting trigger: up through it, or down through it. */
+type Trigger = { price: number; direction: "up" | "down" };
+
+type PaperOrder = {
+  record: AccountOrderRecord;
+  accountId: string;
+  side: Side;
+  quote: () => Promise<PaperQuote>;
+  units?: number;
+  notional?: number;
+  limit?: number;
+  trigger?: Trigger;
+};
+
+/**
+ * Thrown in the shape of an axios error carrying a SnapTrade error body, so
+ * routes report paper failures exactly like SnapTrade ones.
+ */
+export class PaperBrokerError extends Error {
+  readonly response: { status: number; data: { detail: string; status_code: number; code: string }; headers: {} };
+
+  constructor(status: number, code: string, detail: string) {
+    super(detail);
+    this.name = "PaperBrokerError";
+    this.response = { status, data: { detail, status_code: status, code }, headers: {} };
+  }
+}
+
+const OPEN_STATUSES = new Set<AccountOrderRecordStatus>(["ACCEPTED", "TRIGGERED"]);
+// Impacts can be placed with `placeOrder` for as long as SnapTrade allows.
+const TRADE_TTL_MS = 10 * 60_000;
+// Closed orders stay readable for a day, like a brokerage's order history.
+const CLOSED_ORDER_TTL_MS = 86_400_000;
+
+export class PaperBroker {
+  private readonly orders = new Map<string, PaperOrder>();
+  private readonly trades = new Map<string, { request: TradingApiPlaceForceOrderRequest; expiresAt: number }>();
+
+  constructor(private readonly quotes: PaperQuoteSource) {}
+
+  async previewCryptoOrder(request: TradingApiPreviewCryptoOrderRequest): PaperResponse<CryptoOrderPreview> {
+    const price = request.limit_price !== undefined ? Number(request.limit_price) : await this.cryptoPrice(request);
+    const fee = cryptoFee(Number(request.amount), price);
+    return respond({ estimated_fee: { currency: quoteCurrency(request.instrument.symbol), amount: formatNumber(fee) } });
+  }
+
+  async placeCryptoOrder(request: TradingApiPlaceCryptoOrderRequest, now = new Date()): PaperResponse<OrderUpdatedResponse> {
+    const pair = request.instrument.symbol;
+    const quote = () => this.quotes.cryptoPair({ ...request, instrumentSymbol: pair });
+    const type = request.type;
+    const stop = request.stop_price !== undefined ? Number(request.stop_price) : undefined;
+    const order: PaperOrder = {
+      record: {
+        ...openRecord(now, request.side, request.time_in_force, cryptoOrderType(type)),
+        universal_symbol: cryptoSymbol(pair),
+        quote_currency: { code: quoteCurrency(pair) },
+        symbol: pair,
+        total_quantity: formatNumber(Number(request.amount)),
+        open_quantity: formatNumber(Number(request.amount)),
+        limit_price: request.limit_price !== undefined ? Number(request.limit_price) : null,
+        stop_price: stop ?? null
+      },
+      accountId: request.accountId,
+      side: request.side,
+      quote,
+      units: Number(request.amount),
+      limit: request.limit_price !== undefined ? Number(request.limit_price) : undefined,
+      trigger:
+        stop === undefined
+          ? undefined
+          : {
+              price: stop,
+              // Stop losses sell into a falling market; take-profits sell into a rising one.
+              direction: type.startsWith("STOP_LOSS") === (request.side === "BUY") ? "up" : "down"
+            }
+    };
+    await this.open(order, await quote(), now);
+    return respond({ brokerage_order_id: order.record.brokerage_order_id!, order: snapshot(order) });
+  }
+
+  // Takes the force-order form: like SnapTrade, impact accepts a ticker as well
+  // as a universal symbol id.
+  async getOrderImpact(request: TradingApiPlaceForceOrderRequest, now = Date.now()): PaperResponse<ManualTradeAndImpact> {
+    const price =
+      request.price ?? request.stop ?? bestPrice(request.action as Side, await this.equityQuote(request)());
+    const tradeId = randomUUID();
+    for (const [id, trade] of this.trades) {
+      if (trade.expiresAt > now) {
+        break;
+      }
+      this.trades.delete(id);
+    }
+    this.trades.set(tradeId, { request, expiresAt: now + TRADE_TTL_MS });
+    const commission = env.COINAGE_PAPER_EQUITY_COMMISSION;
+    return respond({
+      trade: {
+        id: tradeId,
+        account: request.account_id,
+        order_type: request.order_type,
+        time_in_force: request.time_in_force,
+        symbol: {
+          universal_symbol_id: request.universal_symbol_id ?? equitySymbolId(request.symbol!),
+          symbol: request.symbol ?? undefined,
+          currency: { code: "USD" }
+        },
+        action: request.action as Side,
+        units: request.units ?? null,
+        price
+      },
+      trade_impacts: [
+        {
+          account: request.account_id,
+          currency: "USD",
+          remaining_cash: null,
+          estimated_commission: commission,
+          forex_fees: 0
+        }
+      ],
+      combined_remaining_balance: { account: { id: request.account_id }, currency: { code: "USD" }, cash: null }
+    });
+  }
+
+  async placeForceOrder(request: TradingApiPlaceForceOrderRequest, now = new Date()): PaperResponse<AccountOrderRecord> {
+    const side = request.action as Side;
+    const quote = this.equityQuote(request);
+    const current = await quote();
+    const orderType = request.order_type;
+    const units = request.units ?? undefined;
+    const price = request.price ?? undefined;
+    const stop = request.stop ?? undefined;
+    const order: PaperOrder = {
+      record: {
+        ...openRecord(now, side, request.time_in_force, orderType),
+        universal_symbol: equitySymbol(request, current),
+        quote_currency: { code: "USD" },
+        symbol: request.symbol ?? request.universal_symbol_id ?? undefined,
+        total_quantity: units !== undefined ? formatNumber(units) : null,
+        open_quantity: units !== undefined ? formatNumber(units) : null,
+        limit_price: price ?? null,
+        stop_price: stop ?? null
+      },
+      accountId: request.account_id,
+      side,
+      quote,
+      units,
+      notional: request.notional_value !== undefined && request.notional_value !== null ? Number(request.notional_value) : undefined,
+      limit: orderType === "Limit" || orderType === "StopLimit" ? price : undefined,
+      trigger: stop === undefined ? undefined : { price: stop, direction: side === "BUY" ? "up" : "down" }
+    };
+    await this.open(order, current, now);
+    return respond(snapshot(order));
+  }
+
+  async placeOrder(request: TradingApiPlaceOrderRequest, now = new Date()): PaperResponse<AccountOrderRecord> {
+    const trade = this.trades.get(request.tradeId);
+    if (!trade || trade.expiresAt <= now.getTime()) {
+      throw new PaperBrokerError(404, "TRADE_NOT_FOUND", "Trade not found or expired; check the order impact again.");
+    }
+    this.trades.delete(request.tradeId);
+    return this.placeForceOrder({ ...trade.request, userId: request.userId, userSecret: request.userSecret }, now);
+  }
+
+  async cancelOrder(request: TradingApiCancelOrderRequest, now = new Date()): PaperResponse<CancelOrderResponse> {
+    const order = this.find(request);
+    if (!OPEN_STATUSES.has(order.record.status!)) {
+      throw new PaperBrokerError(400, "ORDER_NOT_CANCELLABLE", `Order is ${order.record.status} and can no longer be canceled.`);
+    }
+    close(order, "CANCELED", now);
+    return respond({ brokerage_order_id: request.brokerage_order_id, raw_response: null });
+  }
+
+  /**
+   * Order detail from the paper book. An open order is checked against a
+   * fresh quote first; when no quote can be had it is returned as it stands.
+   */
+  async getUserAccountOrderDetail(
+    request: AccountInformationApiGetUserAccountOrderDetailRequest,
+    now = new Date()
+  ): PaperResponse<AccountOrderRecord> {
+    const order = this.find(request);
+    if (OPEN_STATUSES.has(order.record.status!)) {
+      try {
+        settle(order, await order.quote(), now);
+      } catch {
+        // No usable quote right now; the order stays as it was.
+      }
+    }
+    return respond(snapshot(order));
+  }
+
+  private async open(order: PaperOrder, quote: PaperQuote, now: Date) {
+    this.prune(now.getTime());
+    const tif = order.record.time_in_force;
+    if (!settle(order, quote, now) && (tif === "IOC" || tif === "FOK")) {
+      close(order, "CANCELED", now);
+    }
+    this.orders.set(order.record.brokerage_order_id!, order);
+  }
+
+  private find(request: { accountId: string; brokerage_order_id: string }): PaperOrder {
+    const order = this.orders.get(request.brokerage_order_id);
+    if (!order || order.accountId !== request.accountId) {
+      throw new PaperBrokerError(404, "ORDER_NOT_FOUND", "Order not found.");
+    }
+    return order;
+  }
+
+  private prune(now: number) {
+    for (const [id, order] of this.orders) {
+      const closedAt = OPEN_STATUSES.has(order.record.status!) ? undefined : Date.parse(order.record.time_updated!);
+      if (closedAt !== undefined && now - closedAt > CLOSED_ORDER_TTL_MS) {
+        this.orders.delete(id);
+      }
+    }
+  }
+
+  private async cryptoPrice(request: TradingApiPreviewCryptoOrderRequest) {
+    const quote = await this.quotes.cryptoPair({ ...request, instrumentSymbol: request.instrument.symbol });
+    return bestPrice(request.side, quote);
+  }
+
+  private equityQuote(request: TradingApiPlaceForceOrderRequest) {
+    return () =>
+      this.quotes.equity({
+        accountId: request.account_id,
+        userId: request.userId,
+        userSecret: request.userSecret,
+        symbol: request.symbol ?? request.universal_symbol_id!,
+        useTicker: !request.universal_symbol_id
+      });
+  }
+}
+
+/**
+ * Fills the order if the quote allows it. Returns whether it filled.
+ */
+function settle(order: PaperOrder, quote: PaperQuote, now: Date): boolean {
+  const price = bestPrice(order.side, quote);
+  if (order.trigger && order.record.status !== "TRIGGERED") {
+    const reached = order.trigger.direction === "up" ? price >= order.trigger.price : price <= order.trigger.price;
+    if (!reached) {
+      return false;
+    }
+    order.record.status = "TRIGGERED";
+    order.record.time_updated = now.toISOString();
+  }
+  if (order.limit !== undefined && (order.side === "BUY" ? price > order.limit : price < order.limit)) {
+    return false;
+  }
+
+  const units = order.units ?? order.notional! / price;
+  const quantity = formatNumber(units);
+  order.record = {
+    ...order.record,
+    total_quantity: quantity,
+    filled_quantity: quantity,
+    open_quantity: "0",
+    execution_price: price,
+    status: "EXECUTED",
+    time_updated: now.toISOString(),
+    time_executed: now.toISOString()
+  };
+  return true;
+}
+
+function close(order: PaperOrder, status: AccountOrderRecordStatus, now: Date) {
+  order.record = {
+    ...order.record,
+    status,
+    canceled_quantity: order.record.open_quantity ?? order.record.total_quantity,
+    open_quantity: "0",
+    time_updated: now.toISOString()
+  };
+}
+
+function openRecord(now: Date, action: string, timeInForce: string, orderType: string): AccountOrderRecord {
+  return {
+    brokerage_order_id: randomUUID(),
+    status: "ACCEPTED",
+    action,
+    order_type: orderType,
+    time_in_force: timeInForce,
+    filled_quantity: "0",
+    canceled_quantity: "0",
+    execution_price: null,
+    time_placed: now.toISOString(),
+    time_updated: now.toISOString(),
+    time_executed: null,
+    expiry_date: null,
+    child_brokerage_order_ids: null
+  };
+}
+
+// Hands out a copy so callers (and the JSON they are sent as) never alias the book.
+function snapshot(order: PaperOrder): AccountOrderRecord {
+  return structuredClone(order.record);
+}
+
+// The SDK's `{ data, headers }`; there is no upstream request id or rate limit to relay.
+function respond<T>(data: T) {
+  return { data, headers: {} as Record<string, string> };
+}
+
+function bestPrice(side: Side, quote: PaperQuote): number {
+  const price = side === "BUY" ? quote.ask : quote.bid;
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new PaperBrokerError(422, "QUOTE_UNAVAILABLE", "No usable quote to price the order.");
+  }
+  return price;
+}
+
+function cryptoFee(units: number, price: number) {
+  return (units * price * env.COINAGE_PAPER_CRYPTO_FEE_BPS) / 10_000;
+}
+
+function cryptoOrderType(type: string) {
+  const types: Record<string, string> = {
+    MARKET: "Market",
+    LIMIT: "Limit",
+    STOP_LOSS_MARKET: "Stop",
+    STOP_LOSS_LIMIT: "StopLimit",
+    TAKE_PROFIT_MARKET: "TakeProfit",
+    TAKE_PROFIT_LIMIT: "TakeProfitLimit"
+  };
+  return types[type] ?? type;
+}
+
+function quoteCurrency(pair: string) {
+  return pair.split(/[-/]/)[1]?.toUpperCase() ?? "USD";
+}
+
+function cryptoSymbol(pair: string): AccountOrderRecordUniversalSymbol {
+  const base = pair.split(/[-/]/)[0]!.toUpperCase();
+  return {
+    id: stableId(`crypto:${pair}`),
+    symbol: base,
+    raw_symbol: base,
+    description: null,
+    currency: { code: quoteCurrency(pair) },
+    type: { code: "crypto", description: "Cryptocurrency" },
+    currencies: [{ code: quoteCurrency(pair) }]
+  };
+}
+
+function equitySymbol(request: TradingApiPlaceForceOrderRequest, quote: PaperQuote): AccountOrderRecordUniversalSymbol {
+  const ticker = quote.symbol?.symbol ?? request.symbol ?? request.universal_symbol_id!;
+  return {
+    id: request.universal_symbol_id ?? quote.symbol?.id ?? equitySymbolId(ticker),
+    symbol: ticker,
+    raw_symbol: quote.symbol?.raw_symbol ?? ticker,
+    description: quote.symbol?.description ?? null,
+    currency: quote.symbol?.currency ?? { code: "USD" },
+    type: quote.symbol?.type ?? { code: "cs", description: "Common Stock" },
+    currencies: quote.symbol?.currencies ?? [{ code: "USD" }]
+  };
+}
+
+function equitySymbolId(ticker: string) {
+  return stableId(`equity:${ticker.toUpperCase()}`);
+}
+
+// UUID-shaped id derived from the name, so one instrument keeps one id.
+function stableId(name: string) {
+  const hex = createHash("sha256").update(name).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(8)).toString();
+}
@@ -0,0 +1,135 @@
+import type { Context, MiddlewareHandler } from "hono";
+import type { Snaptrade } from "snaptrade-typescript-sdk";
+import { env } from "./env";
+import { snaptrade } from "./snaptrade";
+import { withCircuitBreaker } from "./circuitBreaker";
+import { withReadRetries } from "./retry";
+import { PaperBroker, type PaperQuoteSource } from "./paperBroker";
+import { unwrapSnaptradeResponse } from "../utils/snaptrade";
+import { logWarn } from "../utils/logging";
+
+/**
+ * Paper-trading mode.
+ *
+ * With `COINAGE_PAPER_TRADING=true` every order goes to the simulated broker;
+ * otherwise a request opts in with `X-Coinage-Paper-Trading: true`. The header
+ * cannot opt out of the env setting, so a paper deployment never reaches a
+ * brokerage because a caller forgot it. Prices still come from SnapTrade, so
+ * paper mode needs working SnapTrade credentials and connected accounts.
+ */
+export const PAPER_TRADING_HEADER = "X-Coinage-Paper-Trading";
+
+type TradingApi = Snaptrade["trading"];
+type TradingCall<K extends keyof TradingApi> = (
+  request: Parameters<TradingApi[K]>[0]
+) => Promise<{ data: Awaited<ReturnType<TradingApi[K]>>["data"] }>;
+
+/**
+ * The SnapTrade trading calls the simulated broker stands in for.
+ */
+export type TradingClient = {
+  previewCryptoOrder: TradingCall<"previewCryptoOrder">;
+  placeCryptoOrder: TradingCall<"placeCryptoOrder">;
+  getOrderImpact: TradingCall<"getOrderImpact">;
+  placeForceOrder: TradingCall<"placeForceOrder">;
+  placeOrder: TradingCall<"placeOrder">;
+  cancelOrder: TradingCall<"cancelOrder">;
+};
+
+// Live quotes for the simulator. Equity quotes fall back to the last trade
+// when the book is empty (outside market hours).
+const snaptradeQuotes: PaperQuoteSource = {
+  async cryptoPair(request) {
+    const result = await withReadRetries("getCryptocurrencyPairQuote", () =>
+      snaptrade.trading.getCryptocurrencyPairQuote({
+        accountId: request.accountId,
+        userId: request.userId,
+        userSecret: request.userSecret,
+        instrumentSymbol: request.instrumentSymbol
+      })
+    );
+    const quote = unwrapSnaptradeResponse(result).data as { bid?: unknown; ask?: unknown } | null;
+    return { bid: Number(quote?.bid), ask: Number(quote?.ask) };
+  },
+  async equity(request) {
+    const result = await withReadRetries("getUserAccountQuotes", () =>
+      snaptrade.trading.getUserAccountQuotes({
+        accountId: request.accountId,
+        userId: request.userId,
+        userSecret: request.userSecret,
+        symbols: request.symbol,
+        useTicker: request.useTicker
+      })
+    );
+    const [quote] = (unwrapSnaptradeResponse(result).data as any[] | null) ?? [];
+    const last = Number(quote?.last_trade_price);
+    return {
+      bid: Number(quote?.bid_price) || last,
+      ask: Number(quote?.ask_price) || last,
+      symbol: quote?.symbol ?? undefined
+    };
+  }
+};
+
+let broker = new PaperBroker(snaptradeQuotes);
+
+export function getPaperBroker(): PaperBroker {
+  return broker;
+}
+
+/**
+ * Whether this request trades on paper.
+ */
+export function isPaperTrading(c: Context): boolean {
+  return env.COINAGE_PAPER_TRADING || c.req.header(PAPER_TRADING_HEADER)?.trim().toLowerCase() === "true";
+}
+
+/**
+ * Middleware for routes that place or track orders. A malformed header is a
+ * 400 rather than a silent live order. `simulated` routes tag paper responses
+ * with the header; the rest refuse paper requests with a 501 so nothing the
+ * simulator cannot model reaches a real account.
+ */
+export function paperTradingMode(simulated: boolean): MiddlewareHandler {
+  return async (c, next) => {
+    const header = c.req.header(PAPER_TRADING_HEADER)?.trim().toLowerCase();
+    if (header !== undefined && header !== "true" && header !== "false") {
+      return c.json({ error: "invalid_header", message: `${PAPER_TRADING_HEADER} must be true or false.` }, 400);
+    }
+    if (!isPaperTrading(c)) {
+      return next();
+    }
+    if (!simulated) {
+      logWarn("paper_trading.unsupported", { route: c.req.path });
+      return c.json(
+        { error: "paper_trading_unsupported", message: `${c.req.path} is not available in paper-trading mode.` },
+        501
+      );
+    }
+    c.header(PAPER_TRADING_HEADER, "true");
+    return next();
+  };
+}
+
+/**
+ * Runs a trading call against the simulated broker for paper requests, or
+ * against SnapTrade through the operation's circuit breaker.
+ */
+export function tradingCall<T>(
+  c: Context,
+  operation: keyof TradingClient,
+  call: (client: TradingClient) => Promise<T>
+): Promise<T> {
+  if (isPaperTrading(c)) {
+    return call(broker);
+  }
+  return withCircuitBreaker(operation, () => call(snaptrade.trading));
+}
+
+/**
+ * Testing hook: a fresh, empty paper book priced by `quotes` (live SnapTrade
+ * quotes when omitted).
+ */
+export function resetPaperTradingForTests(quotes: PaperQuoteSource = snaptradeQuotes) {
+  broker = new PaperBroker(quotes);
+}
@@ -1,40 +1,289 @@
+import { RedisClient } from "bun";
+import { env } from "./env";
+
 /**
  * Minimal per-key token bucket used to honour SnapTrade's recommendation of
  * throttling crypto order placement to one request per second per account.
+ *
+ * The bookkeeping lives behind a `RateLimiterStore` so several Fly machines
+ * can share one budget: the in-memory store is the single-process default and
+ * the Redis store coordinates across replicas.
  */
-type AcquireResult =
-  | { allowed: true }
-  | { allowed: false; retryAfterMs: number };
-
-export class PerKeyRateLimiter {
-  private readonly lastExecution = new Map<string, number>();
-
-  constructor(private readonly minIntervalMs: number) {}
+export type AcquireResult =
+  | { allowed: true; waitedMs?: number }
+  | { allowed: false; retryAfterMs: number; reason?: "queue_full" }
+  | { allowed: false; retryAfterMs: number; reason: "store_unavailable"; message: string };
 
+/**
+ * Storage contract for limiter state. `acquire` must be atomic per key: two
+ * callers racing for the same slot may not both be allowed.
+ */
+export interface RateLimiterStore {
+  acquire(key: string, minIntervalMs: number, now: number): Promise<AcquireResult>;
   /**
-   * Attempts to acquire a token for the supplied key. Callers exceeding the
-   * configured rate receive a retry-after hint in milliseconds.
+   * Drops every key under the namespace. Only the in-memory store needs this
+   * (for deterministic tests); shared stores expire keys on their own.
    */
-  tryAcquire(key: string): AcquireResult {
-    const now = Date.now();
+  clear?(namespace: string): void;
+}
+
+/**
+ * Process-local store. Keys are evicted once their interval has elapsed so the
+ * map only holds accounts that traded within the last interval.
+ */
+export class MemoryRateLimiterStore implements RateLimiterStore {
+  private readonly lastExecution = new Map<string, { at: number; expiresAt: number }>();
+
+  async acquire(key: string, minIntervalMs: number, now: number): Promise<AcquireResult> {
+    this.evictExpired(now);
     const last = this.lastExecution.get(key);
 
-    if (last === undefined || now - last >= this.minIntervalMs) {
-      this.lastExecution.set(key, now);
+    if (last === undefined || now - last.at >= minIntervalMs) {
+      // Delete before set so the entry moves to the back of the insertion order,
+      // which keeps `evictExpired` able to stop at the first live entry.
+      this.lastExecution.delete(key);
+      this.lastExecution.set(key, { at: now, expiresAt: now + minIntervalMs });
       return { allowed: true };
     }
 
     // Calculate how long the caller should wait before retrying.
     return {
       allowed: false,
-      retryAfterMs: this.minIntervalMs - (now - last)
+      retryAfterMs: minIntervalMs - (now - last.at)
     };
   }
 
+  clear(namespace: string): void {
+    for (const key of this.lastExecution.keys()) {
+      if (key.startsWith(`${namespace}:`)) {
+        this.lastExecution.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Number of tracked keys. Exposed so tests can assert eviction.
+   */
+  get size(): number {
+    return this.lastExecution.size;
+  }
+
+  private evictExpired(now: number) {
+    for (const [key, entry] of this.lastExecution) {
+      if (entry.expiresAt > now) {
+        // Limiters with different intervals share the map, so ordering is only
+        // approximate; a later sweep will catch anything skipped here.
+        break;
+      }
+      this.lastExecution.delete(key);
+    }
+  }
+}
+
+/**
+ * The subset of a Redis client the limiter relies on. Bun's `RedisClient`
+ * satisfies it, and tests can pass a small in-process stand-in.
+ */
+export type RedisCommandClient = {
+  send(command: string, args: string[]): Promise<unknown>;
+};
+
+/**
+ * Redis-backed store shared by every replica. A slot is claimed with
+ * `SET key value PX interval NX`, which is atomic and lets Redis expire the key
+ * once the interval passes—so there is nothing to evict by hand. When the claim
+ * fails, the key's remaining `PTTL` is exactly the caller's retry-after.
+ */
+export class RedisRateLimiterStore implements RateLimiterStore {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly keyPrefix = "coinage:ratelimit:"
+  ) {}
+
+  async acquire(key: string, minIntervalMs: number, now: number): Promise<AcquireResult> {
+    const redisKey = `${this.keyPrefix}${key}`;
+    const claimed = await this.client.send("SET", [redisKey, String(now), "PX", String(minIntervalMs), "NX"]);
+    if (claimed === "OK") {
+      return { allowed: true };
+    }
+
+    const ttl = Number(await this.client.send("PTTL", [redisKey]));
+    // PTTL returns -2 if the key expired between the two commands; treat that as
+    // "try again immediately" rather than granting the slot without a claim.
+    return {
+      allowed: false,
+      retryAfterMs: ttl > 0 ? ttl : 1
+    };
+  }
+}
+
+let defaultStore: RateLimiterStore | undefined;
+
+/**
+ * Lazily resolves the store named by `COINAGE_RATE_LIMIT_STORE` so importing a
+ * route module never opens a Redis connection on its own.
+ */
+function getDefaultStore(): RateLimiterStore {
+  if (!defaultStore) {
+    defaultStore =
+      env.COINAGE_RATE_LIMIT_STORE === "redis"
+        ? new RedisRateLimiterStore(new RedisClient(env.COINAGE_REDIS_URL))
+        : new MemoryRateLimiterStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Header callers use to opt into queue-and-wait instead of an immediate 429.
+ */
+export const MAX_WAIT_HEADER = "X-Coinage-Max-Wait-Ms";
+
+/**
+ * Parses `X-Coinage-Max-Wait-Ms`, clamping to the configured ceiling. Returns
+ * `0` when the header is absent and `undefined` when it is malformed.
+ */
+export function resolveMaxWaitMs(raw: string | undefined): number | undefined {
+  if (raw === undefined || raw.trim() === "") {
+    return 0;
+  }
+  if (!/^[0-9]+$/.test(raw.trim())) {
+    return undefined;
+  }
+  return Math.min(Number(raw.trim()), env.COINAGE_ORDER_MAX_WAIT_MS);
+}
+
+export class PerKeyRateLimiter {
+  // Tail of each key's FIFO wait queue plus its current depth. Both are
+  // process-local: with a shared store, ordering is FIFO per machine while the
+  // store still guarantees the interval across machines.
+  private readonly queueTails = new Map<string, Promise<unknown>>();
+  private readonly queueDepths = new Map<string, number>();
+
+  /**
+   * `namespace` keeps keys from different limiters apart when they share a
+   * store (e.g. crypto and equity placement both keyed by account id).
+   */
+  constructor(
+    private readonly minIntervalMs: number,
+    private readonly namespace = "default",
+    private readonly store?: RateLimiterStore,
+    private readonly maxQueueDepth = env.COINAGE_ORDER_QUEUE_MAX_DEPTH
+  ) {}
+
+  /**
+   * Like `tryAcquire`, but when the caller is willing to wait up to
+   * `maxWaitMs` the request joins a bounded FIFO queue for its key and is
+   * admitted as soon as a slot opens. Requests that cannot be admitted before
+   * their budget runs out (or that find the queue full) are refused with the
+   * same retry-after hint `tryAcquire` would give.
+   */
+  async acquire(key: string, maxWaitMs: number): Promise<AcquireResult> {
+    const depth = this.queueDepths.get(key) ?? 0;
+    if (maxWaitMs <= 0) {
+      // Callers that will not wait must not jump ahead of those already queued.
+      return depth > 0 ? { allowed: false, retryAfterMs: this.minIntervalMs * depth } : this.claim(key);
+    }
+    if (depth >= this.maxQueueDepth) {
+      return { allowed: false, retryAfterMs: this.minIntervalMs * (depth + 1), reason: "queue_full" };
+    }
+
+    const startedAt = Date.now();
+    const deadline = startedAt + maxWaitMs;
+    const predecessor = this.queueTails.get(key) ?? Promise.resolve();
+    let finishTurn!: () => void;
+    const turn = new Promise<void>((resolve) => {
+      finishTurn = resolve;
+    });
+    // Successors wait for both us and everyone ahead of us, so leaving the queue
+    // early never lets a later request overtake an earlier one.
+    const tail = Promise.all([predecessor, turn]);
+    this.queueTails.set(key, tail);
+    this.queueDepths.set(key, depth + 1);
+
+    try {
+      const reachedFront = await settlesWithin(predecessor, maxWaitMs);
+      if (!reachedFront) {
+        return { allowed: false, retryAfterMs: this.minIntervalMs };
+      }
+
+      for (;;) {
+        const result = await this.claim(key);
+        if (result.allowed) {
+          return { allowed: true, waitedMs: Date.now() - startedAt };
+        }
+        if (result.reason === "store_unavailable" || Date.now() + result.retryAfterMs > deadline) {
+          return result;
+        }
+        await Bun.sleep(result.retryAfterMs);
+      }
+    } finally {
+      finishTurn();
+      const remaining = (this.queueDepths.get(key) ?? 1) - 1;
+      if (remaining === 0) {
+        this.queueDepths.delete(key);
+      } else {
+        this.queueDepths.set(key, remaining);
+      }
+      if (this.queueTails.get(key) === tail) {
+        this.queueTails.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Attempts to acquire a token for the supplied key. Callers exceeding the
+   * configured rate receive a retry-after hint in milliseconds.
+   */
+  tryAcquire(key: string): Promise<AcquireResult> {
+    return this.activeStore().acquire(`${this.namespace}:${key}`, this.minIntervalMs, Date.now());
+  }
+
+  /**
+   * `tryAcquire` for `acquire`: a store that cannot be reached (Redis down)
+   * refuses the slot with `store_unavailable` instead of throwing, so routes
+   * can answer with an explicit 503 rather than place unthrottled orders.
+   */
+  private async claim(key: string): Promise<AcquireResult> {
+    try {
+      return await this.tryAcquire(key);
+    } catch (error) {
+      return {
+        allowed: false,
+        retryAfterMs: this.minIntervalMs,
+        reason: "store_unavailable",
+        message: (error as Error)?.message ?? String(error)
+      };
+    }
+  }
+
   /**
    * Clears internal state. Exposed for deterministic tests; not used in prod.
    */
   reset(): void {
-    this.lastExecution.clear();
+    this.activeStore().clear?.(this.namespace);
+  }
+
+  private activeStore(): RateLimiterStore {
+    return this.store ?? getDefaultStore();
   }
 }
+
+/**
+ * Resolves `true` if `promise` settles within `ms`, `false` otherwise. The
+ * timer is cleared either way so abandoned waits don't keep the loop busy.
+ */
+function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), ms);
+    promise.then(
+      () => {
+        clearTimeout(timer);
+        resolve(true);
+      },
+      () => {
+        clearTimeout(timer);
+        resolve(true);
+      }
+    );
+  });
+}
@@ -0,0 +1,175 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { MiddlewareHandler } from "hono";
+import { env } from "./env";
+import { logWarn } from "../utils/logging";
+
+/**
+ * HMAC request signing between the Java backend and this service.
+ *
+ * The caller signs a canonical string built from:
+ *
+ *   METHOD \n PATH(+QUERY) \n TIMESTAMP \n NONCE \n SHA256_HEX(BODY)
+ *
+ * with HMAC-SHA256 keyed by the shared secret and sends the hex digest in
+ * `X-Coinage-Signature`, alongside `X-Coinage-Timestamp` (unix epoch millis)
+ * and `X-Coinage-Nonce` (any unique string, a UUID is fine).
+ *
+ * The query string is part of the signed path because the GET routes carry
+ * `userSecret` there; without it a captured request could be replayed against
+ * a different account.
+ */
+export const SIGNATURE_HEADER = "X-Coinage-Signature";
+export const TIMESTAMP_HEADER = "X-Coinage-Timestamp";
+export const NONCE_HEADER = "X-Coinage-Nonce";
+
+export type SignatureInput = {
+  method: string;
+  path: string;
+  timestamp: string;
+  nonce: string;
+  body: string;
+};
+
+/**
+ * Produces the hex HMAC for a request. Exported so tests (and any TS callers)
+ * sign exactly the way the middleware verifies.
+ */
+export function signRequest(input: SignatureInput, secret: string): string {
+  return createHmac("sha256", secret).update(canonicalString(input)).digest("hex");
+}
+
+function canonicalString(input: SignatureInput): string {
+  const bodyHash = createHash("sha256").update(input.body).digest("hex");
+  return [input.method.toUpperCase(), input.path, input.timestamp, input.nonce, bodyHash].join("\n");
+}
+
+/**
+ * Remembers nonces for the length of the timestamp tolerance window. Anything
+ * older than that is already rejected as stale, so entries can be dropped once
+ * they expire and the map stays bounded by request volume per window.
+ */
+export class NonceCache {
+  private readonly expiries = new Map<string, number>();
+
+  /**
+   * Records the nonce and returns `true` when it had not been seen yet.
+   */
+  remember(nonce: string, ttlMs: number, now = Date.now()): boolean {
+    this.prune(now);
+    const expiresAt = this.expiries.get(nonce);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    this.expiries.set(nonce, now + ttlMs);
+    return true;
+  }
+
+  clear(): void {
+    this.expiries.clear();
+  }
+
+  private prune(now: number) {
+    // Map preserves insertion order and every entry shares the same TTL, so the
+    // oldest entries are always at the front.
+    for (const [nonce, expiresAt] of this.expiries) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.expiries.delete(nonce);
+    }
+  }
+}
+
+const nonceCache = new NonceCache();
+
+type VerificationFailure =
+  | "missing_signature_headers"
+  | "invalid_timestamp"
+  | "stale_timestamp"
+  | "invalid_signature"
+  | "replayed_nonce";
+
+/**
+ * Hono middleware that enforces signed requests for a route group. When no
+ * secret is configured the guard is a no-op so local development keeps
+ * working without Java in the loop.
+ *
+ * `authErrorEvent` keeps the per-feature log event names the dashboards
+ * already search for (e.g. `snaptrade.crypto.auth.error`).
+ */
+export function requireSignedRequest(authErrorEvent: string): MiddlewareHandler {
+  return async (c, next) => {
+    const secrets = configuredSecrets();
+    if (secrets.length === 0) {
+      return next();
+    }
+
+    const signature = c.req.header(SIGNATURE_HEADER);
+    const timestamp = c.req.header(TIMESTAMP_HEADER);
+    const nonce = c.req.header(NONCE_HEADER);
+    const url = new URL(c.req.url);
+    const path = `${url.pathname}${url.search}`;
+
+    const reject = (reason: VerificationFailure) => {
+      logWarn(authErrorEvent, { route: c.req.path, reason });
+      return c.json(
+        {
+          error: "unauthorized",
+          message: "Missing or invalid request signature."
+        },
+        401
+      );
+    };
+
+    if (!signature || !timestamp || !nonce) {
+      return reject("missing_signature_headers");
+    }
+
+    const timestampMs = Number(timestamp);
+    if (!Number.isFinite(timestampMs)) {
+      return reject("invalid_timestamp");
+    }
+    const toleranceMs = env.COINAGE_TS_SIGNATURE_TOLERANCE_MS;
+    if (Math.abs(Date.now() - timestampMs) > toleranceMs) {
+      return reject("stale_timestamp");
+    }
+
+    // Hono caches the body text, so route handlers can still call `c.req.json()`.
+    const body = await c.req.text();
+    const input: SignatureInput = { method: c.req.method, path, timestamp, nonce, body };
+    const matched = secrets.some((secret) => signaturesMatch(signRequest(input, secret), signature));
+    if (!matched) {
+      return reject("invalid_signature");
+    }
+
+    // Only burn the nonce after the signature checks out; otherwise anyone could
+    // pre-poison nonces the Java service is about to use.
+    if (!nonceCache.remember(nonce, toleranceMs * 2)) {
+      return reject("replayed_nonce");
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Primary first, secondary second. Both are accepted during a rotation.
+ */
+function configuredSecrets(): string[] {
+  return [env.COINAGE_TS_SHARED_SECRET, env.COINAGE_TS_SHARED_SECRET_SECONDARY].filter(
+    (secret): secret is string => typeof secret === "string" && secret.length > 0
+  );
+}
+
+function signaturesMatch(expectedHex: string, providedHex: string): boolean {
+  const expected = Buffer.from(expectedHex, "hex");
+  const provided = Buffer.from(providedHex.trim().toLowerCase(), "hex");
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Testing hook so specs can reuse nonces across cases.
+ */
+export function resetNonceCacheForTests() {
+  nonceCache.clear();
+}
@@ -0,0 +1,124 @@
+import { env } from "./env";
+import { CircuitOpenError, upstreamStatus, withCircuitBreaker, type SnaptradeOperation } from "./circuitBreaker";
+import { logInfo, logWarn } from "../utils/logging";
+import { readHeaderValue } from "../utils/snaptrade";
+
+/**
+ * Bounded retries with exponential backoff and full jitter for SnapTrade reads.
+ *
+ * Only read-only operations are accepted (enforced by the `ReadOperation`
+ * type): retrying an order placement after an ambiguous failure could place
+ * the order twice, so those calls stay single-shot and rely on
+ * `Idempotency-Key` at our edge instead.
+ */
+export type ReadOperation = Extract<
+  SnaptradeOperation,
+  | "searchCryptocurrencyPairInstruments"
+  | "getCryptocurrencyPairQuote"
+  | "getUserAccountOrderDetail"
+  | "getUserAccountOrders"
+  | "getUserAccountBalance"
+  | "getUserAccountPositions"
+  | "getUserHoldings"
+  | "symbolSearchUserAccount"
+  | "getUserAccountQuotes"
+  | "getOptionsChain"
+>;
+
+/**
+ * Response header reporting how many SnapTrade attempts the request took.
+ */
+export const ATTEMPTS_HEADER = "X-Coinage-Attempts";
+
+/**
+ * Runs `fn` through the operation's circuit breaker, retrying network errors,
+ * 5xx and 429 responses. `onAttempt` fires before each attempt so routes can
+ * keep `X-Coinage-Attempts` current even when the final attempt fails.
+ */
+export async function withReadRetries<T>(
+  operation: ReadOperation,
+  fn: () => Promise<T>,
+  onAttempt?: (attempt: number) => void
+): Promise<T> {
+  const maxAttempts = env.COINAGE_READ_RETRY_MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      const result = await withCircuitBreaker(operation, fn);
+      if (attempt > 1) {
+        logInfo("snaptrade.retry.succeeded", { operation, attempt, requestId: requestIdOf(result) ?? null });
+      }
+      return result;
+    } catch (error) {
+      const delayMs = attempt < maxAttempts ? retryDelayMs(error, attempt) : undefined;
+      logWarn("snaptrade.retry.attempt_failed", {
+        operation,
+        attempt,
+        status: upstreamStatus(error) ?? null,
+        requestId: requestIdOf(error) ?? null,
+        message: (error as Error)?.message,
+        nextDelayMs: delayMs ?? null
+      });
+      if (delayMs === undefined) {
+        throw error;
+      }
+      await Bun.sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Returns how long to wait before the next attempt, or `undefined` when the
+ * error should not be retried.
+ */
+function retryDelayMs(error: unknown, attempt: number): number | undefined {
+  if (error instanceof CircuitOpenError) {
+    return undefined;
+  }
+  const status = upstreamStatus(error);
+  const retryable = status === undefined || status === 429 || status >= 500;
+  if (!retryable) {
+    return undefined;
+  }
+
+  const maxDelayMs = env.COINAGE_READ_RETRY_MAX_DELAY_MS;
+  if (status === 429) {
+    const retryAfterMs = parseRetryAfter(readHeaderValue(headersOf(error), "retry-after"));
+    if (retryAfterMs !== undefined) {
+      // Waiting longer than our cap would hold the caller past its own timeout;
+      // hand SnapTrade's 429 (and Retry-After) back instead.
+      return retryAfterMs <= maxDelayMs ? retryAfterMs : undefined;
+    }
+  }
+
+  const ceiling = Math.min(maxDelayMs, env.COINAGE_READ_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * `Retry-After` is either delta-seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function headersOf(value: unknown): unknown {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const v = value as { headers?: unknown; response?: { headers?: unknown } };
+  return v.response?.headers ?? v.headers;
+}
+
+function requestIdOf(value: unknown): string | undefined {
+  return readHeaderValue(headersOf(value), "x-request-id");
+}
@@ -0,0 +1,431 @@
+import { RedisClient } from "bun";
+import { env } from "./env";
+import type { RedisCommandClient } from "./rateLimiter";
+import { logWarn } from "../utils/logging";
+
+/**
+ * Pre-trade risk checks for crypto, equity and option orders. Option orders
+ * are held to the equity rules.
+ *
+ * Rules, in the order they are checked:
+ * - `symbol_denylist` / `symbol_allowlist`: the pair or ticker must not be
+ *   denied and, when an allow list is set, must be on it. Equity orders that
+ *   only name a universal symbol id match on the id, and routes resolve the
+ *   id to its ticker for the deny list.
+ * - `max_order_quantity`: crypto `amount` or equity `units` (options: 100
+ *   shares per contract).
+ * - `max_order_notional`: quantity times price, or `notionalValue`.
+ * - `max_daily_notional`: the account's placements over a rolling 24 hours,
+ *   this order included.
+ *
+ * Notional needs a price. Routes pass the order's limit or stop price, or a
+ * quote when the order has neither; `needsReferencePrice` says when to fetch one.
+ * Usage and checked trades live in a `RiskStore`; with the Redis store the
+ * daily limit counts every machine's placements.
+ */
+export const RISK_RULES = [
+  "symbol_denylist",
+  "symbol_allowlist",
+  "max_order_quantity",
+  "max_order_notional",
+  "max_daily_notional",
+  "unchecked_trade"
+] as const;
+
+export type RiskRule = (typeof RISK_RULES)[number];
+
+export type RiskOrder = {
+  accountId: string;
+  assetClass: "crypto" | "equity";
+  /** Identifiers matched against the allow/deny lists (pair, ticker, universal symbol id). */
+  symbols: string[];
+  /**
+   * Identifier lists, like `symbols`, for each instrument of an order that
+   * trades several (option packages); every one must pass the lists.
+   */
+  instruments?: string[][];
+  quantity?: number;
+  /** Order value when the order states it (equity `notionalValue`). */
+  notional?: number;
+  /** Price used with `quantity` to compute notional. */
+  price?: number;
+};
+
+export type RiskDecision =
+  | { allowed: true; notional: number | undefined }
+  | { allowed: false; rule: RiskRule; message: string };
+
+/**
+ * Returned when an order is admitted for placement. Its notional counts
+ * against the daily limit from admission; `release` gives it back when the
+ * placement fails.
+ */
+export type RiskAdmission = { allowed: true; notional: number | undefined; release: () => void };
+
+const DAY_MS = 86_400_000;
+
+/**
+ * A trade `/equity/impact` checked, kept for `/equity/trade`.
+ */
+export type CheckedTrade = { accountId: string; notional: number | undefined };
+
+/**
+ * Storage contract for daily notional usage and checked trades. Every replica
+ * must see an `add` or `putCheckedTrade` on its next read.
+ */
+export interface RiskStore {
+  /** Notional the account placed in the 24 hours up to `now`. */
+  usage(accountId: string, now: number): Promise<number>;
+  /**
+   * Counts `notional` against the account and resolves to the usage with it
+   * included, plus the id `remove` takes to give it back. Adding before
+   * comparing is what keeps two placements racing for the last of the daily
+   * limit from both getting through.
+   */
+  add(accountId: string, notional: number, now: number): Promise<{ id: string; usage: number }>;
+  remove(accountId: string, id: string): Promise<void>;
+  putCheckedTrade(tradeId: string, trade: CheckedTrade, ttlMs: number, now: number): Promise<void>;
+  getCheckedTrade(tradeId: string, now: number): Promise<CheckedTrade | undefined>;
+  /** Resolves `true` when this call removed the trade. */
+  deleteCheckedTrade(tradeId: string): Promise<boolean>;
+}
+
+/**
+ * Process-local store. Limits only count the placements this machine made.
+ */
+export class MemoryRiskStore implements RiskStore {
+  private readonly entries = new Map<string, { id: string; at: number; notional: number }[]>();
+  private readonly checkedTrades = new Map<string, CheckedTrade & { expiresAt: number }>();
+  private nextId = 0;
+
+  async usage(accountId: string, now: number): Promise<number> {
+    return sumNotional(this.live(accountId, now));
+  }
+
+  async add(accountId: string, notional: number, now: number): Promise<{ id: string; usage: number }> {
+    const entry = { id: String(++this.nextId), at: now, notional };
+    const entries = this.live(accountId, now);
+    entries.push(entry);
+    this.entries.set(accountId, entries);
+    return { id: entry.id, usage: sumNotional(entries) };
+  }
+
+  async remove(accountId: string, id: string): Promise<void> {
+    const current = this.entries.get(accountId);
+    const index = current?.findIndex((entry) => entry.id === id) ?? -1;
+    if (index >= 0) {
+      current!.splice(index, 1);
+    }
+  }
+
+  async putCheckedTrade(tradeId: string, trade: CheckedTrade, ttlMs: number, now: number): Promise<void> {
+    for (const [id, checked] of this.checkedTrades) {
+      if (checked.expiresAt > now) {
+        break;
+      }
+      this.checkedTrades.delete(id);
+    }
+    this.checkedTrades.set(tradeId, { ...trade, expiresAt: now + ttlMs });
+  }
+
+  async getCheckedTrade(tradeId: string, now: number): Promise<CheckedTrade | undefined> {
+    const trade = this.checkedTrades.get(tradeId);
+    return trade && trade.expiresAt > now ? { accountId: trade.accountId, notional: trade.notional } : undefined;
+  }
+
+  async deleteCheckedTrade(tradeId: string): Promise<boolean> {
+    return this.checkedTrades.delete(tradeId);
+  }
+
+  private live(accountId: string, now: number) {
+    const entries = (this.entries.get(accountId) ?? []).filter((entry) => now - entry.at < DAY_MS);
+    if (entries.length === 0) {
+      this.entries.delete(accountId);
+    }
+    return entries;
+  }
+}
+
+/**
+ * Redis-backed store shared by every replica. Each account's placements are a
+ * sorted set scored by time, with the notional in the member, so the 24-hour
+ * window is a range trim. Checked trades are plain keys that Redis expires.
+ */
+export class RedisRiskStore implements RiskStore {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly keyPrefix = "coinage:risk:"
+  ) {}
+
+  async usage(accountId: string, now: number): Promise<number> {
+    const key = this.notionalKey(accountId);
+    await this.client.send("ZREMRANGEBYSCORE", [key, "-inf", String(now - DAY_MS)]);
+    return this.sum(key);
+  }
+
+  async add(accountId: string, notional: number, now: number): Promise<{ id: string; usage: number }> {
+    const key = this.notionalKey(accountId);
+    const id = `${crypto.randomUUID()}:${notional}`;
+    await this.client.send("ZREMRANGEBYSCORE", [key, "-inf", String(now - DAY_MS)]);
+    await this.client.send("ZADD", [key, String(now), id]);
+    await this.client.send("PEXPIRE", [key, String(DAY_MS)]);
+    return { id, usage: await this.sum(key) };
+  }
+
+  async remove(accountId: string, id: string): Promise<void> {
+    await this.client.send("ZREM", [this.notionalKey(accountId), id]);
+  }
+
+  async putCheckedTrade(tradeId: string, trade: CheckedTrade, ttlMs: number): Promise<void> {
+    await this.client.send("SET", [this.tradeKey(tradeId), JSON.stringify(trade), "PX", String(ttlMs)]);
+  }
+
+  async getCheckedTrade(tradeId: string): Promise<CheckedTrade | undefined> {
+    const value = (await this.client.send("GET", [this.tradeKey(tradeId)])) as string | null;
+    return value ? (JSON.parse(value) as CheckedTrade) : undefined;
+  }
+
+  async deleteCheckedTrade(tradeId: string): Promise<boolean> {
+    return Number(await this.client.send("DEL", [this.tradeKey(tradeId)])) > 0;
+  }
+
+  private async sum(key: string): Promise<number> {
+    const members = (await this.client.send("ZRANGE", [key, "0", "-1"])) as string[] | null;
+    return (members ?? []).reduce((total, member) => total + Number(member.slice(member.lastIndexOf(":") + 1)), 0);
+  }
+
+  private notionalKey(accountId: string) {
+    return `${this.keyPrefix}notional:${accountId}`;
+  }
+
+  private tradeKey(tradeId: string) {
+    return `${this.keyPrefix}trade:${tradeId}`;
+  }
+}
+
+let defaultStore: RiskStore | undefined;
+
+/**
+ * Lazily resolves the store named by `COINAGE_RISK_STORE` so importing a route
+ * module never opens a Redis connection on its own.
+ */
+function getDefaultStore(): RiskStore {
+  if (!defaultStore) {
+    defaultStore =
+      env.COINAGE_RISK_STORE === "redis"
+        ? new RedisRiskStore(new RedisClient(env.COINAGE_REDIS_URL))
+        : new MemoryRiskStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Whether any risk rule is configured.
+ */
+export function riskChecksEnabled(): boolean {
+  return (
+    env.COINAGE_RISK_MAX_ORDER_NOTIONAL !== undefined ||
+    env.COINAGE_RISK_MAX_DAILY_NOTIONAL !== undefined ||
+    env.COINAGE_RISK_CRYPTO_MAX_AMOUNT !== undefined ||
+    env.COINAGE_RISK_EQUITY_MAX_UNITS !== undefined ||
+    [
+      env.COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST,
+      env.COINAGE_RISK_CRYPTO_PAIR_DENYLIST,
+      env.COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST,
+      env.COINAGE_RISK_EQUITY_SYMBOL_DENYLIST
+    ].some((list) => list.length > 0)
+  );
+}
+
+/**
+ * True when a notional limit is configured and the order carries neither a
+ * notional nor a price, so the caller has to quote it first. Orders the
+ * symbol and quantity rules already reject are not worth a quote.
+ */
+export function needsReferencePrice(order: RiskOrder): boolean {
+  const notionalLimited =
+    env.COINAGE_RISK_MAX_ORDER_NOTIONAL !== undefined || env.COINAGE_RISK_MAX_DAILY_NOTIONAL !== undefined;
+  const unpriced = order.notional === undefined && order.price === undefined;
+  return notionalLimited && unpriced && checkInstrumentAndSize(order) === undefined;
+}
+
+/**
+ * Checks an order without recording it. Used by preview and impact.
+ */
+export async function evaluateRisk(order: RiskOrder, now = Date.now()): Promise<RiskDecision> {
+  const decision = checkOrder(order);
+  const maxDaily = env.COINAGE_RISK_MAX_DAILY_NOTIONAL;
+  if (!decision.allowed || maxDaily === undefined) {
+    return decision;
+  }
+  const used = (await getDefaultStore().usage(order.accountId, now)) + decision.notional!;
+  return used > maxDaily ? dailyLimitRejection(decision.notional!, used, maxDaily) : decision;
+}
+
+/**
+ * Checks an order for placement and, when it passes, counts its notional
+ * against the account's daily limit.
+ */
+export async function admitOrder(
+  order: RiskOrder,
+  now = Date.now()
+): Promise<RiskAdmission | Extract<RiskDecision, { allowed: false }>> {
+  const decision = checkOrder(order);
+  if (!decision.allowed) {
+    return decision;
+  }
+  return admitNotional(order.accountId, decision.notional, now);
+}
+
+// Trades checked at `/equity/impact`, for `/equity/trade`, which only carries
+// the trade id. SnapTrade lets a checked trade be placed for a few minutes.
+const CHECKED_TRADE_TTL_MS = 10 * 60_000;
+
+export function rememberCheckedTrade(
+  tradeId: string,
+  accountId: string,
+  notional: number | undefined,
+  now = Date.now()
+): Promise<void> {
+  return getDefaultStore().putCheckedTrade(tradeId, { accountId, notional }, CHECKED_TRADE_TTL_MS, now);
+}
+
+/**
+ * Admits a checked trade. Its symbol, quantity and notional were checked by
+ * `/equity/impact`; the daily limit is checked again now. A trade id impact
+ * did not check (with the memory store: on another machine, or before a
+ * restart) is rejected while any rule is configured.
+ */
+export async function admitCheckedTrade(
+  tradeId: string,
+  accountId: string,
+  now = Date.now()
+): Promise<RiskAdmission | Extract<RiskDecision, { allowed: false }>> {
+  if (!riskChecksEnabled()) {
+    return { allowed: true, notional: undefined, release: () => {} };
+  }
+  const store = getDefaultStore();
+  const trade = await store.getCheckedTrade(tradeId, now);
+  if (!trade || trade.accountId !== accountId) {
+    return uncheckedTradeRejection();
+  }
+  const admission = await admitNotional(accountId, trade.notional, now);
+  if (admission.allowed && !(await store.deleteCheckedTrade(tradeId))) {
+    // Another request placed this trade between the read and the delete.
+    admission.release();
+    return uncheckedTradeRejection();
+  }
+  return admission;
+}
+
+/**
+ * Every rule but the daily limit, which needs the store.
+ */
+function checkOrder(order: RiskOrder): RiskDecision {
+  const rejected = checkInstrumentAndSize(order);
+  if (rejected) {
+    return rejected;
+  }
+
+  const notional =
+    order.notional ?? (order.quantity !== undefined && order.price !== undefined ? order.quantity * order.price : undefined);
+  const maxNotional = env.COINAGE_RISK_MAX_ORDER_NOTIONAL;
+  const maxDaily = env.COINAGE_RISK_MAX_DAILY_NOTIONAL;
+  if (notional === undefined && (maxNotional !== undefined || maxDaily !== undefined)) {
+    // Fail closed: an order we cannot value cannot be held to a value limit.
+    return reject(
+      maxNotional !== undefined ? "max_order_notional" : "max_daily_notional",
+      "Unable to price the order to check notional limits."
+    );
+  }
+  if (maxNotional !== undefined && notional! > maxNotional) {
+    return reject("max_order_notional", `Order notional ${formatAmount(notional!)} exceeds the limit of ${maxNotional}.`);
+  }
+  return { allowed: true, notional };
+}
+
+/**
+ * The rules that need no price: allow/deny lists and the quantity cap.
+ */
+function checkInstrumentAndSize(order: RiskOrder): Extract<RiskDecision, { allowed: false }> | undefined {
+  const [allowList, denyList] =
+    order.assetClass === "crypto"
+      ? [env.COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST, env.COINAGE_RISK_CRYPTO_PAIR_DENYLIST]
+      : [env.COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST, env.COINAGE_RISK_EQUITY_SYMBOL_DENYLIST];
+  for (const instrument of order.instruments ?? [order.symbols]) {
+    const symbols = instrument.map((symbol) => symbol.toUpperCase());
+    const label = instrument[0] ?? "this instrument";
+
+    const denied = symbols.find((symbol) => denyList.includes(symbol));
+    if (denied) {
+      return reject("symbol_denylist", `${label} is on the deny list.`);
+    }
+    if (allowList.length > 0 && !symbols.some((symbol) => allowList.includes(symbol))) {
+      return reject("symbol_allowlist", `${label} is not on the allow list.`);
+    }
+  }
+
+  const maxQuantity = order.assetClass === "crypto" ? env.COINAGE_RISK_CRYPTO_MAX_AMOUNT : env.COINAGE_RISK_EQUITY_MAX_UNITS;
+  if (maxQuantity !== undefined && order.quantity !== undefined && order.quantity > maxQuantity) {
+    return reject("max_order_quantity", `Order quantity ${order.quantity} exceeds the limit of ${maxQuantity}.`);
+  }
+  return undefined;
+}
+
+/**
+ * Counts the notional against the daily limit, or rejects it when that would
+ * take the account over. Nothing is counted while no daily limit is set.
+ */
+async function admitNotional(
+  accountId: string,
+  notional: number | undefined,
+  now: number
+): Promise<RiskAdmission | Extract<RiskDecision, { allowed: false }>> {
+  const maxDaily = env.COINAGE_RISK_MAX_DAILY_NOTIONAL;
+  if (maxDaily === undefined || notional === undefined) {
+    return { allowed: true, notional, release: () => {} };
+  }
+  const store = getDefaultStore();
+  const { id, usage } = await store.add(accountId, notional, now);
+  if (usage > maxDaily) {
+    await store.remove(accountId, id);
+    return dailyLimitRejection(notional, usage, maxDaily);
+  }
+  const release = () => {
+    store.remove(accountId, id).catch((error) => {
+      logWarn("risk.release.error", { account: accountId.slice(0, 8), message: (error as Error)?.message });
+    });
+  };
+  return { allowed: true, notional, release };
+}
+
+function dailyLimitRejection(notional: number, used: number, maxDaily: number) {
+  return reject(
+    "max_daily_notional",
+    `Order notional ${formatAmount(notional)} would take the account to ${formatAmount(used)} in 24 hours, over the limit of ${maxDaily}.`
+  );
+}
+
+function uncheckedTradeRejection() {
+  return reject("unchecked_trade", "This trade was not risk checked by /equity/impact, or the check expired.");
+}
+
+function sumNotional(entries: { notional: number }[]) {
+  return entries.reduce((sum, entry) => sum + entry.notional, 0);
+}
+
+function reject(rule: RiskRule, message: string): Extract<RiskDecision, { allowed: false }> {
+  return { allowed: false, rule, message };
+}
+
+function formatAmount(value: number) {
+  return Number(value.toFixed(8)).toString();
+}
+
+/**
+ * Testing hook: swaps the default store (or resets to a fresh in-memory one),
+ * forgetting daily usage and checked trades.
+ */
+export function resetRiskChecksForTests(store?: RiskStore) {
+  defaultStore = store ?? new MemoryRiskStore();
+}
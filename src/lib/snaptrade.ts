@@ -1,6 +1,31 @@
-import { Snaptrade } from "snaptrade-typescript-sdk";
+import axios, { type AxiosAdapter } from "axios";
+import { Snaptrade, SnaptradeError, parseIfJson } from "snaptrade-typescript-sdk";
 import { env } from "./env";
 
+const defaultAdapter = axios.getAdapter(axios.defaults.adapter);
+
+/**
+ * The SDK turns HTTP errors into a `SnaptradeError` itself, but keeps the
+ * response headers only inside its message, so `x-request-id`, the
+ * `x-ratelimit-*` counters and `Retry-After` never reach `handleSnaptradeError`.
+ * On a 429 it is worse: it sleeps 5s, 10s and 20s between attempts and then
+ * throws a bare Error without status or headers. Build the `SnaptradeError`
+ * at the adapter instead, with its headers attached; the SDK rethrows anything
+ * that is not an AxiosError untouched, so callers see a 429 at once and
+ * `withReadRetries` and the Java client own backoff.
+ */
+const snaptradeAdapter: AxiosAdapter = async (config) => {
+  try {
+    return await defaultAdapter(config);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const { data, headers } = error.response;
+      throw Object.assign(new SnaptradeError(error, parseIfJson(data), headers), { headers });
+    }
+    throw error;
+  }
+};
+
 /**
  * Single shared instance of the SnapTrade SDK client. The SDK is lightweight,
  * so we build it once and reuse it for all requests routed through Hono.
@@ -8,17 +33,14 @@ import { env } from "./env";
 export const snaptrade = new Snaptrade({
   clientId: env.SNAPTRADE_CLIENT_ID,
   consumerKey: env.SNAPTRADE_CONSUMER_KEY,
-  basePath: env.SNAPTRADE_BASE_URL
+  basePath: env.SNAPTRADE_BASE_URL,
+  // Sensible network defaults: fail fast instead of hanging forever (Axios
+  // default is no timeout). The SDK client has no shared Axios instance to
+  // configure; `baseOptions` is merged into every request it makes.
+  baseOptions: { timeout: env.SNAPTRADE_TIMEOUT_MS, adapter: snaptradeAdapter }
 });
 
 // Uncomment if Bun ever requires a fetch-based adapter for Axios:
 // const { default: fetchAdapter } = await import("@shiroyasha9/axios-fetch-adapter");
 // snaptrade.axios.defaults.adapter = fetchAdapter;
 
-// Sensible network defaults: fail fast instead of hanging forever.
-// (Axios default is no timeout.)
-try {
-  // Ten seconds matches our Spring service timeouts and keeps Bun from waiting
-  // indefinitely if SnapTrade has a transient networking blip.
-  snaptrade.axios.defaults.timeout = 10_000; // 10s
-} catch {}
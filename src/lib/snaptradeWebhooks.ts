@@ -0,0 +1,193 @@
+import { RedisClient } from "bun";
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { env } from "./env";
+import type { RedisCommandClient } from "./rateLimiter";
+import { NONCE_HEADER, NonceCache, SIGNATURE_HEADER, TIMESTAMP_HEADER, signRequest } from "./requestSigning";
+import { logInfo, logWarn } from "../utils/logging";
+import type { SnaptradeWebhook } from "../schemas/webhook";
+
+/**
+ * Verification and relaying of SnapTrade webhooks.
+ *
+ * SnapTrade signs each delivery with the partner consumer key: the `Signature`
+ * header is the base64 HMAC-SHA256 of the JSON payload serialised with sorted
+ * keys and no whitespace. Signing the canonical form rather than the raw bytes
+ * means re-encoding by a proxy in between does not break verification.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "Signature";
+
+/**
+ * Header carrying SnapTrade's `webhookId` on relayed deliveries, so Java can
+ * drop a delivery it already processed when a retry crosses a slow response.
+ */
+export const WEBHOOK_ID_HEADER = "X-Coinage-Webhook-Id";
+
+/**
+ * Produces the `Signature` value for a payload. Exported so tests sign
+ * exactly the way SnapTrade does.
+ */
+export function signSnaptradeWebhook(payload: unknown, consumerKey: string): string {
+  return createHmac("sha256", consumerKey).update(canonicalJson(payload)).digest("base64");
+}
+
+export function verifySnaptradeWebhookSignature(payload: unknown, signature: string): boolean {
+  const expected = Buffer.from(signSnaptradeWebhook(payload, env.SNAPTRADE_CONSUMER_KEY), "base64");
+  const provided = Buffer.from(signature.trim(), "base64");
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Storage contract for accepted `webhookId`s. `claim` records the id and
+ * resolves `false` when it was already recorded and has not expired.
+ */
+export interface WebhookIdStore {
+  claim(webhookId: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * Process-local store. A replay that reaches another machine is not caught.
+ */
+export class MemoryWebhookIdStore implements WebhookIdStore {
+  private readonly seen = new NonceCache();
+
+  async claim(webhookId: string, ttlMs: number): Promise<boolean> {
+    return this.seen.remember(webhookId, ttlMs);
+  }
+}
+
+/**
+ * Redis-backed store shared by every replica: one `SET NX PX` key per id, so
+ * the first machine to claim an id wins and Redis expires it.
+ */
+export class RedisWebhookIdStore implements WebhookIdStore {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly keyPrefix = "coinage:webhook:"
+  ) {}
+
+  async claim(webhookId: string, ttlMs: number): Promise<boolean> {
+    const claimed = await this.client.send("SET", [`${this.keyPrefix}${webhookId}`, "1", "PX", String(ttlMs), "NX"]);
+    return claimed === "OK";
+  }
+}
+
+let defaultStore: WebhookIdStore | undefined;
+
+/**
+ * Lazily resolves the store named by `COINAGE_WEBHOOK_STORE` so importing the
+ * route never opens a Redis connection on its own.
+ */
+function getDefaultStore(): WebhookIdStore {
+  if (!defaultStore) {
+    defaultStore =
+      env.COINAGE_WEBHOOK_STORE === "redis"
+        ? new RedisWebhookIdStore(new RedisClient(env.COINAGE_REDIS_URL))
+        : new MemoryWebhookIdStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Records a verified delivery's `webhookId`; `false` means it was seen before.
+ * Ids outlive the staleness tolerance, past which the delivery is rejected as
+ * stale anyway. Rejects when the store cannot be reached.
+ */
+export function rememberWebhookId(webhookId: string): Promise<boolean> {
+  return getDefaultStore().claim(webhookId, env.COINAGE_WEBHOOK_TOLERANCE_MS * 2);
+}
+
+const inFlight = new Set<Promise<void>>();
+
+/**
+ * Relays a verified event to `COINAGE_WEBHOOK_FORWARD_URL` in the background.
+ * Network errors, timeouts, 408, 429 and 5xx are retried with doubling delays
+ * up to `COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS`; any other response ends the
+ * delivery. Requests are signed like Java's calls to this service, when a
+ * shared secret is configured.
+ */
+export function forwardWebhook(event: SnaptradeWebhook): void {
+  const url = env.COINAGE_WEBHOOK_FORWARD_URL;
+  if (!url) {
+    return;
+  }
+  const delivery = deliver(url, event).finally(() => inFlight.delete(delivery));
+  inFlight.add(delivery);
+}
+
+async function deliver(url: string, event: SnaptradeWebhook): Promise<void> {
+  const body = JSON.stringify(event);
+  const maxAttempts = env.COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS;
+  const meta = { webhookId: event.webhookId, eventType: event.eventType };
+
+  for (let attempt = 1; ; attempt++) {
+    let status: number | undefined;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: forwardHeaders(url, body, event.webhookId),
+        body,
+        signal: AbortSignal.timeout(env.COINAGE_WEBHOOK_FORWARD_TIMEOUT_MS)
+      });
+      status = res.status;
+      // Drain the body so the connection can be reused.
+      await res.arrayBuffer().catch(() => undefined);
+      if (res.ok) {
+        logInfo("snaptrade.webhook.forwarded", { ...meta, attempt, status });
+        return;
+      }
+    } catch (error) {
+      logWarn("snaptrade.webhook.forward_error", { ...meta, attempt, message: (error as Error)?.message });
+    }
+
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    if (!retryable || attempt >= maxAttempts) {
+      logWarn("snaptrade.webhook.forward_failed", { ...meta, attempts: attempt, status: status ?? null });
+      return;
+    }
+    await Bun.sleep(env.COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS * 2 ** (attempt - 1));
+  }
+}
+
+function forwardHeaders(url: string, body: string, webhookId: string): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json", [WEBHOOK_ID_HEADER]: webhookId };
+  const secret = env.COINAGE_TS_SHARED_SECRET;
+  if (secret) {
+    const { pathname, search } = new URL(url);
+    const timestamp = String(Date.now());
+    // Fresh per attempt: the nonce guards against replay, not duplicates.
+    const nonce = randomUUID();
+    headers[TIMESTAMP_HEADER] = timestamp;
+    headers[NONCE_HEADER] = nonce;
+    headers[SIGNATURE_HEADER] = signRequest({ method: "POST", path: `${pathname}${search}`, timestamp, nonce, body }, secret);
+  }
+  return headers;
+}
+
+/**
+ * Testing hook: waits for background deliveries to finish, then swaps in a
+ * fresh id store (memory unless one is given).
+ */
+export async function resetSnaptradeWebhooksForTests(store?: WebhookIdStore) {
+  await Promise.all(inFlight);
+  defaultStore = store ?? new MemoryWebhookIdStore();
+}
+
+/**
+ * Testing hook: resolves once every background delivery has finished.
+ */
+export async function flushWebhookForwardsForTests() {
+  await Promise.all(inFlight);
+}
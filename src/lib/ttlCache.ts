@@ -0,0 +1,81 @@
+/**
+ * Small TTL cache with request coalescing ("singleflight").
+ *
+ * Concurrent `getOrLoad` calls for the same key share one in-flight loader, and
+ * successful results are kept for the TTL. Failures are never cached: every
+ * waiter on a failed load sees the error and the next call loads again.
+ */
+export type CacheStatus = "hit" | "miss" | "coalesced";
+
+export type CacheResult<T> = {
+  value: T;
+  status: CacheStatus;
+  /** Milliseconds since the value was loaded from upstream. */
+  ageMs: number;
+};
+
+type Entry<T> = { value: T; loadedAt: number; expiresAt: number };
+
+export class TtlCache<T> {
+  private readonly entries = new Map<string, Entry<T>>();
+  private readonly inflight = new Map<string, Promise<Entry<T>>>();
+
+  /**
+   * `ttlMs` is read on every call so tests and env overrides take effect
+   * without rebuilding the cache. A TTL of 0 still coalesces concurrent loads.
+   */
+  constructor(
+    private readonly ttlMs: () => number,
+    private readonly maxEntries = 1_000
+  ) {}
+
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return { value: cached.value, status: "hit", ageMs: now - cached.loadedAt };
+    }
+    if (cached) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      const entry = await pending;
+      return { value: entry.value, status: "coalesced", ageMs: Date.now() - entry.loadedAt };
+    }
+
+    const load = loader()
+      .then((value) => {
+        const loadedAt = Date.now();
+        const entry = { value, loadedAt, expiresAt: loadedAt + this.ttlMs() };
+        if (this.ttlMs() > 0) {
+          this.store(key, entry);
+        }
+        return entry;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+    this.inflight.set(key, load);
+
+    const entry = await load;
+    return { value: entry.value, status: "miss", ageMs: 0 };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  private store(key: string, entry: Entry<T>) {
+    this.entries.set(key, entry);
+    // Map iteration follows insertion order, so the first keys are the oldest.
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+}
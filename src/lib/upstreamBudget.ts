@@ -0,0 +1,144 @@
+import type { MiddlewareHandler } from "hono";
+import { env } from "./env";
+import { logWarn } from "../utils/logging";
+
+/**
+ * Tracks SnapTrade's partner-wide request budget from the `x-ratelimit-*`
+ * headers on every response, so the service can protect order placement and
+ * `/orders/detail` by shedding low-priority reads (pair search, quotes) when
+ * the budget runs low.
+ *
+ * The budget is partner-wide, but each replica only sees its own responses.
+ * Every response carries the latest counters, so replicas converge quickly.
+ */
+export type BudgetSnapshot = {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string | null;
+  observedAt: string | null;
+  floor: number;
+  lowPriorityThrottled: boolean;
+};
+
+export type BudgetCheck = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+// Values above this are unix timestamps rather than "seconds until reset".
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+export class UpstreamBudget {
+  private limit: number | undefined;
+  private remaining: number | undefined;
+  private resetAtMs: number | undefined;
+  private observedAtMs: number | undefined;
+
+  /**
+   * Records the counters from a SnapTrade response. Missing or malformed
+   * headers leave the previous observation untouched.
+   */
+  observe(
+    counters: { limit?: string; remaining?: string; reset?: string },
+    now = Date.now()
+  ): void {
+    const remaining = parseCounter(counters.remaining);
+    if (remaining === undefined) {
+      return;
+    }
+    this.remaining = remaining;
+    this.limit = parseCounter(counters.limit) ?? this.limit;
+    const reset = parseCounter(counters.reset);
+    if (reset !== undefined) {
+      this.resetAtMs = reset >= EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000;
+    }
+    this.observedAtMs = now;
+  }
+
+  /**
+   * Low-priority reads are refused while the last observed `remaining` is at or
+   * below the floor and the window has not reset yet. High-priority calls are
+   * never refused here; SnapTrade's own 429 is the backstop for them.
+   */
+  check(priority: "low" | "high", floor: number, now = Date.now()): BudgetCheck {
+    if (priority === "high" || !this.isBelowFloor(floor, now)) {
+      return { allowed: true };
+    }
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(1, (this.resetAtMs ?? now + 1000) - now)
+    };
+  }
+
+  snapshot(floor: number, now = Date.now()): BudgetSnapshot {
+    return {
+      limit: this.limit ?? null,
+      remaining: this.remaining ?? null,
+      resetAt: this.resetAtMs !== undefined ? new Date(this.resetAtMs).toISOString() : null,
+      observedAt: this.observedAtMs !== undefined ? new Date(this.observedAtMs).toISOString() : null,
+      floor,
+      lowPriorityThrottled: this.isBelowFloor(floor, now)
+    };
+  }
+
+  reset(): void {
+    this.limit = undefined;
+    this.remaining = undefined;
+    this.resetAtMs = undefined;
+    this.observedAtMs = undefined;
+  }
+
+  private isBelowFloor(floor: number, now: number): boolean {
+    if (floor <= 0 || this.remaining === undefined || this.remaining > floor) {
+      return false;
+    }
+    // Once the window has reset the old counters no longer apply. Without a
+    // reset hint, trust the observation for one second so a single low reading
+    // cannot block reads indefinitely.
+    const expiresAt = this.resetAtMs ?? (this.observedAtMs ?? 0) + 1000;
+    return expiresAt > now;
+  }
+}
+
+function parseCounter(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Process-wide tracker fed by `propagateRateLimitHeaders` and
+ * `handleSnaptradeError`.
+ */
+export const upstreamBudget = new UpstreamBudget();
+
+/**
+ * Route middleware for low-priority reads. When the partner budget is below
+ * `COINAGE_UPSTREAM_BUDGET_FLOOR` the request is rejected before it spends
+ * any of the remaining budget.
+ */
+export function requireUpstreamBudget(event: string): MiddlewareHandler {
+  return async (c, next) => {
+    const floor = env.COINAGE_UPSTREAM_BUDGET_FLOOR;
+    const result = upstreamBudget.check("low", floor);
+    if (result.allowed) {
+      return next();
+    }
+    logWarn(event, { route: c.req.path, floor, retryAfterMs: result.retryAfterMs });
+    c.header("Retry-After", Math.max(1, Math.ceil(result.retryAfterMs / 1000)).toString());
+    return c.json(
+      {
+        error: "upstream_budget_low",
+        message: "SnapTrade request budget is reserved for order placement; retry after the window resets.",
+        retryAfterMs: result.retryAfterMs
+      },
+      429
+    );
+  };
+}
+
+/**
+ * Testing hook to forget observed counters between specs.
+ */
+export function resetUpstreamBudgetForTests() {
+  upstreamBudget.reset();
+}
@@ -0,0 +1,121 @@
+import type { Hono } from "hono";
+import type { Context } from "hono";
+import { ZodError, type ZodType } from "zod";
+import { snaptrade } from "../lib/snaptrade";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { ATTEMPTS_HEADER, withReadRetries, type ReadOperation } from "../lib/retry";
+import { accountRequestSchema, type AccountRequestPayload } from "../schemas/account";
+import { handleSnaptradeError, propagateRateLimitHeaders, unwrapSnaptradeResponse, validationError } from "../utils/snaptrade";
+import { logInfo, logWarn } from "../utils/logging";
+
+/**
+ * Registers account information endpoints the Java backend reads before
+ * placing a trade (buying power, current positions). They proxy SnapTrade's
+ * account information APIs so every SnapTrade call leaves through this
+ * service with the same logging, retries and header conventions.
+ */
+export function registerAccountRoutes(app: Hono) {
+  app.use("/accounts/*", requireSignedRequest("snaptrade.account.auth.error"));
+
+  // Cash balances per currency, including buying power.
+  app.post("/accounts/balances", (c) =>
+    proxyAccountRead(c, "getUserAccountBalance", "snaptrade.account.balances", (payload) =>
+      snaptrade.accountInformation.getUserAccountBalance(payload)
+    )
+  );
+
+  // Stock, ETF, crypto and mutual fund positions. Options live under the
+  // options API and are not included.
+  app.post("/accounts/positions", (c) =>
+    proxyAccountRead(c, "getUserAccountPositions", "snaptrade.account.positions", (payload) =>
+      snaptrade.accountInformation.getUserAccountPositions(payload)
+    )
+  );
+
+  // Balances, positions, option positions and recent orders in one payload.
+  app.post("/accounts/holdings", (c) =>
+    proxyAccountRead(c, "getUserHoldings", "snaptrade.account.holdings", (payload) =>
+      snaptrade.accountInformation.getUserHoldings(payload)
+    )
+  );
+}
+
+/**
+ * Validates the account payload, runs the SnapTrade read with retries and
+ * relays the response. All three account endpoints differ only in the SDK call.
+ */
+async function proxyAccountRead(
+  c: Context,
+  operation: ReadOperation,
+  eventPrefix: string,
+  call: (payload: AccountRequestPayload) => Promise<unknown>
+) {
+  const payloadResult = await parseJsonBody<AccountRequestPayload>(c, accountRequestSchema);
+  if (payloadResult instanceof Response) {
+    return payloadResult;
+  }
+  const payload = payloadResult;
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  logInfo(`${eventPrefix}.request`, { user, account });
+
+  try {
+    const result = await withReadRetries(
+      operation,
+      () =>
+        call({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret
+        }),
+      (attempt) => c.header(ATTEMPTS_HEADER, String(attempt))
+    );
+
+    const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+    if (requestId) {
+      c.header("X-SnapTrade-Request-ID", requestId);
+    }
+    propagateRateLimitHeaders(c, headers);
+    logInfo(`${eventPrefix}.response`, {
+      user,
+      account,
+      requestId,
+      count: Array.isArray(data) ? data.length : undefined
+    });
+    return c.json(data);
+  } catch (error) {
+    logWarn(`${eventPrefix}.error`, { user, account, message: (error as Error)?.message });
+    return handleSnaptradeError(c, error);
+  }
+}
+
+/**
+ * Parses and validates JSON bodies for POST endpoints. Any parsing or schema
+ * issues are surfaced to the client through a standardised error shape.
+ */
+async function parseJsonBody<T>(c: Context, schema: ZodType<T, any, any>): Promise<T | Response> {
+  try {
+    const raw = await c.req.json();
+    return schema.parse(raw) as T;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(c, error);
+    } else {
+      return c.json(
+        {
+          error: "invalid_json",
+          message: "Unable to parse request body"
+        },
+        400
+      );
+    }
+  }
+}
+
+function userSnippet(userId: string) {
+  return userId.slice(-6);
+}
+
+function accountSnippet(accountId: string) {
+  return accountId.slice(0, 8);
+}
@@ -0,0 +1,84 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Context, Hono, MiddlewareHandler } from "hono";
+import { ZodError, type ZodType } from "zod";
+import { env } from "../lib/env";
+import { haltTrading, listHalts, resumeTrading } from "../lib/killSwitch";
+import {
+  killSwitchHaltSchema,
+  killSwitchResumeSchema,
+  type KillSwitchHaltPayload,
+  type KillSwitchTarget
+} from "../schemas/killSwitch";
+import { validationError } from "../utils/snaptrade";
+import { logInfo, logWarn } from "../utils/logging";
+
+/**
+ * Registers operator endpoints. These are called by people during incidents,
+ * not by Java, so they take a bearer token (`COINAGE_ADMIN_TOKEN`) instead of
+ * request signing.
+ */
+export function registerAdminRoutes(app: Hono) {
+  app.use("/admin/*", requireAdminToken());
+
+  app.get("/admin/kill-switch", async (c) => c.json({ halts: await listHalts() }));
+
+  app.post("/admin/kill-switch/halt", async (c) => {
+    const payload = await parseJsonBody<KillSwitchHaltPayload>(c, killSwitchHaltSchema);
+    if (payload instanceof Response) {
+      return payload;
+    }
+    const halt = await haltTrading(payload);
+    logWarn("admin.kill_switch.halted", {
+      scope: halt.scope,
+      assetClass: halt.assetClass,
+      account: halt.accountId?.slice(0, 8) ?? null,
+      reason: halt.reason
+    });
+    return c.json(halt);
+  });
+
+  app.post("/admin/kill-switch/resume", async (c) => {
+    const payload = await parseJsonBody<KillSwitchTarget>(c, killSwitchResumeSchema);
+    if (payload instanceof Response) {
+      return payload;
+    }
+    const resumed = await resumeTrading(payload);
+    logInfo("admin.kill_switch.resumed", {
+      scope: payload.scope,
+      assetClass: payload.assetClass ?? null,
+      account: payload.accountId?.slice(0, 8) ?? null,
+      resumed
+    });
+    return c.json({ resumed });
+  });
+}
+
+function requireAdminToken(): MiddlewareHandler {
+  return async (c, next) => {
+    const token = env.COINAGE_ADMIN_TOKEN;
+    const provided = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token || !provided || !tokensMatch(provided, token)) {
+      logWarn("admin.auth.error", { route: c.req.path, reason: token ? "invalid_token" : "admin_disabled" });
+      return c.json({ error: "unauthorized", message: "Missing or invalid admin token." }, 401);
+    }
+    return next();
+  };
+}
+
+// Compare digests so the comparison does not leak the token's length.
+function tokensMatch(provided: string, expected: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+async function parseJsonBody<T>(c: Context, schema: ZodType<T, any, any>): Promise<T | Response> {
+  try {
+    const raw = await c.req.json();
+    return schema.parse(raw) as T;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(c, error);
+    }
+    return c.json({ error: "invalid_json", message: "Unable to parse request body" }, 400);
+  }
+}
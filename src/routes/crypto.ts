@@ -1,14 +1,61 @@
+import { createHash } from "node:crypto";
 import type { Hono } from "hono";
 import type { Context } from "hono";
 import { ZodError, type ZodType } from "zod";
 import { snaptrade } from "../lib/snaptrade";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { withCircuitBreaker } from "../lib/circuitBreaker";
+import { ATTEMPTS_HEADER, withReadRetries, type ReadOperation } from "../lib/retry";
+import { idempotency, markPlacementSent, placementRejected } from "../lib/idempotency";
+import { requireTradingEnabled } from "../lib/killSwitch";
+import { paperTradingMode, tradingCall } from "../lib/paperTrading";
+import { requireUpstreamBudget } from "../lib/upstreamBudget";
+import { MAX_WAIT_HEADER, PerKeyRateLimiter, resolveMaxWaitMs } from "../lib/rateLimiter";
+import { TtlCache, type CacheResult } from "../lib/ttlCache";
 import { env } from "../lib/env";
-import { PerKeyRateLimiter } from "../lib/rateLimiter";
-import { OrderPayload, PairQuery, QuoteQuery, orderSchema, pairQuerySchema, quoteQuerySchema } from "../schemas/crypto";
-import { handleSnaptradeError, propagateRateLimitHeaders, unwrapSnaptradeResponse, validationError } from "../utils/snaptrade";
+import {
+  admitOrder,
+  evaluateRisk,
+  needsReferencePrice,
+  type RiskAdmission,
+  type RiskDecision,
+  type RiskOrder
+} from "../lib/riskChecks";
+import {
+  OrderPayload,
+  PairQuery,
+  QuoteQuery,
+  cryptoReplaceSchema,
+  orderSchema,
+  pairQuerySchema,
+  quoteQuerySchema,
+  type CryptoReplacePayload
+} from "../schemas/crypto";
+import {
+  CACHE_AGE_HEADER,
+  CACHE_STATUS_HEADER,
+  handleSnaptradeError,
+  invalidMaxWaitResponse,
+  propagateRateLimitHeaders,
+  rateLimitedResponse,
+  replacedOrderResponse,
+  riskRejectedResponse,
+  riskUnavailableResponse,
+  throttleUnavailableResponse,
+  unwrapSnaptradeResponse,
+  validationError
+} from "../utils/snaptrade";
+import { parseQuery } from "../utils/query";
 
 // Enforce one trade per second per account to align with SnapTrade guidance.
-const tradingLimiter = new PerKeyRateLimiter(1_000);
+const tradingLimiter = new PerKeyRateLimiter(1_000, "crypto.place");
+
+// Per-account read caches; see `readCacheKey` for how entries are scoped.
+// `attempts` is the load's SnapTrade attempt count, which every caller that
+// shared the load reports in `X-Coinage-Attempts`.
+type CachedSnaptradeResponse = ReturnType<typeof unwrapSnaptradeResponse<unknown>> & { attempts: number };
+const quoteCache = new TtlCache<CachedSnaptradeResponse>(() => env.COINAGE_QUOTE_CACHE_TTL_MS);
+const pairsCache = new TtlCache<CachedSnaptradeResponse>(() => env.COINAGE_PAIRS_CACHE_TTL_MS);
 
 /**
  * Registers all crypto-related endpoints on the supplied Hono application.
@@ -16,26 +63,20 @@ const tradingLimiter = new PerKeyRateLimiter(1_000);
  * leaving error shaping and rate limiting to small helpers.
  */
 export function registerCryptoRoutes(app: Hono) {
-  app.use("/crypto/*", async (c, next) => {
-    const secret = env.COINAGE_TS_SHARED_SECRET;
-    if (!secret) {
-      return next();
-    }
-    const provided = c.req.header("X-Coinage-TS-Secret");
-    if (provided !== secret) {
-      logWarn("snaptrade.crypto.auth.error", { route: c.req.path, reason: "missing_or_invalid_secret" });
-      return c.json(
-        {
-          error: "unauthorized",
-          message: "Missing or invalid shared secret."
-        },
-        401
-      );
-    }
-    return next();
-  });
-
-  app.get("/crypto/pairs", async (c) => {
+  app.use("/crypto/*", requireSignedRequest("snaptrade.crypto.auth.error"));
+  // Order-changing routes stop while the kill switch halts crypto trading.
+  for (const path of ["/crypto/place", "/crypto/replace"]) {
+    app.use(path, requireTradingEnabled("crypto", "snaptrade.crypto.halted"));
+  }
+  // Paper requests preview and place against the simulated broker; it has no
+  // replace, so paper replaces are refused.
+  app.use("/crypto/preview", paperTradingMode(true));
+  app.use("/crypto/place", paperTradingMode(true));
+  app.use("/crypto/replace", paperTradingMode(false));
+
+  // Pair search and quotes are low priority: when SnapTrade's partner budget runs
+  // low they are shed so placement and order detail keep working.
+  app.get("/crypto/pairs", requireUpstreamBudget("snaptrade.crypto.search.budget_low"), async (c) => {
     const paramsResult = parseQuery<PairQuery>(c, pairQuerySchema);
     if (paramsResult instanceof Response) {
       return paramsResult;
@@ -52,32 +93,38 @@ export function registerCryptoRoutes(app: Hono) {
     });
 
     try {
-      const result = await snaptrade.trading.searchCryptocurrencyPairInstruments({
-        accountId: params.accountId,
-        userId: params.userId,
-        userSecret: params.userSecret,
-        base: params.base,
-        quote: params.quote
-      });
+      const cacheKey = readCacheKey(params.accountId, params.userId, params.userSecret, params.base ?? "", params.quote ?? "");
+      const cached = await pairsCache.getOrLoad(cacheKey, () =>
+        loadWithRetries("searchCryptocurrencyPairInstruments", () =>
+          snaptrade.trading.searchCryptocurrencyPairInstruments({
+            accountId: params.accountId,
+            userId: params.userId,
+            userSecret: params.userSecret,
+            base: params.base,
+            quote: params.quote
+          })
+        )
+      );
 
-      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
-      propagateRequestId(c, requestId);
-      propagateRateLimitHeaders(c, headers);
+      const { data, requestId } = cached.value;
+      propagateCachedResponse(c, cached);
       // Pair count is enough for debugging; avoid logging entire payload to keep logs lean.
       logInfo("snaptrade.crypto.search.response", {
         user,
         account,
         count: Array.isArray(data) ? data.length : undefined,
-        requestId
+        requestId,
+        cache: cached.status
       });
       return c.json(data);
     } catch (error) {
       logWarn("snaptrade.crypto.search.error", { user, account, message: (error as Error)?.message });
+      propagateFailedAttempts(c, error);
       return handleSnaptradeError(c, error);
     }
   });
 
-  app.get("/crypto/quote", async (c) => {
+  app.get("/crypto/quote", requireUpstreamBudget("snaptrade.crypto.quote.budget_low"), async (c) => {
     const paramsResult = parseQuery<QuoteQuery>(c, quoteQuerySchema);
     if (paramsResult instanceof Response) {
       return paramsResult;
@@ -92,25 +139,24 @@ export function registerCryptoRoutes(app: Hono) {
     });
 
     try {
-      const result = await snaptrade.trading.getCryptocurrencyPairQuote({
-        accountId: params.accountId,
-        instrumentSymbol: params.instrumentSymbol,
-        userId: params.userId,
-        userSecret: params.userSecret
-      });
+      // Many UI sessions poll the same pair; a short per-account cache plus
+      // coalescing turns those polls into one SnapTrade call.
+      const cached = await loadPairQuote(params);
 
-      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
-      propagateRequestId(c, requestId);
-      propagateRateLimitHeaders(c, headers);
+      const { data, requestId } = cached.value;
+      propagateCachedResponse(c, cached);
       logInfo("snaptrade.crypto.quote.response", {
         user,
         account,
         pair: params.instrumentSymbol,
-        requestId
+        requestId,
+        cache: cached.status,
+        cacheAgeMs: cached.ageMs
       });
       return c.json(data);
     } catch (error) {
       logWarn("snaptrade.crypto.quote.error", { user, account, message: (error as Error)?.message });
+      propagateFailedAttempts(c, error);
       return handleSnaptradeError(c, error);
     }
   });
@@ -131,13 +177,20 @@ export function registerCryptoRoutes(app: Hono) {
       ...summarizeOrder(payload)
     });
 
+    const riskResult = await checkCryptoRisk(c, payload, "snaptrade.crypto.preview", "evaluate");
+    if (riskResult instanceof Response) {
+      return riskResult;
+    }
+
     try {
-      const result = await snaptrade.trading.previewCryptoOrder({
-        accountId: payload.accountId,
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        ...orderRequest
-      });
+      const result = await tradingCall(c, "previewCryptoOrder", (trading) =>
+        trading.previewCryptoOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...orderRequest
+        })
+      );
 
       const { data, requestId, headers } = unwrapSnaptradeResponse(result);
       propagateRequestId(c, requestId);
@@ -156,7 +209,9 @@ export function registerCryptoRoutes(app: Hono) {
     }
   });
 
-  app.post("/crypto/place", async (c) => {
+  // Placement is the one crypto call with side effects, so retries from Java are
+  // deduplicated via `Idempotency-Key`.
+  app.post("/crypto/place", idempotency("crypto.place"), async (c) => {
     const payloadResult = await parseJsonBody<OrderPayload>(c, orderSchema);
     if (payloadResult instanceof Response) {
       return payloadResult;
@@ -171,34 +226,28 @@ export function registerCryptoRoutes(app: Hono) {
       ...summarizeOrder(payload)
     });
 
-    const limiterKey = `${payload.accountId}:${payload.userId}`;
-    const limiterResult = tradingLimiter.tryAcquire(limiterKey);
+    // Risk first, so a rejected order does not take the account's throttle slot.
+    const risk = await checkCryptoRisk(c, payload, "snaptrade.crypto.place", "admit");
+    if (risk instanceof Response) {
+      return risk;
+    }
 
-    if (!limiterResult.allowed) {
-      logWarn("snaptrade.crypto.place.rate_limited", {
-        user,
-        account,
-        retryAfterMs: limiterResult.retryAfterMs
-      });
-      // Returning HTTP 429 makes the retry semantics explicit for callers.
-      c.header("Retry-After", Math.max(1, Math.ceil(limiterResult.retryAfterMs / 1000)).toString());
-      return c.json(
-        {
-          error: "rate_limited",
-          message: "Crypto order placement is limited to one request per second per account.",
-          retryAfterMs: limiterResult.retryAfterMs
-        },
-        429
-      );
+    const limited = await enforceCryptoRateLimit(c, payload, "snaptrade.crypto.place");
+    if (limited) {
+      risk.release();
+      return limited;
     }
 
     try {
-      const result = await snaptrade.trading.placeCryptoOrder({
-        accountId: payload.accountId,
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        ...orderRequest
-      });
+      markPlacementSent(c);
+      const result = await tradingCall(c, "placeCryptoOrder", (trading) =>
+        trading.placeCryptoOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...orderRequest
+        })
+      );
 
       const { data, requestId, headers } = unwrapSnaptradeResponse(result);
       propagateRequestId(c, requestId);
@@ -214,6 +263,73 @@ export function registerCryptoRoutes(app: Hono) {
       return c.json(data);
     } catch (error) {
       logWarn("snaptrade.crypto.place.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
+      return handleSnaptradeError(c, error);
+    }
+  });
+  // Moves a resting order's price or size in one SnapTrade call instead of a
+  // cancel-then-place from Java. Shares placement's throttle and idempotency
+  // because the brokerage treats it as a new order.
+  app.post("/crypto/replace", idempotency("crypto.replace"), async (c) => {
+    const payloadResult = await parseJsonBody<CryptoReplacePayload>(c, cryptoReplaceSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.crypto.replace.request", {
+      user,
+      account,
+      brokerageOrderId: payload.brokerage_order_id,
+      pair: payload.instrument.symbol,
+      orderType: payload.type,
+      amount: payload.amount,
+      limitPrice: payload.limit_price ?? null,
+      stopPrice: payload.stop_price ?? null
+    });
+
+    const risk = await checkCryptoRisk(c, payload, "snaptrade.crypto.replace", "admit");
+    if (risk instanceof Response) {
+      return risk;
+    }
+
+    const limited = await enforceCryptoRateLimit(c, payload, "snaptrade.crypto.replace");
+    if (limited) {
+      risk.release();
+      return limited;
+    }
+
+    try {
+      markPlacementSent(c);
+      const result = await withCircuitBreaker("replaceOrder", () =>
+        snaptrade.trading.replaceOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...buildReplaceForm(payload)
+        })
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      const replaced = replacedOrderResponse(payload.brokerage_order_id, data);
+      logInfo("snaptrade.crypto.replace.response", {
+        user,
+        account,
+        requestId,
+        previousBrokerageOrderId: replaced.previous_brokerage_order_id,
+        newBrokerageOrderId: replaced.new_brokerage_order_id
+      });
+      return c.json(replaced);
+    } catch (error) {
+      logWarn("snaptrade.crypto.replace.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
       return handleSnaptradeError(c, error);
     }
   });
@@ -226,6 +342,182 @@ export function resetCryptoRateLimiterForTests() {
   tradingLimiter.reset();
 }
 
+/**
+ * Testing hook to drop cached quotes and pair searches between specs.
+ */
+export function resetCryptoCachesForTests() {
+  quoteCache.clear();
+  pairsCache.clear();
+}
+
+/**
+ * Credentials are part of the key so a caller with a wrong `userSecret` can
+ * never be served another caller's cached data; hashing keeps secrets out of
+ * the in-memory map.
+ */
+function readCacheKey(...parts: string[]) {
+  return createHash("sha256").update(parts.join("\n")).digest("hex");
+}
+
+// Failed loads are never cached, so their attempt count rides on the error to
+// the callers that coalesced onto them.
+const failedLoadAttempts = new WeakMap<object, number>();
+
+/**
+ * Loader for the read caches: the SnapTrade call with read retries, its
+ * response unwrapped and tagged with the number of attempts it took.
+ */
+async function loadWithRetries(operation: ReadOperation, fn: () => Promise<unknown>): Promise<CachedSnaptradeResponse> {
+  let attempts = 0;
+  try {
+    const result = await withReadRetries(operation, fn, (attempt) => {
+      attempts = attempt;
+    });
+    return { ...unwrapSnaptradeResponse(result), attempts };
+  } catch (error) {
+    if (error && typeof error === "object") {
+      failedLoadAttempts.set(error, attempts);
+    }
+    throw error;
+  }
+}
+
+function propagateFailedAttempts(c: Context, error: unknown) {
+  const attempts = error && typeof error === "object" ? failedLoadAttempts.get(error) : undefined;
+  if (attempts !== undefined) {
+    c.header(ATTEMPTS_HEADER, String(attempts));
+  }
+}
+
+/**
+ * Relays a (possibly cached) SnapTrade response's metadata. Misses and
+ * coalesced callers report the shared load's attempt count. Cache hits made no
+ * SnapTrade call, so they carry no attempt count, and they keep the original
+ * request id for traceability but skip the rate-limit headers, which would be
+ * stale and would feed old counters into the budget tracker.
+ */
+function propagateCachedResponse(c: Context, cached: CacheResult<CachedSnaptradeResponse>) {
+  propagateRequestId(c, cached.value.requestId);
+  if (cached.status !== "hit") {
+    c.header(ATTEMPTS_HEADER, String(cached.value.attempts));
+    propagateRateLimitHeaders(c, cached.value.headers);
+  }
+  c.header(CACHE_STATUS_HEADER, cached.status.toUpperCase());
+  c.header(CACHE_AGE_HEADER, String(cached.ageMs));
+}
+
+/**
+ * Cached pair quote, shared by `/crypto/quote` and the risk checks' pricing.
+ */
+function loadPairQuote(params: QuoteQuery) {
+  const cacheKey = readCacheKey(params.accountId, params.userId, params.userSecret, params.instrumentSymbol);
+  return quoteCache.getOrLoad(cacheKey, () =>
+    loadWithRetries("getCryptocurrencyPairQuote", () =>
+      snaptrade.trading.getCryptocurrencyPairQuote({
+        accountId: params.accountId,
+        instrumentSymbol: params.instrumentSymbol,
+        userId: params.userId,
+        userSecret: params.userSecret
+      })
+    )
+  );
+}
+
+/**
+ * Runs the pre-trade risk checks. Market orders are priced from the pair
+ * quote (ask for buys, bid for sells) when a notional limit needs it. `admit`
+ * also counts the order against the daily limit; call `release` if it is not
+ * placed after all. Returns the response to send when the order is rejected.
+ */
+async function checkCryptoRisk(
+  c: Context,
+  payload: OrderPayload | CryptoReplacePayload,
+  eventPrefix: string,
+  mode: "evaluate" | "admit"
+): Promise<Response | { release: () => void }> {
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  const limitPrice = payload.limit_price ?? payload.stop_price;
+  const order: RiskOrder = {
+    accountId: payload.accountId,
+    assetClass: "crypto",
+    symbols: [payload.instrument.symbol],
+    quantity: Number(payload.amount),
+    price: limitPrice !== undefined ? Number(limitPrice) : undefined
+  };
+
+  if (needsReferencePrice(order)) {
+    try {
+      const { value } = await loadPairQuote({ ...payload, instrumentSymbol: payload.instrument.symbol });
+      const quote = value.data as { bid?: unknown; ask?: unknown; mid?: unknown } | null;
+      const price = Number((payload.side === "BUY" ? quote?.ask : quote?.bid) ?? quote?.mid);
+      order.price = Number.isFinite(price) && price > 0 ? price : undefined;
+    } catch (error) {
+      logWarn(`${eventPrefix}.risk_quote.error`, { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  }
+
+  let decision: RiskAdmission | RiskDecision;
+  try {
+    decision = mode === "admit" ? await admitOrder(order) : await evaluateRisk(order);
+  } catch (error) {
+    logWarn(`${eventPrefix}.risk_unavailable`, { user, account, message: (error as Error)?.message });
+    return riskUnavailableResponse(c);
+  }
+  if (!decision.allowed) {
+    logWarn(`${eventPrefix}.risk_rejected`, { user, account, rule: decision.rule, pair: payload.instrument.symbol });
+    return riskRejectedResponse(c, decision);
+  }
+  return { release: () => {}, ...decision };
+}
+
+/**
+ * Applies the one-order-per-second-per-account throttle shared by placement
+ * and replace, queueing when the caller sent `X-Coinage-Max-Wait-Ms`. Returns
+ * the 4xx response to send when the request cannot be admitted.
+ */
+async function enforceCryptoRateLimit(
+  c: Context,
+  payload: { accountId: string; userId: string },
+  eventPrefix: string
+): Promise<Response | undefined> {
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  // Callers may opt into waiting for a slot instead of receiving an immediate 429.
+  const maxWaitMs = resolveMaxWaitMs(c.req.header(MAX_WAIT_HEADER));
+  if (maxWaitMs === undefined) {
+    return invalidMaxWaitResponse(c);
+  }
+  const limiterKey = `${payload.accountId}:${payload.userId}`;
+  const limiterResult = await tradingLimiter.acquire(limiterKey, maxWaitMs);
+
+  if (!limiterResult.allowed && limiterResult.reason === "store_unavailable") {
+    logWarn(`${eventPrefix}.rate_limited`, { user, account, reason: limiterResult.reason, message: limiterResult.message });
+    return throttleUnavailableResponse(c, limiterResult.retryAfterMs);
+  }
+  if (!limiterResult.allowed) {
+    logWarn(`${eventPrefix}.rate_limited`, {
+      user,
+      account,
+      retryAfterMs: limiterResult.retryAfterMs,
+      maxWaitMs,
+      reason: limiterResult.reason ?? null
+    });
+    // Returning HTTP 429 makes the retry semantics explicit for callers.
+    return rateLimitedResponse(
+      c,
+      limiterResult.retryAfterMs,
+      "Crypto order placement is limited to one request per second per account."
+    );
+  }
+
+  if (limiterResult.waitedMs) {
+    logInfo(`${eventPrefix}.queued`, { user, account, waitedMs: limiterResult.waitedMs });
+  }
+  return undefined;
+}
+
 /**
  * SnapTrade surfaces a partner-facing request id in the response headers.
  * Returning it to our caller makes debugging brokerage escalations easier.
@@ -255,62 +547,26 @@ function buildOrderRequest(payload: OrderPayload) {
 }
 
 /**
- * Shared query parsing helper used by the GET endpoints. When validation fails
- * the resulting HTTP response is returned directly to the caller.
- *
- * Hono exposes query parameters as `URLSearchParams`, but Zod expects a plain
- * record of strings. We normalize before validation so callers can reliably
- * send repeated keys (we keep the first value) without tripping the schema.
- */
-function parseQuery<T>(c: Context, schema: ZodType<T, any, any>): T | Response {
-  const raw = c.req.query();
-  const normalized = normalizeQueryParams(raw);
-  const parsed = schema.safeParse(normalized);
-  if (parsed.success) {
-    return parsed.data;
-  }
-  return validationError(c, parsed.error);
-}
-
-/**
- * Converts the heterogeneous query parameter shapes that Hono hands us
- * (`URLSearchParams`, array values from Node-style objects, or plain records)
- * into the `{ [key]: string }` map format that Zod expects.
- *
- * - When a parameter appears multiple times (e.g. `?foo=a&foo=b`) we retain the
- *   first occurrence so callers don't accidentally send arrays to SnapTrade.
- * - For Node/Express-style objects we collapse `string[]` values the same way.
- * - Anything else (numbers, booleans, nullish) is skipped to keep validation strict.
+ * Translates a crypto replace into SnapTrade's `ManualTradeReplaceForm`, which
+ * uses the equity order vocabulary and numeric prices.
  */
-function normalizeQueryParams(params: unknown): Record<string, string> {
-  if (!params) {
-    return {};
-  }
-
-  const normalized: Record<string, string> = {};
-
-  if (params instanceof URLSearchParams) {
-    for (const [key, value] of params.entries()) {
-      if (!(key in normalized)) {
-        normalized[key] = value;
-      }
-    }
-    return normalized;
-  }
-
-  if (typeof params !== "object") {
-    return normalized;
-  }
-
-  for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
-    if (typeof value === "string") {
-      normalized[key] = value;
-    } else if (Array.isArray(value) && value.length > 0) {
-      normalized[key] = value[0];
-    }
-  }
-
-  return normalized;
+function buildReplaceForm(payload: CryptoReplacePayload) {
+  const orderTypes = {
+    MARKET: "Market",
+    LIMIT: "Limit",
+    STOP_LOSS_MARKET: "Stop",
+    STOP_LOSS_LIMIT: "StopLimit"
+  } as const;
+  return {
+    brokerage_order_id: payload.brokerage_order_id,
+    action: payload.side,
+    order_type: orderTypes[payload.type],
+    time_in_force: payload.time_in_force,
+    symbol: payload.instrument.symbol,
+    units: Number(payload.amount),
+    ...(payload.limit_price !== undefined ? { price: Number(payload.limit_price) } : {}),
+    ...(payload.stop_price !== undefined ? { stop: Number(payload.stop_price) } : {})
+  };
 }
 
 function summarizeOrder(payload: OrderPayload) {
@@ -2,13 +2,61 @@ import type { Hono } from "hono";
 import type { Context } from "hono";
 import { ZodError, type ZodType } from "zod";
 import { snaptrade } from "../lib/snaptrade";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { withCircuitBreaker } from "../lib/circuitBreaker";
+import { ATTEMPTS_HEADER, withReadRetries } from "../lib/retry";
+import { idempotency, markPlacementSent, placementRejected } from "../lib/idempotency";
+import { requireTradingEnabled } from "../lib/killSwitch";
+import { paperTradingMode, tradingCall } from "../lib/paperTrading";
+import { requireUpstreamBudget } from "../lib/upstreamBudget";
 import { env } from "../lib/env";
-import { equityOrderSchema, equityTradeSchema, type EquityOrderPayload, type EquityTradePayload } from "../schemas/equity";
-import { handleSnaptradeError, propagateRateLimitHeaders, unwrapSnaptradeResponse, validationError } from "../utils/snaptrade";
+import { MAX_WAIT_HEADER, PerKeyRateLimiter, resolveMaxWaitMs } from "../lib/rateLimiter";
+import {
+  admitCheckedTrade,
+  admitOrder,
+  evaluateRisk,
+  needsReferencePrice,
+  rememberCheckedTrade,
+  riskChecksEnabled,
+  type RiskAdmission,
+  type RiskDecision,
+  type RiskOrder
+} from "../lib/riskChecks";
+import {
+  equityOrderSchema,
+  equityQuoteQuerySchema,
+  equityReplaceSchema,
+  equitySymbolSearchSchema,
+  equityTradeSchema,
+  quotesByTicker,
+  type EquityOrderPayload,
+  type EquityQuoteQuery,
+  type EquityReplacePayload,
+  type EquitySymbolSearchPayload,
+  type EquityTradePayload
+} from "../schemas/equity";
+import {
+  handleSnaptradeError,
+  invalidMaxWaitResponse,
+  propagateRateLimitHeaders,
+  rateLimitedResponse,
+  replacedOrderResponse,
+  riskRejectedResponse,
+  riskUnavailableResponse,
+  throttleUnavailableResponse,
+  unwrapSnaptradeResponse,
+  validationError
+} from "../utils/snaptrade";
+import { parseQuery } from "../utils/query";
+
+// Per-account pacing for equity placement. `/equity/place`, `/equity/trade`
+// and `/equity/replace` share one bucket because each sends an order to the
+// brokerage; `/options/place` joins it through the same namespace.
+const equityTradingLimiter = new PerKeyRateLimiter(env.COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS, "equity.place");
 
 /**
  * Registers equity trading routes (impact + place) that proxy to SnapTrade via the TypeScript SDK.
- * These mirror the crypto routes: shared-secret auth, strict validation, and response header passthrough.
+ * These mirror the crypto routes: signed-request auth, strict validation, and response header passthrough.
  */
 export function registerEquityRoutes(app: Hono) {
   // Build marker to confirm deployed version in logs.
@@ -16,29 +64,104 @@ export function registerEquityRoutes(app: Hono) {
     marker: "ts-equity-bridge-2025-12-11-01"
   });
 
-  // Shared-secret guard for all equity endpoints to prevent public access.
-  app.use("/equity/*", async (c, next) => {
-    const secret = env.COINAGE_TS_SHARED_SECRET;
-    if (!secret) {
-      return next();
+  // Signed-request guard for all equity endpoints to prevent public access.
+  app.use("/equity/*", requireSignedRequest("snaptrade.equity.auth.error"));
+  // Placement, checked trades and replacement stop while the kill switch halts
+  // equity trading. Symbol search, quotes and impact checks keep working.
+  for (const path of ["/equity/place", "/equity/trade", "/equity/replace"]) {
+    app.use(path, requireTradingEnabled("equity", "snaptrade.equity.halted"));
+  }
+  // Impact, placement and checked trades have a paper-trading simulation;
+  // replace does not, so paper replaces are refused.
+  for (const path of ["/equity/impact", "/equity/place", "/equity/trade"]) {
+    app.use(path, paperTradingMode(true));
+  }
+  app.use("/equity/replace", paperTradingMode(false));
+
+  // Symbol search scoped to what the account's brokerage can trade. Callers use
+  // it to pick a universal symbol id instead of placing by bare ticker.
+  app.post("/equity/symbols", async (c) => {
+    const payloadResult = await parseJsonBody<EquitySymbolSearchPayload>(c, equitySymbolSearchSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
     }
-    const provided = c.req.header("X-Coinage-TS-Secret");
-    if (provided !== secret) {
-      logWarn("snaptrade.equity.auth.error", { route: c.req.path, reason: "missing_or_invalid_secret" });
-      return c.json(
-        {
-          error: "unauthorized",
-          message: "Missing or invalid shared secret."
-        },
-        401
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.equity.symbols.request", { user, account, substring: payload.substring });
+
+    try {
+      const result = await searchAccountSymbols(payload, payload.substring, (attempt) =>
+        c.header(ATTEMPTS_HEADER, attempt.toString())
       );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      logInfo("snaptrade.equity.symbols.response", {
+        user,
+        account,
+        requestId,
+        count: Array.isArray(data) ? data.length : null
+      });
+      return c.json(data);
+    } catch (error) {
+      logWarn("snaptrade.equity.symbols.error", { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  });
+
+  // Bid/ask/last for several symbols in one SnapTrade call, used for
+  // notional-to-units estimates and limit-price defaults. Like the crypto
+  // quote it is shed first when the partner budget runs low.
+  app.get("/equity/quote", requireUpstreamBudget("snaptrade.equity.quote.budget_low"), async (c) => {
+    const paramsResult = parseQuery<EquityQuoteQuery>(c, equityQuoteQuerySchema, { repeated: ["symbols"] });
+    if (paramsResult instanceof Response) {
+      return paramsResult;
+    }
+    const params = paramsResult;
+    const user = userSnippet(params.userId);
+    const account = accountSnippet(params.accountId);
+    const useTicker = quotesByTicker(params);
+    logInfo("snaptrade.equity.quote.request", { user, account, symbols: params.symbols, useTicker });
+
+    try {
+      const result = await withReadRetries(
+        "getUserAccountQuotes",
+        () =>
+          snaptrade.trading.getUserAccountQuotes({
+            userId: params.userId,
+            userSecret: params.userSecret,
+            accountId: params.accountId,
+            symbols: params.symbols.join(","),
+            useTicker
+          }),
+        (attempt) => c.header(ATTEMPTS_HEADER, attempt.toString())
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      logInfo("snaptrade.equity.quote.response", {
+        user,
+        account,
+        requestId,
+        count: Array.isArray(data) ? data.length : null
+      });
+      return c.json(data);
+    } catch (error) {
+      logWarn("snaptrade.equity.quote.error", { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
     }
-    return next();
   });
 
   // Order impact (pre-check) endpoint.
   app.post("/equity/impact", async (c) => {
-    const payloadResult = await parseJsonBody<EquityOrderPayload>(c, equityOrderSchema);
+    const parsed = await parseJsonBody<EquityOrderPayload>(c, equityOrderSchema);
+    if (parsed instanceof Response) {
+      return parsed;
+    }
+    const payloadResult = await resolveOrderSymbol(c, parsed, "snaptrade.equity.impact");
     if (payloadResult instanceof Response) {
       return payloadResult;
     }
@@ -56,20 +179,36 @@ export function registerEquityRoutes(app: Hono) {
       notional: payload.notionalValue ?? null
     });
 
+    const risk = await checkEquityRisk(c, payload, parsed.symbol, "snaptrade.equity.impact", "evaluate");
+    if (risk instanceof Response) {
+      return risk;
+    }
+
     try {
       const body = buildManualTradeForm(payload);
       // Debug payload to confirm what we send to SnapTrade (no secrets included).
       logInfo("snaptrade.equity.impact.body", { user, account, body });
       // The SDK expects ManualTradeForm fields at the top level (not nested under `manualTradeForm`).
-      const result = await snaptrade.trading.getOrderImpact({
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        ...body
-      });
+      const result = await tradingCall(c, "getOrderImpact", (trading) =>
+        trading.getOrderImpact({
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...body
+        })
+      );
 
       const { data, requestId, headers } = unwrapSnaptradeResponse(result);
       propagateRequestId(c, requestId);
       propagateRateLimitHeaders(c, headers);
+      const tradeId = (data as any)?.trade?.id;
+      if (typeof tradeId === "string" && riskChecksEnabled()) {
+        // `/equity/trade` only gets the trade id, so keep what was checked here.
+        // If the store is down the impact still answers; the trade is then
+        // refused as `unchecked_trade`.
+        await rememberCheckedTrade(tradeId, payload.accountId, risk.notional).catch((error) => {
+          logWarn("snaptrade.equity.impact.risk_unavailable", { user, account, message: (error as Error)?.message });
+        });
+      }
       logInfo("snaptrade.equity.impact.response", {
         user,
         account,
@@ -83,9 +222,16 @@ export function registerEquityRoutes(app: Hono) {
     }
   });
 
-  // Direct placement endpoint (placeForceOrder).
-  app.post("/equity/place", async (c) => {
-    const payloadResult = await parseJsonBody<EquityOrderPayload>(c, equityOrderSchema);
+  // Direct placement endpoint (placeForceOrder). Retries carrying the same
+  // `Idempotency-Key` replay the first response instead of placing again.
+  app.post("/equity/place", idempotency("equity.place"), async (c) => {
+    const parsed = await parseJsonBody<EquityOrderPayload>(c, equityOrderSchema);
+    if (parsed instanceof Response) {
+      return parsed;
+    }
+    // Resolve before taking a throttle slot: an ambiguous ticker never reaches
+    // the brokerage, so it should not cost the account its next order.
+    const payloadResult = await resolveOrderSymbol(c, parsed, "snaptrade.equity.place");
     if (payloadResult instanceof Response) {
       return payloadResult;
     }
@@ -103,16 +249,30 @@ export function registerEquityRoutes(app: Hono) {
       notional: payload.notionalValue ?? null
     });
 
+    const risk = await checkEquityRisk(c, payload, parsed.symbol, "snaptrade.equity.place", "admit");
+    if (risk instanceof Response) {
+      return risk;
+    }
+
+    const limited = await enforceEquityRateLimit(c, payload, "snaptrade.equity.place");
+    if (limited) {
+      risk.release();
+      return limited;
+    }
+
     try {
       const body = buildManualTradeForm(payload);
       // Debug payload to confirm what we send to SnapTrade (no secrets included).
       logInfo("snaptrade.equity.place.body", { user, account, body });
+      markPlacementSent(c);
       // The SDK expects ManualTradeFormWithOptions fields at the top level (not nested under `manualTradeFormWithOptions`).
-      const result = await snaptrade.trading.placeForceOrder({
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        ...body
-      });
+      const result = await tradingCall(c, "placeForceOrder", (trading) =>
+        trading.placeForceOrder({
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...body
+        })
+      );
 
       const { data, requestId, headers } = unwrapSnaptradeResponse(result);
       propagateRequestId(c, requestId);
@@ -127,19 +287,22 @@ export function registerEquityRoutes(app: Hono) {
       return c.json(data);
     } catch (error) {
       logWarn("snaptrade.equity.place.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
       return handleSnaptradeError(c, error);
     }
   });
 
   // Checked-order placement endpoint (placeOrder by trade id).
-  app.post("/equity/trade", async (c) => {
+  app.post("/equity/trade", idempotency("equity.trade"), async (c) => {
     /**
      * This endpoint intentionally mirrors SnapTrade's "place checked order" call:
      *   POST /trade/{tradeId}
      *
      * Contract expectations:
      * - Input must include `tradeId` from a prior impact call (`/equity/impact`).
-     * - We require the shared secret (when configured) to keep this endpoint internal-only.
+     * - We require a signed request (when a secret is configured) to keep this endpoint internal-only.
      * - We propagate SnapTrade request-id + rate-limit headers back to the caller (Java service)
      *   so downstream logs can correlate with SnapTrade support.
      *
@@ -163,16 +326,37 @@ export function registerEquityRoutes(app: Hono) {
       waitToConfirm: payload.waitToConfirm ?? true
     });
 
+    let risk: Awaited<ReturnType<typeof admitCheckedTrade>>;
+    try {
+      risk = await admitCheckedTrade(payload.tradeId, payload.accountId);
+    } catch (error) {
+      logWarn("snaptrade.equity.trade.risk_unavailable", { user, account, message: (error as Error)?.message });
+      return riskUnavailableResponse(c);
+    }
+    if (!risk.allowed) {
+      logWarn("snaptrade.equity.trade.risk_rejected", { user, account, rule: risk.rule, tradeId: payload.tradeId });
+      return riskRejectedResponse(c, risk);
+    }
+
+    const limited = await enforceEquityRateLimit(c, payload, "snaptrade.equity.trade");
+    if (limited) {
+      risk.release();
+      return limited;
+    }
+
     try {
       // `wait_to_confirm` defaults to true in the SnapTrade SDK; we make it explicit here so:
       // - callers can override it when they need lower latency, and
       // - logs reflect the effective behavior (helpful when debugging PENDING statuses).
-      const result = await snaptrade.trading.placeOrder({
-        tradeId: payload.tradeId,
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        wait_to_confirm: payload.waitToConfirm ?? true
-      });
+      markPlacementSent(c);
+      const result = await tradingCall(c, "placeOrder", (trading) =>
+        trading.placeOrder({
+          tradeId: payload.tradeId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          wait_to_confirm: payload.waitToConfirm ?? true
+        })
+      );
 
       // The TS SDK may return either a normalized `{ data, headers }` response or raw data depending
       // on runtime/environment; unwrapSnaptradeResponse keeps route code consistent.
@@ -190,11 +374,315 @@ export function registerEquityRoutes(app: Hono) {
     } catch (error) {
       // Centralized error mapping keeps the response shape consistent with other routes.
       logWarn("snaptrade.equity.trade.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
+      return handleSnaptradeError(c, error);
+    }
+  });
+  // Replaces a resting order (new price/size/type) in a single SnapTrade call,
+  // avoiding the unprotected gap of a cancel followed by a fresh placement.
+  // It consumes a slot in the placement throttle like any other order.
+  app.post("/equity/replace", idempotency("equity.replace"), async (c) => {
+    const payloadResult = await parseJsonBody<EquityReplacePayload>(c, equityReplaceSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.equity.replace.request", {
+      user,
+      account,
+      brokerageOrderId: payload.brokerage_order_id,
+      symbol: payload.symbol ?? null,
+      orderType: payload.orderType,
+      timeInForce: payload.timeInForce,
+      units: payload.units ?? null
+    });
+
+    const risk = await checkEquityRisk(c, payload, payload.symbol, "snaptrade.equity.replace", "admit");
+    if (risk instanceof Response) {
+      return risk;
+    }
+
+    const limited = await enforceEquityRateLimit(c, payload, "snaptrade.equity.replace");
+    if (limited) {
+      risk.release();
+      return limited;
+    }
+
+    try {
+      markPlacementSent(c);
+      const result = await withCircuitBreaker("replaceOrder", () =>
+        snaptrade.trading.replaceOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...buildReplaceForm(payload)
+        })
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      const replaced = replacedOrderResponse(payload.brokerage_order_id, data);
+      logInfo("snaptrade.equity.replace.response", {
+        user,
+        account,
+        requestId,
+        previousBrokerageOrderId: replaced.previous_brokerage_order_id,
+        newBrokerageOrderId: replaced.new_brokerage_order_id
+      });
+      return c.json(replaced);
+    } catch (error) {
+      logWarn("snaptrade.equity.replace.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
       return handleSnaptradeError(c, error);
     }
   });
 }
 
+/**
+ * Testing hook to clear per-account rate-limit state between specs.
+ */
+export function resetEquityRateLimiterForTests() {
+  equityTradingLimiter.reset();
+}
+
+/**
+ * Applies the per-account equity throttle, queueing when the caller sent
+ * `X-Coinage-Max-Wait-Ms`. Returns the 429 (or 503 when the throttle's store
+ * is unreachable) to send when the request cannot be admitted, otherwise `undefined`.
+ */
+async function enforceEquityRateLimit(
+  c: Context,
+  payload: { accountId: string; userId: string },
+  eventPrefix: string
+): Promise<Response | undefined> {
+  // Callers may opt into waiting for a slot instead of receiving an immediate 429.
+  const maxWaitMs = resolveMaxWaitMs(c.req.header(MAX_WAIT_HEADER));
+  if (maxWaitMs === undefined) {
+    return invalidMaxWaitResponse(c);
+  }
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  const limiterResult = await equityTradingLimiter.acquire(`${payload.accountId}:${payload.userId}`, maxWaitMs);
+  if (limiterResult.allowed) {
+    if (limiterResult.waitedMs) {
+      logInfo(`${eventPrefix}.queued`, { user, account, waitedMs: limiterResult.waitedMs });
+    }
+    return undefined;
+  }
+  if (limiterResult.reason === "store_unavailable") {
+    logWarn(`${eventPrefix}.rate_limited`, {
+      user,
+      account,
+      reason: limiterResult.reason,
+      message: limiterResult.message
+    });
+    return throttleUnavailableResponse(c, limiterResult.retryAfterMs);
+  }
+  logWarn(`${eventPrefix}.rate_limited`, {
+    user,
+    account,
+    retryAfterMs: limiterResult.retryAfterMs,
+    maxWaitMs,
+    reason: limiterResult.reason ?? null
+  });
+  return rateLimitedResponse(
+    c,
+    limiterResult.retryAfterMs,
+    `Equity order placement is limited to one request every ${env.COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS}ms per account.`
+  );
+}
+
+/**
+ * Runs the pre-trade risk checks. `ticker` is the symbol the caller sent,
+ * which resolution may have swapped for a universal symbol id; both are
+ * matched against the allow/deny lists. The deny list holds tickers, so while
+ * it is set an order naming only a universal symbol id has the id resolved to
+ * its ticker from the account's quote, and an order whose ticker cannot be
+ * determined is rejected. Orders sized in units without a price are priced
+ * from that quote (ask for buys, bid for sells, else last trade) when a
+ * notional limit needs it. Replacements are checked on the symbol, units and
+ * price they carry; a replacement that omits what a rule needs is rejected.
+ * `admit` also counts the order against the daily limit; call `release` if it
+ * is not placed after all.
+ */
+async function checkEquityRisk(
+  c: Context,
+  payload: EquityOrderPayload | EquityReplacePayload,
+  ticker: string | undefined,
+  eventPrefix: string,
+  mode: "evaluate" | "admit"
+): Promise<Response | { notional: number | undefined; release: () => void }> {
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  const price = payload.price ?? payload.stop;
+  // Replacements name neither; they are checked on the symbol and size they state.
+  const { universalSymbolId, notionalValue } = "brokerage_order_id" in payload ? {} : payload;
+  const quoteSymbol = payload.symbol ?? universalSymbolId;
+  let quote: any;
+  const loadQuote = async () => {
+    const result = await withReadRetries("getUserAccountQuotes", () =>
+      snaptrade.trading.getUserAccountQuotes({
+        userId: payload.userId,
+        userSecret: payload.userSecret,
+        accountId: payload.accountId,
+        symbols: quoteSymbol!,
+        useTicker: payload.symbol !== undefined
+      })
+    );
+    [quote] = (unwrapSnaptradeResponse(result).data as any[] | null) ?? [];
+  };
+
+  let knownTicker = ticker ?? payload.symbol;
+  if (knownTicker === undefined && env.COINAGE_RISK_EQUITY_SYMBOL_DENYLIST.length > 0) {
+    if (quoteSymbol !== undefined) {
+      try {
+        await loadQuote();
+      } catch (error) {
+        logWarn(`${eventPrefix}.risk_quote.error`, { user, account, message: (error as Error)?.message });
+        return handleSnaptradeError(c, error);
+      }
+      const resolved = quote?.symbol?.symbol;
+      knownTicker = typeof resolved === "string" && resolved !== "" ? resolved : undefined;
+    }
+    if (knownTicker === undefined) {
+      logWarn(`${eventPrefix}.risk_rejected`, { user, account, rule: "symbol_denylist", symbols: [quoteSymbol ?? null] });
+      return riskRejectedResponse(c, {
+        rule: "symbol_denylist",
+        message: `Unable to determine the ticker of ${quoteSymbol ?? "this order"} to check the deny list.`
+      });
+    }
+  }
+
+  const order: RiskOrder = {
+    accountId: payload.accountId,
+    assetClass: "equity",
+    symbols: [knownTicker, payload.symbol, universalSymbolId].filter((s): s is string => !!s),
+    quantity: payload.units,
+    notional: notionalValue !== undefined ? Number(notionalValue) : undefined,
+    price: price !== undefined ? Number(price) : undefined
+  };
+
+  if (quoteSymbol !== undefined && needsReferencePrice(order)) {
+    try {
+      if (quote === undefined) {
+        await loadQuote();
+      }
+      const quoted = Number((payload.action === "BUY" ? quote?.ask_price : quote?.bid_price) || quote?.last_trade_price);
+      order.price = Number.isFinite(quoted) && quoted > 0 ? quoted : undefined;
+    } catch (error) {
+      logWarn(`${eventPrefix}.risk_quote.error`, { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  }
+
+  let decision: RiskAdmission | RiskDecision;
+  try {
+    decision = mode === "admit" ? await admitOrder(order) : await evaluateRisk(order);
+  } catch (error) {
+    logWarn(`${eventPrefix}.risk_unavailable`, { user, account, message: (error as Error)?.message });
+    return riskUnavailableResponse(c);
+  }
+  if (!decision.allowed) {
+    logWarn(`${eventPrefix}.risk_rejected`, { user, account, rule: decision.rule, symbols: order.symbols });
+    return riskRejectedResponse(c, decision);
+  }
+  return { release: () => {}, ...decision };
+}
+
+function searchAccountSymbols(
+  payload: { accountId: string; userId: string; userSecret: string },
+  substring: string,
+  onAttempt?: (attempt: number) => void
+) {
+  return withReadRetries(
+    "symbolSearchUserAccount",
+    () =>
+      snaptrade.referenceData.symbolSearchUserAccount({
+        userId: payload.userId,
+        userSecret: payload.userSecret,
+        accountId: payload.accountId,
+        substring
+      }),
+    onAttempt
+  );
+}
+
+/**
+ * Swaps `symbol` for a verified `universalSymbolId` when the caller asked for
+ * `resolveSymbol`. SnapTrade's search matches substrings, so only exact ticker
+ * matches count as candidates. No match is a 422; more than one (the same
+ * ticker on several exchanges) is a 409 listing the candidates so the caller
+ * can retry with the id it means. Returns the payload to send on, or the error
+ * response.
+ */
+async function resolveOrderSymbol(
+  c: Context,
+  payload: EquityOrderPayload,
+  eventPrefix: string
+): Promise<EquityOrderPayload | Response> {
+  if (!payload.resolveSymbol || !payload.symbol) {
+    return payload;
+  }
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  const ticker = payload.symbol.toUpperCase();
+
+  let symbols: unknown;
+  try {
+    const { data, requestId } = unwrapSnaptradeResponse(await searchAccountSymbols(payload, payload.symbol));
+    symbols = data;
+    logInfo(`${eventPrefix}.symbol_search`, { user, account, symbol: payload.symbol, requestId });
+  } catch (error) {
+    logWarn(`${eventPrefix}.symbol_search.error`, { user, account, message: (error as Error)?.message });
+    return handleSnaptradeError(c, error);
+  }
+
+  const candidates = (Array.isArray(symbols) ? symbols : [])
+    .filter((s: any) => s?.symbol?.toUpperCase() === ticker || s?.raw_symbol?.toUpperCase() === ticker)
+    .map((s: any) => ({
+      universalSymbolId: s.id as string,
+      symbol: s.symbol ?? null,
+      raw_symbol: s.raw_symbol ?? null,
+      description: s.description ?? null,
+      exchange: s.exchange?.code ?? null,
+      mic_code: s.exchange?.mic_code ?? null,
+      currency: s.currency?.code ?? null,
+      type: s.type?.code ?? null
+    }));
+
+  if (candidates.length === 1) {
+    const universalSymbolId = candidates[0]!.universalSymbolId;
+    logInfo(`${eventPrefix}.symbol_resolved`, { user, account, symbol: payload.symbol, universalSymbolId });
+    return { ...payload, symbol: undefined, universalSymbolId };
+  }
+
+  logWarn(`${eventPrefix}.symbol_unresolved`, { user, account, symbol: payload.symbol, matches: candidates.length });
+  if (candidates.length === 0) {
+    return c.json(
+      {
+        error: "symbol_not_found",
+        message: `No symbol matching ${payload.symbol} is tradable in this account.`
+      },
+      422
+    );
+  }
+  return c.json(
+    {
+      error: "ambiguous_symbol",
+      message: `${payload.symbol} matches ${candidates.length} symbols in this account; send universalSymbolId instead.`,
+      candidates
+    },
+    409
+  );
+}
+
 /**
  * Build a lean ManualTradeFormWithOptions payload, omitting undefined fields so
  * we send the smallest possible body to SnapTrade.
@@ -219,6 +707,24 @@ function buildManualTradeForm(payload: EquityOrderPayload) {
   };
 }
 
+/**
+ * Build SnapTrade's ManualTradeReplaceForm, omitting fields the caller left
+ * out so the brokerage keeps the original order's values for them.
+ */
+function buildReplaceForm(payload: EquityReplacePayload) {
+  const toNumber = (v: string | number) => (typeof v === "string" ? Number(v) : v);
+  return {
+    brokerage_order_id: payload.brokerage_order_id,
+    action: payload.action,
+    order_type: payload.orderType,
+    time_in_force: payload.timeInForce,
+    ...(payload.symbol ? { symbol: payload.symbol } : {}),
+    ...(payload.units != null ? { units: payload.units } : {}),
+    ...(payload.price != null ? { price: toNumber(payload.price) } : {}),
+    ...(payload.stop != null ? { stop: toNumber(payload.stop) } : {})
+  };
+}
+
 /**
  * Parses and validates JSON bodies for POST endpoints. Any parsing or schema
  * issues are surfaced to the client through a standardised error shape.
@@ -0,0 +1,15 @@
+import type { Hono } from "hono";
+import { buildOpenApiDocument } from "../lib/openapi";
+
+/**
+ * Serves the OpenAPI document. It holds no secrets, so it sits outside the
+ * signed prefixes and client generators can fetch it directly.
+ */
+export function registerOpenApiRoutes(app: Hono) {
+  let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+  app.get("/openapi.json", (c) => {
+    document ??= buildOpenApiDocument();
+    return c.json(document);
+  });
+}
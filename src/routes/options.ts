@@ -0,0 +1,324 @@
+import type { Hono } from "hono";
+import type { Context } from "hono";
+import { ZodError, type ZodType } from "zod";
+import { snaptrade } from "../lib/snaptrade";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { withCircuitBreaker } from "../lib/circuitBreaker";
+import { ATTEMPTS_HEADER, withReadRetries } from "../lib/retry";
+import { idempotency, markPlacementSent, placementRejected } from "../lib/idempotency";
+import { requireTradingEnabled } from "../lib/killSwitch";
+import { paperTradingMode } from "../lib/paperTrading";
+import { requireUpstreamBudget } from "../lib/upstreamBudget";
+import { env } from "../lib/env";
+import { MAX_WAIT_HEADER, PerKeyRateLimiter, resolveMaxWaitMs } from "../lib/rateLimiter";
+import { admitOrder, type RiskAdmission, type RiskDecision } from "../lib/riskChecks";
+import {
+  optionChainQuerySchema,
+  optionOrderSchema,
+  parseOccSymbol,
+  type OptionChainQuery,
+  type OptionOrderPayload
+} from "../schemas/options";
+import {
+  handleSnaptradeError,
+  invalidMaxWaitResponse,
+  propagateRateLimitHeaders,
+  rateLimitedResponse,
+  riskRejectedResponse,
+  riskUnavailableResponse,
+  throttleUnavailableResponse,
+  unwrapSnaptradeResponse,
+  validationError
+} from "../utils/snaptrade";
+import { parseQuery } from "../utils/query";
+import { logInfo, logWarn } from "../utils/logging";
+
+// Option orders go to the same brokerage account as equity orders, so they
+// draw from the equity placement bucket: same namespace, same shared store.
+const optionsTradingLimiter = new PerKeyRateLimiter(env.COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS, "equity.place");
+
+/**
+ * Registers option chain lookup and single/multi-leg option order routes.
+ * Same conventions as the equity routes: signed-request auth, strict
+ * validation, SnapTrade errors and headers passed through unchanged.
+ */
+export function registerOptionsRoutes(app: Hono) {
+  app.use("/options/*", requireSignedRequest("snaptrade.options.auth.error"));
+  // Option orders land in the equity account, so an equity halt stops them too.
+  app.use("/options/place", requireTradingEnabled("equity", "snaptrade.options.halted"));
+  // The paper-trading simulator does not model options.
+  app.use("/options/place", paperTradingMode(false));
+
+  // Chains are large and only feed UI pickers, so they are shed first when
+  // the partner budget runs low.
+  app.get("/options/chain", requireUpstreamBudget("snaptrade.options.chain.budget_low"), async (c) => {
+    const paramsResult = parseQuery<OptionChainQuery>(c, optionChainQuerySchema);
+    if (paramsResult instanceof Response) {
+      return paramsResult;
+    }
+    const params = paramsResult;
+    const user = userSnippet(params.userId);
+    const account = accountSnippet(params.accountId);
+    logInfo("snaptrade.options.chain.request", { user, account, symbol: params.symbol });
+
+    try {
+      const result = await withReadRetries(
+        "getOptionsChain",
+        () =>
+          snaptrade.options.getOptionsChain({
+            userId: params.userId,
+            userSecret: params.userSecret,
+            accountId: params.accountId,
+            symbol: params.symbol
+          }),
+        (attempt) => c.header(ATTEMPTS_HEADER, String(attempt))
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      logInfo("snaptrade.options.chain.response", {
+        user,
+        account,
+        symbol: params.symbol,
+        requestId,
+        expirations: Array.isArray(data) ? data.length : null
+      });
+      return c.json(data);
+    } catch (error) {
+      logWarn("snaptrade.options.chain.error", { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  });
+
+  // SnapTrade has no impact check for multi-leg orders, so this is a dry run:
+  // it validates the order and returns exactly what `/options/place` would
+  // send, with each OCC symbol decoded for a confirmation screen. It never
+  // calls SnapTrade.
+  app.post("/options/impact", async (c) => {
+    const payloadResult = await parseJsonBody<OptionOrderPayload>(c, optionOrderSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    logInfo("snaptrade.options.impact.request", {
+      user: userSnippet(payload.userId),
+      account: accountSnippet(payload.accountId),
+      ...summarizeOrder(payload)
+    });
+
+    return c.json({
+      order: buildMlegTradeForm(payload),
+      legs: payload.legs.map((leg) => ({
+        symbol: leg.instrument.symbol,
+        instrument_type: leg.instrument.instrument_type,
+        action: leg.action,
+        units: leg.units,
+        contract: leg.instrument.instrument_type === "OPTION" ? parseOccSymbol(leg.instrument.symbol) : null
+      }))
+    });
+  });
+
+  // Places a single- or multi-leg option order (placeMlegOrder). Shares the
+  // equity placement throttle, risk rules and `Idempotency-Key` handling.
+  app.post("/options/place", idempotency("options.place"), async (c) => {
+    const payloadResult = await parseJsonBody<OptionOrderPayload>(c, optionOrderSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.options.place.request", { user, account, ...summarizeOrder(payload) });
+
+    const risk = await checkOptionsRisk(c, payload);
+    if (risk instanceof Response) {
+      return risk;
+    }
+
+    const limited = await enforceOptionsRateLimit(c, payload);
+    if (limited) {
+      risk.release();
+      return limited;
+    }
+
+    try {
+      markPlacementSent(c);
+      const result = await withCircuitBreaker("placeMlegOrder", () =>
+        snaptrade.trading.placeMlegOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          ...buildMlegTradeForm(payload)
+        })
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      logInfo("snaptrade.options.place.response", {
+        user,
+        account,
+        requestId,
+        brokerageOrderId: (data as any)?.brokerage_order_id ?? null
+      });
+      return c.json(data);
+    } catch (error) {
+      logWarn("snaptrade.options.place.error", { user, account, message: (error as Error)?.message });
+      if (placementRejected(c, error)) {
+        risk.release();
+      }
+      return handleSnaptradeError(c, error);
+    }
+  });
+}
+
+/**
+ * Testing hook to clear the options placement throttle between specs. The
+ * bucket is shared with equity, so this clears equity placement state too.
+ */
+export function resetOptionsRateLimiterForTests() {
+  optionsTradingLimiter.reset();
+}
+
+/**
+ * Holds an option order to the equity risk rules and counts it against the
+ * daily limit; call `release` if it is not placed after all. Each leg's
+ * underlying is matched against the equity allow/deny lists. Size is in
+ * shares, 100 per contract, and notional is the net limit (or stop) price
+ * times that size, so a market order cannot be valued and fails closed while a
+ * notional limit is set. Returns the response to send when it is rejected.
+ */
+async function checkOptionsRisk(c: Context, payload: OptionOrderPayload): Promise<Response | { release: () => void }> {
+  const user = userSnippet(payload.userId);
+  const account = accountSnippet(payload.accountId);
+  const underlyings = [
+    ...new Set(
+      payload.legs.map((leg) =>
+        leg.instrument.instrument_type === "OPTION" ? parseOccSymbol(leg.instrument.symbol).underlying : leg.instrument.symbol
+      )
+    )
+  ];
+  const shares = Math.max(
+    ...payload.legs.map((leg) => (leg.instrument.instrument_type === "OPTION" ? leg.units * 100 : leg.units))
+  );
+  const price = payload.limit_price ?? payload.stop_price;
+
+  let decision: RiskAdmission | RiskDecision;
+  try {
+    decision = await admitOrder({
+      accountId: payload.accountId,
+      assetClass: "equity",
+      symbols: [underlyings[0]!],
+      instruments: underlyings.map((underlying) => [underlying]),
+      quantity: shares,
+      price: price !== undefined ? Number(price) : undefined
+    });
+  } catch (error) {
+    logWarn("snaptrade.options.place.risk_unavailable", { user, account, message: (error as Error)?.message });
+    return riskUnavailableResponse(c);
+  }
+  if (!decision.allowed) {
+    logWarn("snaptrade.options.place.risk_rejected", { user, account, rule: decision.rule, symbols: underlyings });
+    return riskRejectedResponse(c, decision);
+  }
+  return { release: () => {}, ...decision };
+}
+
+async function enforceOptionsRateLimit(c: Context, payload: OptionOrderPayload): Promise<Response | undefined> {
+  const maxWaitMs = resolveMaxWaitMs(c.req.header(MAX_WAIT_HEADER));
+  if (maxWaitMs === undefined) {
+    return invalidMaxWaitResponse(c);
+  }
+  const limiterResult = await optionsTradingLimiter.acquire(`${payload.accountId}:${payload.userId}`, maxWaitMs);
+  if (limiterResult.allowed) {
+    return undefined;
+  }
+  if (limiterResult.reason === "store_unavailable") {
+    logWarn("snaptrade.options.place.rate_limited", {
+      user: userSnippet(payload.userId),
+      account: accountSnippet(payload.accountId),
+      reason: limiterResult.reason,
+      message: limiterResult.message
+    });
+    return throttleUnavailableResponse(c, limiterResult.retryAfterMs);
+  }
+  logWarn("snaptrade.options.place.rate_limited", {
+    user: userSnippet(payload.userId),
+    account: accountSnippet(payload.accountId),
+    retryAfterMs: limiterResult.retryAfterMs,
+    maxWaitMs,
+    reason: limiterResult.reason ?? null
+  });
+  return rateLimitedResponse(
+    c,
+    limiterResult.retryAfterMs,
+    `Option and equity order placement is limited to one request every ${env.COINAGE_EQUITY_ORDER_MIN_INTERVAL_MS}ms per account.`
+  );
+}
+
+/**
+ * SnapTrade's MlegTradeForm. Prices stay decimal strings, as SnapTrade takes
+ * them, and omitted fields are left out entirely.
+ */
+function buildMlegTradeForm(payload: OptionOrderPayload) {
+  return {
+    order_type: payload.order_type,
+    time_in_force: payload.time_in_force,
+    ...(payload.limit_price !== undefined ? { limit_price: payload.limit_price } : {}),
+    ...(payload.stop_price !== undefined ? { stop_price: payload.stop_price } : {}),
+    ...(payload.price_effect !== undefined ? { price_effect: payload.price_effect } : {}),
+    legs: payload.legs.map((leg) => ({
+      instrument: { symbol: leg.instrument.symbol, instrument_type: leg.instrument.instrument_type },
+      action: leg.action,
+      units: leg.units
+    }))
+  };
+}
+
+function summarizeOrder(payload: OptionOrderPayload) {
+  return {
+    orderType: payload.order_type,
+    tif: payload.time_in_force,
+    limitPrice: payload.limit_price ?? null,
+    priceEffect: payload.price_effect ?? null,
+    legs: payload.legs.map((leg) => `${leg.action} ${leg.units} ${leg.instrument.symbol}`)
+  };
+}
+
+/**
+ * Parses and validates JSON bodies for POST endpoints. Any parsing or schema
+ * issues are surfaced to the client through a standardised error shape.
+ */
+async function parseJsonBody<T>(c: Context, schema: ZodType<T, any, any>): Promise<T | Response> {
+  try {
+    const raw = await c.req.json();
+    return schema.parse(raw) as T;
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return validationError(c, error);
+    } else {
+      return c.json(
+        {
+          error: "invalid_json",
+          message: "Unable to parse request body"
+        },
+        400
+      );
+    }
+  }
+}
+
+function propagateRequestId(c: Context, requestId: string | undefined) {
+  if (requestId) {
+    c.header("X-SnapTrade-Request-ID", requestId);
+  }
+}
+
+function userSnippet(userId: string) {
+  return userId.slice(-6);
+}
+
+function accountSnippet(accountId: string) {
+  return accountId.slice(0, 8);
+}
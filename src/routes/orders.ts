@@ -1,34 +1,57 @@
 import type { Hono } from "hono";
 import { ZodError, type ZodType } from "zod";
 import type { Context } from "hono";
+import { streamSSE, type SSEMessage } from "hono/streaming";
 import { snaptrade } from "../lib/snaptrade";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { ATTEMPTS_HEADER, withReadRetries } from "../lib/retry";
+import { withCircuitBreaker } from "../lib/circuitBreaker";
 import { env } from "../lib/env";
-import { orderDetailSchema, type OrderDetailPayload } from "../schemas/orderDetail";
-import { handleSnaptradeError, propagateRateLimitHeaders, unwrapSnaptradeResponse, validationError } from "../utils/snaptrade";
+import { upstreamBudget } from "../lib/upstreamBudget";
+import { orderEvents, type OrderEvent } from "../lib/orderEvents";
+import { getPaperBroker, isPaperTrading, paperTradingMode, tradingCall } from "../lib/paperTrading";
+import {
+  orderAwaitSchema,
+  orderDetailBatchSchema,
+  orderDetailSchema,
+  orderStreamQuerySchema,
+  type OrderAwaitPayload,
+  type OrderDetailBatchPayload,
+  type OrderDetailPayload,
+  type OrderStreamQuery
+} from "../schemas/orderDetail";
+import {
+  cancelAllOrdersSchema,
+  orderCancelSchema,
+  type CancelAllOrdersPayload,
+  type OrderCancelPayload
+} from "../schemas/orderCancel";
+import { orderListSchema, type OrderListPayload } from "../schemas/orderList";
+import {
+  describeSnaptradeError,
+  handleSnaptradeError,
+  pickRateLimitHeaders,
+  propagateRateLimitHeaders,
+  unwrapSnaptradeResponse,
+  validationError
+} from "../utils/snaptrade";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { parseQuery } from "../utils/query";
 
 /**
- * Registers order-detail endpoints used by the Java backend to fetch fill
- * details (execution price/quantity) for SnapTrade-placed orders.
+ * Registers order endpoints used by the Java backend: order detail for fill
+ * details (execution price/quantity) and cancellation of open orders.
  */
 export function registerOrderRoutes(app: Hono) {
-  app.use("/orders/*", async (c, next) => {
-    const secret = env.COINAGE_TS_SHARED_SECRET;
-    if (!secret) {
-      return next();
-    }
-    const provided = c.req.header("X-Coinage-TS-Secret");
-    if (provided !== secret) {
-      logWarn("snaptrade.order_detail.auth.error", { route: c.req.path, reason: "missing_or_invalid_secret" });
-      return c.json(
-        {
-          error: "unauthorized",
-          message: "Missing or invalid shared secret."
-        },
-        401
-      );
-    }
-    return next();
-  });
+  app.use("/orders/*", requireSignedRequest("snaptrade.order_detail.auth.error"));
+  // Paper orders are read and canceled on the simulated broker's book. It has
+  // no order listing, so listing and cancel-all refuse paper requests.
+  for (const path of ["/orders/detail", "/orders/detail/batch", "/orders/await", "/orders/stream", "/orders/cancel"]) {
+    app.use(path, paperTradingMode(true));
+  }
+  for (const path of ["/orders/list", "/orders/cancel-all"]) {
+    app.use(path, paperTradingMode(false));
+  }
 
   // SnapTrade order detail proxy. Used by the Java confirmation worker to fetch
   // execution price/quantity for a single brokerage order id.
@@ -48,12 +71,9 @@ export function registerOrderRoutes(app: Hono) {
     });
 
     try {
-      const result = await snaptrade.accountInformation.getUserAccountOrderDetail({
-        accountId: payload.accountId,
-        userId: payload.userId,
-        userSecret: payload.userSecret,
-        brokerage_order_id: payload.brokerage_order_id
-      });
+      const result = await fetchOrderDetail(payload, isPaperTrading(c), (attempt) =>
+        c.header(ATTEMPTS_HEADER, String(attempt))
+      );
 
       // SDK sometimes returns `{ data, headers }`, other times raw data; normalize.
       const { data, requestId, headers } = unwrapSnaptradeResponse(result);
@@ -77,6 +97,544 @@ export function registerOrderRoutes(app: Hono) {
       return handleSnaptradeError(c, error);
     }
   });
+
+  // Batched variant for the confirmation worker: one HTTP round trip for many
+  // orders of the same user. Each order is looked up independently, so a bad
+  // id comes back as that item's SnapTrade error while the others succeed.
+  app.post("/orders/detail/batch", async (c) => {
+    const payloadResult = await parseJsonBody<OrderDetailBatchPayload>(c, orderDetailBatchSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    logInfo("snaptrade.order_detail_batch.request", { user, count: payload.orders.length });
+    const paper = isPaperTrading(c);
+
+    const results = await mapWithConcurrency(
+      payload.orders,
+      env.COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY,
+      async ({ accountId, brokerage_order_id }) => {
+        try {
+          const result = await fetchOrderDetail(
+            { accountId, userId: payload.userId, userSecret: payload.userSecret, brokerage_order_id },
+            paper
+          );
+          const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+          // Each call carries SnapTrade's latest counters; the last one written wins.
+          propagateRateLimitHeaders(c, headers);
+          return { accountId, brokerage_order_id, ok: true, status: 200, requestId: requestId ?? null, data };
+        } catch (error) {
+          const described = describeSnaptradeError(error);
+          return {
+            accountId,
+            brokerage_order_id,
+            ok: false,
+            status: described.status,
+            requestId: described.headers["X-SnapTrade-Request-ID"] ?? null,
+            error: described.body
+          };
+        }
+      }
+    );
+
+    logInfo("snaptrade.order_detail_batch.response", {
+      user,
+      count: results.length,
+      failed: results.filter((item) => !item.ok).length
+    });
+    return c.json({ results });
+  });
+
+  // Long-poll replacement for the Java confirmation worker's own polling loop:
+  // holds the request while this service polls order detail with backoff, and
+  // answers as soon as the order reaches a terminal status. A timeout is not
+  // an error; the caller gets the last state seen with `terminal: false`.
+  app.post("/orders/await", async (c) => {
+    const payloadResult = await parseJsonBody<OrderAwaitPayload>(c, orderAwaitSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    const maxWaitMs = Math.min(payload.maxWaitMs ?? env.COINAGE_ORDER_AWAIT_MAX_WAIT_MS, env.COINAGE_ORDER_AWAIT_MAX_WAIT_MS);
+    logInfo("snaptrade.order_await.request", {
+      user,
+      account,
+      brokerageOrderId: payload.brokerage_order_id,
+      maxWaitMs
+    });
+
+    const startedAt = Date.now();
+    const deadline = startedAt + maxWaitMs;
+    let delayMs = env.COINAGE_ORDER_AWAIT_POLL_MS;
+    let polls = 0;
+    const paper = isPaperTrading(c);
+    try {
+      for (;;) {
+        polls++;
+        const { data, requestId, headers } = unwrapSnaptradeResponse(await fetchOrderDetail(payload, paper));
+        propagateRequestId(c, requestId);
+        propagateRateLimitHeaders(c, headers);
+
+        const status = (data as { status?: unknown } | null)?.status;
+        const terminal = typeof status === "string" && TERMINAL_ORDER_STATUSES.has(status);
+        const remainingMs = deadline - Date.now();
+        // Polls are repeat reads, so when the partner budget is low they wait
+        // for the window to reset instead of spending what placement needs.
+        const budget = upstreamBudget.check("low", env.COINAGE_UPSTREAM_BUDGET_FLOOR);
+        const nextDelayMs = budget.allowed ? delayMs : Math.max(delayMs, budget.retryAfterMs);
+        const done = terminal || remainingMs <= 0 || (!budget.allowed && nextDelayMs >= remainingMs);
+
+        if (done || c.req.raw.signal.aborted) {
+          const waitedMs = Date.now() - startedAt;
+          logInfo("snaptrade.order_await.response", {
+            user,
+            account,
+            requestId,
+            status: status ?? null,
+            terminal,
+            polls,
+            waitedMs
+          });
+          return c.json({ order: data, terminal, polls, waitedMs });
+        }
+
+        await Bun.sleep(Math.min(nextDelayMs, remainingMs));
+        delayMs = Math.min(delayMs * 2, env.COINAGE_ORDER_AWAIT_MAX_POLL_MS);
+      }
+    } catch (error) {
+      logWarn("snaptrade.order_await.error", { user, account, polls, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  });
+
+  // Server-Sent Events feed of order changes for one account, for the web
+  // client. Changes come from the order bus: this stream polls the orders named
+  // in `brokerage_order_id` until they are terminal, and the webhook receiver
+  // publishes whatever SnapTrade pushes. Reconnects resume from Last-Event-ID.
+  app.get("/orders/stream", async (c) => {
+    const paramsResult = parseQuery<OrderStreamQuery>(c, orderStreamQuerySchema, { repeated: ["brokerage_order_id"] });
+    if (paramsResult instanceof Response) {
+      return paramsResult;
+    }
+    const params = paramsResult;
+    const user = userSnippet(params.userId);
+    const account = accountSnippet(params.accountId);
+    const lastEventId = Number.parseInt(c.req.header("Last-Event-ID") ?? "", 10);
+    logInfo("snaptrade.order_stream.open", {
+      user,
+      account,
+      tracked: params.brokerage_order_id.length,
+      lastEventId: Number.isNaN(lastEventId) ? null : lastEventId
+    });
+
+    return streamSSE(c, async (stream) => {
+      // Bus events arrive synchronously from any producer; queue them so this
+      // loop is the only writer and events go out in id order.
+      const outbox: SSEMessage[] = [];
+      let wake: (() => void) | undefined;
+      let closed = false;
+      const enqueue = (message: SSEMessage) => {
+        outbox.push(message);
+        wake?.();
+      };
+      const unsubscribe = orderEvents.subscribe(params.accountId, (event) => enqueue(orderEventMessage(event)));
+      stream.onAbort(() => {
+        closed = true;
+        wake?.();
+      });
+
+      if (!Number.isNaN(lastEventId)) {
+        const replay = orderEvents.replaySince(params.accountId, lastEventId);
+        if (!replay.complete) {
+          // Tell the client to refetch order state; ids restart after a deploy.
+          await stream.writeSSE({ event: "reset", id: String(orderEvents.latestId()), data: "{}" });
+        }
+        for (const event of replay.events) {
+          await stream.writeSSE(orderEventMessage(event));
+        }
+        // Live events captured while replaying were already sent above.
+        const replayedThrough = replay.events.at(-1)?.id ?? lastEventId;
+        outbox.splice(0, outbox.length, ...outbox.filter((m) => !m.id || Number(m.id) > replayedThrough));
+      }
+
+      const polling = pollTrackedOrders(params, isPaperTrading(c), () => closed, enqueue);
+
+      try {
+        while (!closed) {
+          const message = outbox.shift();
+          if (message) {
+            await stream.writeSSE(message);
+            continue;
+          }
+          const woken = await new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => resolve(false), env.COINAGE_ORDER_STREAM_HEARTBEAT_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve(true);
+            };
+          });
+          wake = undefined;
+          if (!woken && !closed) {
+            // SSE comment: keeps proxies and Bun's idle timeout from closing a quiet stream.
+            await stream.write(": heartbeat\n\n");
+          }
+        }
+      } finally {
+        closed = true;
+        unsubscribe();
+        await polling;
+        logInfo("snaptrade.order_stream.close", { user, account });
+      }
+    });
+  });
+
+  // Cancels one open order of any asset type. Broker rejections (already
+  // filled, not cancellable) come back through handleSnaptradeError unchanged.
+  app.post("/orders/cancel", async (c) => {
+    const payloadResult = await parseJsonBody<OrderCancelPayload>(c, orderCancelSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.order_cancel.request", {
+      user,
+      account,
+      brokerageOrderId: payload.brokerage_order_id
+    });
+
+    try {
+      const result = await tradingCall(c, "cancelOrder", (trading) =>
+        trading.cancelOrder({
+          accountId: payload.accountId,
+          userId: payload.userId,
+          userSecret: payload.userSecret,
+          brokerage_order_id: payload.brokerage_order_id
+        })
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      logInfo("snaptrade.order_cancel.response", {
+        user,
+        account,
+        requestId,
+        brokerageOrderId: (data as any)?.brokerage_order_id ?? payload.brokerage_order_id
+      });
+      return c.json(data);
+    } catch (error) {
+      logWarn("snaptrade.order_cancel.error", {
+        user,
+        account,
+        brokerageOrderId: payload.brokerage_order_id,
+        message: (error as Error)?.message
+      });
+      return handleSnaptradeError(c, error);
+    }
+  });
+
+  // Cancels every open order in the account. SnapTrade has no bulk cancel, so
+  // this lists open orders and cancels them one at a time. A failure on one
+  // order does not stop the rest; each outcome is reported separately.
+  app.post("/orders/cancel-all", async (c) => {
+    const payloadResult = await parseJsonBody<CancelAllOrdersPayload>(c, cancelAllOrdersSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+    logInfo("snaptrade.order_cancel_all.request", { user, account });
+
+    let openOrderIds: string[];
+    try {
+      const result = await withReadRetries(
+        "getUserAccountOrders",
+        () =>
+          snaptrade.accountInformation.getUserAccountOrders({
+            accountId: payload.accountId,
+            userId: payload.userId,
+            userSecret: payload.userSecret,
+            state: "open"
+          }),
+        (attempt) => c.header(ATTEMPTS_HEADER, String(attempt))
+      );
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+      openOrderIds = (Array.isArray(data) ? data : [])
+        .map((order) => (order as { brokerage_order_id?: unknown })?.brokerage_order_id)
+        .filter((id): id is string => typeof id === "string" && id.length > 0);
+    } catch (error) {
+      logWarn("snaptrade.order_cancel_all.list_error", { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+
+    const cancelled: Array<{ brokerage_order_id: string; requestId: string | null; response: unknown }> = [];
+    const failed: Array<{ brokerage_order_id: string; status: number; requestId: string | null; error: unknown }> = [];
+    for (const brokerageOrderId of openOrderIds) {
+      try {
+        const result = await withCircuitBreaker("cancelOrder", () =>
+          snaptrade.trading.cancelOrder({
+            accountId: payload.accountId,
+            userId: payload.userId,
+            userSecret: payload.userSecret,
+            brokerage_order_id: brokerageOrderId
+          })
+        );
+        const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+        // Later calls carry fresher counters, so the last one seen wins.
+        propagateRateLimitHeaders(c, headers);
+        cancelled.push({ brokerage_order_id: brokerageOrderId, requestId: requestId ?? null, response: data });
+      } catch (error) {
+        const described = describeSnaptradeError(error);
+        failed.push({
+          brokerage_order_id: brokerageOrderId,
+          status: described.status,
+          requestId: described.headers["X-SnapTrade-Request-ID"] ?? null,
+          error: described.body
+        });
+      }
+    }
+
+    logInfo("snaptrade.order_cancel_all.response", {
+      user,
+      account,
+      requested: openOrderIds.length,
+      cancelled: cancelled.length,
+      failed: failed.length
+    });
+    return c.json({ requested: openOrderIds.length, cancelled, failed });
+  });
+  // Lists the account's orders so the confirmation worker can find orders
+  // whose placement response never reached Java. Results are sorted newest
+  // first (ties broken by brokerage order id) and paged with a keyset cursor,
+  // so orders arriving between page requests do not shift later pages.
+  app.post("/orders/list", async (c) => {
+    const payloadResult = await parseJsonBody<OrderListPayload>(c, orderListSchema);
+    if (payloadResult instanceof Response) {
+      return payloadResult;
+    }
+    const payload = payloadResult;
+    const user = userSnippet(payload.userId);
+    const account = accountSnippet(payload.accountId);
+
+    let after: OrderSortKey | undefined;
+    if (payload.cursor !== undefined) {
+      after = decodeCursor(payload.cursor);
+      if (!after) {
+        return c.json(
+          {
+            error: "invalid_cursor",
+            message: "cursor must be a nextCursor value returned by /orders/list."
+          },
+          400
+        );
+      }
+    }
+
+    logInfo("snaptrade.order_list.request", {
+      user,
+      account,
+      state: payload.state,
+      days: payload.days ?? null,
+      symbol: payload.symbol ?? null,
+      limit: payload.limit,
+      paged: after !== undefined
+    });
+
+    try {
+      const result = await withReadRetries(
+        "getUserAccountOrders",
+        () =>
+          snaptrade.accountInformation.getUserAccountOrders({
+            accountId: payload.accountId,
+            userId: payload.userId,
+            userSecret: payload.userSecret,
+            state: payload.state,
+            ...(payload.days !== undefined ? { days: payload.days } : {})
+          }),
+        (attempt) => c.header(ATTEMPTS_HEADER, String(attempt))
+      );
+
+      const { data, requestId, headers } = unwrapSnaptradeResponse(result);
+      propagateRequestId(c, requestId);
+      propagateRateLimitHeaders(c, headers);
+
+      const symbol = payload.symbol?.toUpperCase();
+      const matching = (Array.isArray(data) ? (data as AccountOrder[]) : [])
+        .filter((order) => symbol === undefined || orderSymbols(order).includes(symbol))
+        .sort((a, b) => compareSortKeys(sortKeyOf(a), sortKeyOf(b)));
+      const start = after ? matching.findIndex((order) => compareSortKeys(sortKeyOf(order), after) > 0) : 0;
+      const page = start === -1 ? [] : matching.slice(start, start + payload.limit);
+      const last = page.at(-1);
+      const hasMore = start !== -1 && start + page.length < matching.length;
+
+      logInfo("snaptrade.order_list.response", {
+        user,
+        account,
+        requestId,
+        total: matching.length,
+        returned: page.length
+      });
+      return c.json({
+        orders: page,
+        total: matching.length,
+        nextCursor: hasMore && last ? encodeCursor(sortKeyOf(last)) : null
+      });
+    } catch (error) {
+      logWarn("snaptrade.order_list.error", { user, account, message: (error as Error)?.message });
+      return handleSnaptradeError(c, error);
+    }
+  });
+}
+
+// Statuses after which SnapTrade reports no further changes to an order.
+const TERMINAL_ORDER_STATUSES = new Set([
+  "EXECUTED",
+  "CANCELED",
+  "PARTIAL_CANCELED",
+  "REJECTED",
+  "FAILED",
+  "EXPIRED",
+  "REPLACED"
+]);
+
+function orderEventMessage(event: OrderEvent): SSEMessage {
+  return { event: "order", id: String(event.id), data: JSON.stringify(event) };
+}
+
+/**
+ * Polls each tracked order's detail until it is terminal or the stream closes,
+ * publishing every snapshot to the order bus (which drops unchanged ones).
+ * Rounds are skipped while the partner budget is low. A 4xx for an order
+ * stops tracking it and tells the client; other failures are retried next round.
+ */
+async function pollTrackedOrders(
+  params: OrderStreamQuery,
+  paper: boolean,
+  isClosed: () => boolean,
+  send: (message: SSEMessage) => void
+) {
+  const pending = new Set(params.brokerage_order_id);
+  while (pending.size > 0 && !isClosed()) {
+    if (upstreamBudget.check("low", env.COINAGE_UPSTREAM_BUDGET_FLOOR).allowed) {
+      for (const brokerageOrderId of pending) {
+        if (isClosed()) {
+          return;
+        }
+        try {
+          const { data, headers } = unwrapSnaptradeResponse(
+            await fetchOrderDetail({ ...params, brokerage_order_id: brokerageOrderId }, paper)
+          );
+          // The response headers went out when the stream opened; still keep
+          // the budget tracker current.
+          if (headers) {
+            upstreamBudget.observe(pickRateLimitHeaders(headers));
+          }
+          orderEvents.publish(params.accountId, data, "poll");
+          const status = (data as { status?: unknown } | null)?.status;
+          if (typeof status === "string" && TERMINAL_ORDER_STATUSES.has(status)) {
+            pending.delete(brokerageOrderId);
+          }
+        } catch (error) {
+          const described = describeSnaptradeError(error);
+          logWarn("snaptrade.order_stream.poll_error", {
+            account: accountSnippet(params.accountId),
+            brokerageOrderId,
+            status: described.status
+          });
+          if (described.status >= 400 && described.status < 500 && described.status !== 429) {
+            pending.delete(brokerageOrderId);
+            send({
+              event: "order_error",
+              data: JSON.stringify({ brokerage_order_id: brokerageOrderId, status: described.status, error: described.body })
+            });
+          }
+        }
+      }
+    }
+    await Bun.sleep(env.COINAGE_ORDER_STREAM_POLL_MS);
+  }
+}
+
+/**
+ * Single order-detail lookup shared by `/orders/detail`, its batch variant,
+ * `/orders/await` and the order stream. Paper orders come from the simulated
+ * broker's book.
+ */
+function fetchOrderDetail(params: OrderDetailPayload, paper: boolean, onAttempt?: (attempt: number) => void) {
+  if (paper) {
+    return getPaperBroker().getUserAccountOrderDetail(params);
+  }
+  return withReadRetries(
+    "getUserAccountOrderDetail",
+    () =>
+      snaptrade.accountInformation.getUserAccountOrderDetail({
+        accountId: params.accountId,
+        userId: params.userId,
+        userSecret: params.userSecret,
+        brokerage_order_id: params.brokerage_order_id
+      }),
+    onAttempt
+  );
+}
+
+type AccountOrder = {
+  brokerage_order_id?: string;
+  time_placed?: string;
+  universal_symbol?: { symbol?: string; raw_symbol?: string };
+  option_symbol?: { ticker?: string };
+};
+
+/** `[time_placed epoch ms, brokerage_order_id]`; orders without a timestamp sort last. */
+type OrderSortKey = [number, string];
+
+function sortKeyOf(order: AccountOrder): OrderSortKey {
+  const placed = order.time_placed ? Date.parse(order.time_placed) : Number.NaN;
+  return [Number.isNaN(placed) ? 0 : placed, order.brokerage_order_id ?? ""];
+}
+
+/**
+ * Newest first, then by brokerage order id so orders placed in the same
+ * millisecond still have a total order.
+ */
+function compareSortKeys(a: OrderSortKey, b: OrderSortKey): number {
+  if (a[0] !== b[0]) {
+    return b[0] - a[0];
+  }
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+function encodeCursor(key: OrderSortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): OrderSortKey | undefined {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(key) && key.length === 2 && Number.isFinite(key[0]) && typeof key[1] === "string") {
+      return [key[0], key[1]];
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+/**
+ * Upper-cased tickers an order can be matched on: equities and crypto expose
+ * them on `universal_symbol`, options on `option_symbol`.
+ */
+function orderSymbols(order: AccountOrder): string[] {
+  return [order.universal_symbol?.symbol, order.universal_symbol?.raw_symbol, order.option_symbol?.ticker]
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .map((value) => value.toUpperCase());
 }
 
 /**
@@ -102,6 +660,12 @@ async function parseJsonBody<T>(c: Context, schema: ZodType<T, any, any>): Promi
   }
 }
 
+function propagateRequestId(c: Context, requestId: string | undefined) {
+  if (requestId) {
+    c.header("X-SnapTrade-Request-ID", requestId);
+  }
+}
+
 function userSnippet(userId: string) {
   return userId.slice(-6);
 }
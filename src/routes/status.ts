@@ -0,0 +1,19 @@
+import type { Hono } from "hono";
+import { env } from "../lib/env";
+import { requireSignedRequest } from "../lib/requestSigning";
+import { upstreamBudget } from "../lib/upstreamBudget";
+import { circuitBreakerSnapshot } from "../lib/circuitBreaker";
+
+/**
+ * Registers operational status endpoints. These expose in-process state for
+ * monitoring only and never call SnapTrade, so they are cheap to poll.
+ */
+export function registerStatusRoutes(app: Hono) {
+  app.use("/status/*", requireSignedRequest("snaptrade.status.auth.error"));
+
+  // Latest partner-wide budget observed from SnapTrade's `x-ratelimit-*` headers.
+  app.get("/status/upstream-budget", (c) => c.json(upstreamBudget.snapshot(env.COINAGE_UPSTREAM_BUDGET_FLOOR)));
+
+  // Per-operation SnapTrade circuit breaker state.
+  app.get("/status/circuit-breakers", (c) => c.json({ breakers: circuitBreakerSnapshot() }));
+}
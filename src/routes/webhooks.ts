@@ -0,0 +1,83 @@
+import type { Context, Hono } from "hono";
+import { env } from "../lib/env";
+import { orderEvents } from "../lib/orderEvents";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  forwardWebhook,
+  rememberWebhookId,
+  verifySnaptradeWebhookSignature
+} from "../lib/snaptradeWebhooks";
+import { snaptradeWebhookSchema } from "../schemas/webhook";
+import { validationError } from "../utils/snaptrade";
+import { logInfo, logWarn } from "../utils/logging";
+
+type RejectionReason = "missing_signature" | "invalid_signature" | "stale_event";
+
+/**
+ * Registers the SnapTrade webhook receiver. SnapTrade cannot sign requests
+ * the way Java does, so this route sits outside `requireSignedRequest` and
+ * checks SnapTrade's own signature instead.
+ */
+export function registerWebhookRoutes(app: Hono) {
+  app.post("/webhooks/snaptrade", async (c) => {
+    const signature = c.req.header(WEBHOOK_SIGNATURE_HEADER);
+    if (!signature) {
+      return unauthorized(c, "missing_signature");
+    }
+
+    let raw: unknown;
+    try {
+      raw = await c.req.json();
+    } catch {
+      return c.json({ error: "invalid_json", message: "Unable to parse request body" }, 400);
+    }
+    if (!verifySnaptradeWebhookSignature(raw, signature)) {
+      return unauthorized(c, "invalid_signature");
+    }
+
+    const parsed = snaptradeWebhookSchema.safeParse(raw);
+    if (!parsed.success) {
+      logWarn("snaptrade.webhook.invalid", { issues: parsed.error.issues.length });
+      return validationError(c, parsed.error);
+    }
+    const event = parsed.data;
+
+    if (Math.abs(Date.now() - Date.parse(event.eventTimestamp)) > env.COINAGE_WEBHOOK_TOLERANCE_MS) {
+      return unauthorized(c, "stale_event", event.webhookId);
+    }
+    // Only burn the id once everything else checks out, as with request nonces.
+    let firstDelivery: boolean;
+    try {
+      firstDelivery = await rememberWebhookId(event.webhookId);
+    } catch (error) {
+      // SnapTrade redelivers on a 5xx, so nothing is lost by refusing here.
+      logWarn("snaptrade.webhook.store_error", { webhookId: event.webhookId, message: (error as Error)?.message });
+      return c.json({ error: "webhook_unavailable", message: "Unable to check for duplicate webhooks." }, 503);
+    }
+    if (!firstDelivery) {
+      logWarn("snaptrade.webhook.rejected", { reason: "duplicate_event", webhookId: event.webhookId });
+      return c.json({ error: "duplicate_webhook", message: "This webhook was already received." }, 409);
+    }
+
+    logInfo("snaptrade.webhook.received", {
+      webhookId: event.webhookId,
+      eventType: event.eventType,
+      user: event.userId.slice(-6),
+      account: event.accountId?.slice(0, 8) ?? null
+    });
+
+    if (event.accountId) {
+      for (const order of event.orders ?? []) {
+        orderEvents.publish(event.accountId, order, "webhook");
+      }
+    }
+    forwardWebhook(event);
+
+    return c.json({ received: true, webhookId: event.webhookId });
+  });
+}
+
+function unauthorized(c: Context, reason: RejectionReason, webhookId?: string) {
+  logWarn("snaptrade.webhook.rejected", { reason, webhookId: webhookId ?? null });
+  return c.json({ error: "unauthorized", message: "Webhook failed verification." }, 401);
+}
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+/**
+ * Payload shared by the per-account information endpoints (balances,
+ * positions, holdings). Mirrors the parameters SnapTrade requires for each.
+ */
+export const accountRequestSchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1)
+});
+
+export type AccountRequestPayload = z.infer<typeof accountRequestSchema>;
@@ -8,6 +8,43 @@ type OrderType =
   | "TAKE_PROFIT_MARKET"
   | "TAKE_PROFIT_LIMIT";
 
+const decimalString = (field: string) =>
+  z.string().regex(/^[0-9]+(\.[0-9]+)?$/, `${field} must be a decimal string`);
+
+/**
+ * Limit/stop price requirements per order type, shared by placement and
+ * replace so both reject the same incomplete orders.
+ */
+function requireOrderPrices(
+  value: { type: OrderType; limit_price?: string; stop_price?: string },
+  ctx: z.RefinementCtx
+) {
+  // SnapTrade requires a limit price for any order that could rest on the book.
+  const needsLimit: OrderType[] = ["LIMIT", "STOP_LOSS_LIMIT", "TAKE_PROFIT_LIMIT"];
+  if (needsLimit.includes(value.type) && !value.limit_price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "limit_price is required for LIMIT and *_LIMIT orders",
+      path: ["limit_price"]
+    });
+  }
+
+  // STOP/TAKE_PROFIT orders always require a stop trigger in addition to the amount.
+  const needsStop: OrderType[] = [
+    "STOP_LOSS_MARKET",
+    "STOP_LOSS_LIMIT",
+    "TAKE_PROFIT_MARKET",
+    "TAKE_PROFIT_LIMIT"
+  ];
+  if (needsStop.includes(value.type) && !value.stop_price) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "stop_price is required for STOP_* and TAKE_PROFIT_* orders",
+      path: ["stop_price"]
+    });
+  }
+}
+
 /**
  * Query params accepted by the cryptocurrency pair discovery endpoint.
  * SnapTrade expects the UUID of the linked account plus partner-level
@@ -57,46 +94,14 @@ export const orderSchema = z
     ]),
     time_in_force: z.enum(["GTC", "FOK", "IOC", "GTD"]),
     // SnapTrade expects decimal values as strings; keep validation lightweight.
-    amount: z
-      .string()
-      .min(1)
-      .regex(/^[0-9]+(\.[0-9]+)?$/, "amount must be a decimal string"),
-    limit_price: z
-      .string()
-      .regex(/^[0-9]+(\.[0-9]+)?$/, "limit_price must be a decimal string")
-      .optional(),
-    stop_price: z
-      .string()
-      .regex(/^[0-9]+(\.[0-9]+)?$/, "stop_price must be a decimal string")
-      .optional(),
+    amount: decimalString("amount").min(1),
+    limit_price: decimalString("limit_price").optional(),
+    stop_price: decimalString("stop_price").optional(),
     post_only: z.boolean().optional(),
     expiration_date: z.string().datetime({ offset: true }).optional()
   })
   .superRefine((value, ctx) => {
-    // SnapTrade requires a limit price for any order that could rest on the book.
-    const needsLimit: OrderType[] = ["LIMIT", "STOP_LOSS_LIMIT", "TAKE_PROFIT_LIMIT"];
-    if (needsLimit.includes(value.type) && !value.limit_price) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "limit_price is required for LIMIT and *_LIMIT orders",
-        path: ["limit_price"]
-      });
-    }
-
-    // STOP/TAKE_PROFIT orders always require a stop trigger in addition to the amount.
-    const needsStop: OrderType[] = [
-      "STOP_LOSS_MARKET",
-      "STOP_LOSS_LIMIT",
-      "TAKE_PROFIT_MARKET",
-      "TAKE_PROFIT_LIMIT"
-    ];
-    if (needsStop.includes(value.type) && !value.stop_price) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "stop_price is required for STOP_* and TAKE_PROFIT_* orders",
-        path: ["stop_price"]
-      });
-    }
+    requireOrderPrices(value, ctx);
 
     // Post-only is only legal for limit orders that can rest; guard before hitting the API.
     if (value.post_only !== undefined && value.type !== "LIMIT") {
@@ -117,6 +122,32 @@ export const orderSchema = z
     }
   });
 
+/**
+ * Payload for replacing a resting crypto order. SnapTrade's `replaceOrder`
+ * speaks the equity order vocabulary, so only the order types and
+ * time-in-force values it can express are accepted here; take-profit orders
+ * and GTD must be cancelled and placed again.
+ */
+export const cryptoReplaceSchema = z
+  .object({
+    accountId: z.string().uuid(),
+    userId: z.string().min(1),
+    userSecret: z.string().min(1),
+    brokerage_order_id: z.string().min(1),
+    instrument: z.object({
+      symbol: z.string().min(1),
+      type: z.literal("CRYPTOCURRENCY_PAIR")
+    }),
+    side: z.enum(["BUY", "SELL"]),
+    type: z.enum(["MARKET", "LIMIT", "STOP_LOSS_MARKET", "STOP_LOSS_LIMIT"]),
+    time_in_force: z.enum(["GTC", "FOK", "IOC"]),
+    amount: decimalString("amount").min(1),
+    limit_price: decimalString("limit_price").optional(),
+    stop_price: decimalString("stop_price").optional()
+  })
+  .superRefine(requireOrderPrices);
+
 export type PairQuery = z.infer<typeof pairQuerySchema>;
 export type QuoteQuery = z.infer<typeof quoteQuerySchema>;
 export type OrderPayload = z.infer<typeof orderSchema>;
+export type CryptoReplacePayload = z.infer<typeof cryptoReplaceSchema>;
@@ -1,5 +1,37 @@
 import { z } from "zod";
 
+const equityOrderTypeSchema = z.enum(["Market", "Limit", "Stop", "StopLimit"]);
+const positiveDecimalSchema = z.union([z.number().finite().positive(), z.string().regex(/^[0-9]+(\.[0-9]+)?$/)]);
+
+/**
+ * Price/stop requirements based on order type. Shared by placement and
+ * replace so a modified order can never lose the price its type needs.
+ */
+function requirePriceAndStop(
+  value: { orderType: z.infer<typeof equityOrderTypeSchema>; price?: unknown; stop?: unknown },
+  ctx: z.RefinementCtx
+) {
+  const type = value.orderType;
+  if (type === "Limit" || type === "StopLimit") {
+    if (value.price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "price is required for Limit and StopLimit orders",
+        path: ["price"]
+      });
+    }
+  }
+  if (type === "Stop" || type === "StopLimit") {
+    if (value.stop === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "stop is required for Stop and StopLimit orders",
+        path: ["stop"]
+      });
+    }
+  }
+}
+
 /**
  * Shared payload for equity order impact/place requests.
  * Mirrors SnapTrade ManualTradeFormWithOptions and adds validation
@@ -11,7 +43,7 @@ export const equityOrderSchema = z
     userId: z.string().min(1),
     userSecret: z.string().min(1),
     action: z.enum(["BUY", "SELL"]),
-    orderType: z.enum(["Market", "Limit", "Stop", "StopLimit"]),
+    orderType: equityOrderTypeSchema,
     timeInForce: z.enum(["Day", "GTC", "FOK", "IOC"]),
     tradingSession: z.enum(["REGULAR", "EXTENDED"]).optional(),
     universalSymbolId: z.string().uuid().optional(),
@@ -24,13 +56,12 @@ export const equityOrderSchema = z
     notionalValue: z
       .union([z.number().finite().nonnegative(), z.string().regex(/^[0-9]+(\.[0-9]+)?$/)])
       .optional(),
-    price: z
-      .union([z.number().finite().positive(), z.string().regex(/^[0-9]+(\.[0-9]+)?$/)])
-      .optional(),
-    stop: z
-      .union([z.number().finite().positive(), z.string().regex(/^[0-9]+(\.[0-9]+)?$/)])
-      .optional(),
-    clientEventId: z.string().min(1).optional()
+    price: positiveDecimalSchema.optional(),
+    stop: positiveDecimalSchema.optional(),
+    clientEventId: z.string().min(1).optional(),
+    // Look `symbol` up in the account's symbol search and send the matching
+    // universal symbol id instead. Ignored when universalSymbolId is given.
+    resolveSymbol: z.boolean().optional()
   })
   .superRefine((value, ctx) => {
     // Require exactly one identifier: symbol xor universalSymbolId.
@@ -55,29 +86,10 @@ export const equityOrderSchema = z
       });
     }
 
-    // Price/stop requirements based on order type.
-    const type = value.orderType;
-    if (type === "Limit" || type === "StopLimit") {
-      if (value.price === undefined) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "price is required for Limit and StopLimit orders",
-          path: ["price"]
-        });
-      }
-    }
-    if (type === "Stop" || type === "StopLimit") {
-      if (value.stop === undefined) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "stop is required for Stop and StopLimit orders",
-          path: ["stop"]
-        });
-      }
-    }
+    requirePriceAndStop(value, ctx);
 
     // Notional is only allowed with Market + Day per SnapTrade docs.
-    if (hasNotional && !(type === "Market" && value.timeInForce === "Day")) {
+    if (hasNotional && !(value.orderType === "Market" && value.timeInForce === "Day")) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: "notionalValue requires orderType=Market and timeInForce=Day",
@@ -88,6 +100,61 @@ export const equityOrderSchema = z
 
 export type EquityOrderPayload = z.infer<typeof equityOrderSchema>;
 
+/**
+ * Payload for `/equity/symbols` (SnapTrade `symbolSearchUserAccount`). The
+ * search is scoped to symbols the account's brokerage can trade, which is what
+ * makes its universal symbol ids safe to place with.
+ */
+export const equitySymbolSearchSchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  substring: z.string().min(1)
+});
+
+export type EquitySymbolSearchPayload = z.infer<typeof equitySymbolSearchSchema>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Query for `/equity/quote` (SnapTrade `getUserAccountQuotes`). `symbols` may
+ * be repeated and/or comma separated; SnapTrade takes either tickers or
+ * universal symbol ids per call, so a list must not mix the two.
+ */
+export const equityQuoteQuerySchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  symbols: z.preprocess(
+    (value) => {
+      const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+      const split = values.flatMap((v) => (typeof v === "string" ? v.split(",") : [v]));
+      return [...new Set(split.map((v) => (typeof v === "string" ? v.trim() : v)).filter((v) => v !== ""))];
+    },
+    z
+      .array(z.string())
+      .min(1)
+      .refine(
+        (symbols) => new Set(symbols.map((s) => UUID_PATTERN.test(s))).size === 1,
+        "symbols must be all tickers or all universal symbol ids"
+      )
+      .meta({
+        description:
+          "Tickers or universal symbol ids (not both). Repeat the parameter and/or separate values with commas."
+      })
+  )
+});
+
+export type EquityQuoteQuery = z.infer<typeof equityQuoteQuerySchema>;
+
+/**
+ * Whether a validated quote query names tickers (as opposed to universal
+ * symbol ids), which SnapTrade needs to be told via `use_ticker`.
+ */
+export function quotesByTicker(query: EquityQuoteQuery): boolean {
+  return !UUID_PATTERN.test(query.symbols[0]!);
+}
+
 /**
  * Payload for placing a previously checked equity order by trade id.
  *
@@ -118,3 +185,28 @@ export const equityTradeSchema = z.object({
 });
 
 export type EquityTradePayload = z.infer<typeof equityTradeSchema>;
+
+/**
+ * Payload for replacing a resting equity order (SnapTrade `replaceOrder`).
+ * The replacement carries the full new order terms; SnapTrade applies the
+ * cancel-and-place at the brokerage, so there is no gap on our side. Only
+ * `symbol` and `units` may be omitted, in which case the brokerage keeps the
+ * original order's values.
+ */
+export const equityReplaceSchema = z
+  .object({
+    accountId: z.string().uuid(),
+    userId: z.string().min(1),
+    userSecret: z.string().min(1),
+    brokerage_order_id: z.string().min(1),
+    action: z.enum(["BUY", "SELL"]),
+    orderType: equityOrderTypeSchema,
+    timeInForce: z.enum(["Day", "GTC", "FOK", "IOC"]),
+    symbol: z.string().min(1).optional(),
+    units: z.number().finite().positive().optional(),
+    price: positiveDecimalSchema.optional(),
+    stop: positiveDecimalSchema.optional()
+  })
+  .superRefine(requirePriceAndStop);
+
+export type EquityReplacePayload = z.infer<typeof equityReplaceSchema>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+export const KILL_SWITCH_SCOPES = ["global", "asset_class", "account"] as const;
+export const ASSET_CLASSES = ["crypto", "equity"] as const;
+
+export type AssetClass = (typeof ASSET_CLASSES)[number];
+
+const targetShape = {
+  scope: z.enum(KILL_SWITCH_SCOPES),
+  assetClass: z.enum(ASSET_CLASSES).optional(),
+  accountId: z.string().uuid().optional()
+};
+
+// A halt names exactly what it covers: `assetClass` goes with the asset_class
+// scope and `accountId` with the account scope.
+const requireScopeTarget = (value: { scope: string; assetClass?: string; accountId?: string }, ctx: z.RefinementCtx) => {
+  if (value.scope === "asset_class" && value.assetClass === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "assetClass is required when scope is asset_class",
+      path: ["assetClass"]
+    });
+  }
+  if (value.scope === "account" && value.accountId === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "accountId is required when scope is account",
+      path: ["accountId"]
+    });
+  }
+};
+
+/**
+ * Body for `POST /admin/kill-switch/halt`. `reason` is a short code Java can
+ * branch on (e.g. `broker_incident`); `note` is free text for whoever reads
+ * the 503.
+ */
+export const killSwitchHaltSchema = z
+  .object({
+    ...targetShape,
+    reason: z.string().trim().min(1).max(100),
+    note: z.string().trim().max(1_000).optional()
+  })
+  .superRefine(requireScopeTarget);
+
+export type KillSwitchHaltPayload = z.infer<typeof killSwitchHaltSchema>;
+
+/**
+ * Body for `POST /admin/kill-switch/resume`.
+ */
+export const killSwitchResumeSchema = z.object(targetShape).superRefine(requireScopeTarget);
+
+export type KillSwitchTarget = z.infer<typeof killSwitchResumeSchema>;
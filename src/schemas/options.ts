@@ -0,0 +1,161 @@
+import { z } from "zod";
+
+/**
+ * OCC option symbol: root (up to six characters, space padded to six in the
+ * canonical form), expiry YYMMDD, C/P, and the strike times 1000 in eight
+ * digits, e.g. `AAPL  250117C00190000`. Callers may omit the padding.
+ */
+const OCC_SYMBOL = /^([A-Z0-9]{1,6}) *(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+const LIMIT_TYPES = ["LIMIT", "STOP_LOSS_LIMIT"] as const;
+const STOP_TYPES = ["STOP_LOSS_MARKET", "STOP_LOSS_LIMIT"] as const;
+
+const decimalString = (field: string) =>
+  z.string().regex(/^[0-9]+(\.[0-9]+)?$/, `${field} must be a decimal string`);
+
+const optionLegSchema = z.object({
+  instrument: z.object({
+    symbol: z
+      .string()
+      .regex(OCC_SYMBOL, "option symbols must be OCC format, e.g. AAPL  250117C00190000")
+      .transform((symbol) => {
+        // SnapTrade expects the canonical 21-character form.
+        const [, root, ...rest] = OCC_SYMBOL.exec(symbol)!;
+        return root!.padEnd(6, " ") + rest.join("");
+      }),
+    instrument_type: z.literal("OPTION")
+  }),
+  action: z.enum(["BUY_TO_OPEN", "BUY_TO_CLOSE", "SELL_TO_OPEN", "SELL_TO_CLOSE"]),
+  // Contracts.
+  units: z.number().int().positive()
+});
+
+// The stock side of a covered call or protective put.
+const equityLegSchema = z.object({
+  instrument: z.object({
+    symbol: z.string().min(1),
+    instrument_type: z.literal("EQUITY")
+  }),
+  action: z.enum(["BUY", "SELL"]),
+  // Shares.
+  units: z.number().int().positive()
+});
+
+/**
+ * Payload for `/options/impact` and `/options/place`. Mirrors SnapTrade's
+ * MlegTradeForm. For multi-leg orders `limit_price` is the net price of the
+ * whole package and `price_effect` says whether it is paid (DEBIT) or
+ * received (CREDIT).
+ */
+export const optionOrderSchema = z
+  .object({
+    accountId: z.string().uuid(),
+    userId: z.string().min(1),
+    userSecret: z.string().min(1),
+    order_type: z.enum(["MARKET", ...LIMIT_TYPES, "STOP_LOSS_MARKET"]),
+    time_in_force: z.enum(["Day", "GTC", "FOK", "IOC"]),
+    limit_price: decimalString("limit_price").optional(),
+    stop_price: decimalString("stop_price").optional(),
+    price_effect: z.enum(["CREDIT", "DEBIT", "EVEN"]).optional(),
+    legs: z.array(z.union([optionLegSchema, equityLegSchema])).min(1).max(4)
+  })
+  .superRefine((value, ctx) => {
+    const isLimit = (LIMIT_TYPES as readonly string[]).includes(value.order_type);
+    if (isLimit && value.limit_price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "limit_price is required for LIMIT and STOP_LOSS_LIMIT orders",
+        path: ["limit_price"]
+      });
+    }
+    if ((STOP_TYPES as readonly string[]).includes(value.order_type) && value.stop_price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "stop_price is required for STOP_LOSS_MARKET and STOP_LOSS_LIMIT orders",
+        path: ["stop_price"]
+      });
+    }
+
+    // A net price on a package is ambiguous without knowing which way it flows.
+    if (isLimit && value.legs.length > 1 && value.price_effect === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "price_effect is required for multi-leg LIMIT and STOP_LOSS_LIMIT orders",
+        path: ["price_effect"]
+      });
+    }
+    if (!isLimit && value.price_effect !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "price_effect is only valid for LIMIT and STOP_LOSS_LIMIT orders",
+        path: ["price_effect"]
+      });
+    }
+    if (value.limit_price !== undefined && value.price_effect !== undefined) {
+      const isZero = Number(value.limit_price) === 0;
+      if (value.price_effect === "EVEN" && !isZero) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "limit_price must be 0 when price_effect=EVEN",
+          path: ["limit_price"]
+        });
+      }
+      if (value.price_effect !== "EVEN" && isZero) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "limit_price must be greater than 0 for CREDIT and DEBIT orders",
+          path: ["limit_price"]
+        });
+      }
+    }
+
+    const types = value.legs.map((leg) => leg.instrument.instrument_type);
+    if (!types.includes("OPTION")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "At least one leg must be an OPTION leg",
+        path: ["legs"]
+      });
+    }
+    if (types.filter((type) => type === "EQUITY").length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "At most one leg may be an EQUITY leg",
+        path: ["legs"]
+      });
+    }
+  });
+
+/**
+ * Query params for `/options/chain`: the underlying's ticker, scoped to an
+ * account because chains differ by brokerage.
+ */
+export const optionChainQuerySchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  symbol: z.string().min(1)
+});
+
+export type OptionOrderPayload = z.infer<typeof optionOrderSchema>;
+export type OptionChainQuery = z.infer<typeof optionChainQuerySchema>;
+
+export type OccContract = {
+  underlying: string;
+  expiration: string;
+  right: "CALL" | "PUT";
+  strike: number;
+};
+
+/**
+ * Splits a validated OCC symbol into its parts. Expiries are 20xx dates.
+ */
+export function parseOccSymbol(symbol: string): OccContract {
+  const [, root, yy, mm, dd, right, strike] = OCC_SYMBOL.exec(symbol)!;
+  return {
+    underlying: root!,
+    expiration: `20${yy}-${mm}-${dd}`,
+    right: right === "C" ? "CALL" : "PUT",
+    strike: Number(strike) / 1000
+  };
+}
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+/**
+ * Payload for cancelling a single open order. Mirrors the parameters required
+ * by SnapTrade's `cancelOrder`, which accepts order ids for every asset type.
+ */
+export const orderCancelSchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  brokerage_order_id: z.string().min(1)
+});
+
+export type OrderCancelPayload = z.infer<typeof orderCancelSchema>;
+
+/**
+ * Payload for cancelling every open order in an account.
+ */
+export const cancelAllOrdersSchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1)
+});
+
+export type CancelAllOrdersPayload = z.infer<typeof cancelAllOrdersSchema>;
@@ -12,3 +12,47 @@ export const orderDetailSchema = z.object({
 });
 
 export type OrderDetailPayload = z.infer<typeof orderDetailSchema>;
+
+/**
+ * Payload for `/orders/await`. `maxWaitMs` is capped by
+ * `COINAGE_ORDER_AWAIT_MAX_WAIT_MS`, which is also the default.
+ */
+export const orderAwaitSchema = orderDetailSchema.extend({
+  maxWaitMs: z.number().int().nonnegative().optional()
+});
+
+export type OrderAwaitPayload = z.infer<typeof orderAwaitSchema>;
+
+/**
+ * Query for `/orders/stream`. `brokerage_order_id` may be repeated; those
+ * orders are polled for changes. Without it the stream only carries changes
+ * other producers (the webhook receiver, other streams) observe.
+ */
+export const orderStreamQuerySchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  brokerage_order_id: z.array(z.string().min(1)).max(20).default([])
+});
+
+export type OrderStreamQuery = z.infer<typeof orderStreamQuerySchema>;
+
+/**
+ * Payload for looking up many orders of one SnapTrade user in one request.
+ * Orders may span several of the user's accounts.
+ */
+export const orderDetailBatchSchema = z.object({
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  orders: z
+    .array(
+      z.object({
+        accountId: z.string().uuid(),
+        brokerage_order_id: z.string().min(1)
+      })
+    )
+    .min(1)
+    .max(100)
+});
+
+export type OrderDetailBatchPayload = z.infer<typeof orderDetailBatchSchema>;
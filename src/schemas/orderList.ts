@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+/**
+ * Payload for listing an account's orders. `state` and `days` map onto
+ * SnapTrade's `getUserAccountOrders` filters; `symbol`, `limit` and `cursor`
+ * are applied here because SnapTrade returns the whole window in one response.
+ */
+export const orderListSchema = z.object({
+  accountId: z.string().uuid(),
+  userId: z.string().min(1),
+  userSecret: z.string().min(1),
+  state: z.enum(["all", "open", "executed"]).default("all"),
+  // SnapTrade looks back 30 days when omitted and caps the window at 90.
+  days: z.number().int().min(1).max(90).optional(),
+  symbol: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+  // Opaque value from a previous page's `nextCursor`.
+  cursor: z.string().min(1).optional()
+});
+
+export type OrderListPayload = z.infer<typeof orderListSchema>;
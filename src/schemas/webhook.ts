@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+export const CONNECTION_EVENT_TYPES = [
+  "CONNECTION_ADDED",
+  "CONNECTION_DELETED",
+  "CONNECTION_BROKEN",
+  "CONNECTION_FIXED",
+  "CONNECTION_UPDATED"
+] as const;
+
+export const ACCOUNT_EVENT_TYPES = [
+  "NEW_ACCOUNT_AVAILABLE",
+  "ACCOUNT_HOLDINGS_UPDATED",
+  "ACCOUNT_TRANSACTIONS_INITIAL_UPDATE",
+  "ACCOUNT_TRANSACTIONS_UPDATED",
+  "ACCOUNT_REMOVED"
+] as const;
+
+export const TRADE_EVENT_TYPES = ["TRADES_PLACED"] as const;
+
+const isOneOf = (types: readonly string[], eventType: string) => types.includes(eventType);
+
+/**
+ * A SnapTrade webhook delivery. Every event carries the envelope fields;
+ * connection, account and trade events also name what they are about. Other
+ * event types (user lifecycle, connection attempts, anything SnapTrade adds
+ * later) are accepted on the envelope alone so a new type never bounces.
+ *
+ * Unknown fields are kept: the event is forwarded to Java as SnapTrade sent it.
+ */
+export const snaptradeWebhookSchema = z
+  .looseObject({
+    webhookId: z.string().min(1),
+    clientId: z.string().min(1),
+    userId: z.string().min(1),
+    eventType: z.string().min(1),
+    eventTimestamp: z.string().datetime({ offset: true }),
+    brokerageAuthorizationId: z.string().min(1).optional(),
+    accountId: z.string().uuid().optional(),
+    // Order records, when SnapTrade includes them with a trade event. Each one
+    // is published to the order stream.
+    orders: z.array(z.looseObject({ brokerage_order_id: z.string().min(1) })).optional()
+  })
+  .superRefine((value, ctx) => {
+    const scoped = [...CONNECTION_EVENT_TYPES, ...ACCOUNT_EVENT_TYPES, ...TRADE_EVENT_TYPES];
+    if (isOneOf(scoped, value.eventType) && value.brokerageAuthorizationId === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "brokerageAuthorizationId is required for connection, account and trade events",
+        path: ["brokerageAuthorizationId"]
+      });
+    }
+    if (isOneOf([...ACCOUNT_EVENT_TYPES, ...TRADE_EVENT_TYPES], value.eventType) && value.accountId === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "accountId is required for account and trade events",
+        path: ["accountId"]
+      });
+    }
+  });
+
+export type SnaptradeWebhook = z.infer<typeof snaptradeWebhookSchema>;
@@ -1,4 +1,5 @@
 import app from "./app";
+import { env } from "./lib/env";
 
 /**
  * Bun-native server bootstrap. We read PORT/HOST so the process can be wired
@@ -7,10 +8,22 @@ import app from "./app";
 const port = Number.parseInt(process.env.PORT ?? "3000", 10);
 const hostname = process.env.HOST ?? "::";
 
+// Bun closes connections idle for 10s by default, which would cut off
+// `/orders/await` and queued placements mid-wait, and `/orders/stream` between
+// heartbeats. Allow the longest silence plus headroom for the final SnapTrade
+// call (Bun caps this at 255s).
+const longestWaitMs = Math.max(
+  env.COINAGE_ORDER_AWAIT_MAX_WAIT_MS,
+  env.COINAGE_ORDER_MAX_WAIT_MS,
+  env.COINAGE_ORDER_STREAM_HEARTBEAT_MS
+);
+const idleTimeout = Math.min(255, Math.ceil(longestWaitMs / 1000) + 15);
+
 const server = Bun.serve({
   fetch: app.fetch,
   port,
-  hostname
+  hostname,
+  idleTimeout
 });
 
 const printableHost = hostname === "::" || hostname === "0.0.0.0" ? "localhost" : hostname;
@@ -0,0 +1,21 @@
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, preserving
+ * input order in the result. `fn` is expected to handle its own errors; a
+ * rejection fails the whole map like `Promise.all`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,21 @@
+/**
+ * Structured JSON loggers shared by the lib/ modules so every event carries the
+ * same `{ event, ...meta, timestamp }` shape the route handlers emit.
+ */
+export function logInfo(event: string, meta: Record<string, unknown>) {
+  // JSON logs make it easier to search in Fly/Datadog; fall back to console formatting if stringify fails.
+  try {
+    console.info(JSON.stringify({ event, ...meta, timestamp: new Date().toISOString() }));
+  } catch {
+    console.info(event, meta);
+  }
+}
+
+export function logWarn(event: string, meta: Record<string, unknown>) {
+  // Mirror logInfo but write to stderr so warnings/errors pop in aggregated logs.
+  try {
+    console.warn(JSON.stringify({ event, ...meta, timestamp: new Date().toISOString() }));
+  } catch {
+    console.warn(event, meta);
+  }
+}
@@ -0,0 +1,74 @@
+import type { Context } from "hono";
+import type { ZodType } from "zod";
+import { validationError } from "./snaptrade";
+
+type QueryOptions = {
+  /** Keys whose every occurrence is kept (as `string[]`) rather than only the first. */
+  repeated?: readonly string[];
+};
+
+/**
+ * Shared query parsing helper used by the GET endpoints. When validation fails
+ * the resulting HTTP response is returned directly to the caller.
+ *
+ * Hono exposes query parameters as `URLSearchParams`, but Zod expects a plain
+ * record of strings. We normalize before validation so callers can reliably
+ * send repeated keys (we keep the first value) without tripping the schema.
+ * Routes that take lists name those keys in `options.repeated`.
+ */
+export function parseQuery<T>(c: Context, schema: ZodType<T, any, any>, options: QueryOptions = {}): T | Response {
+  const raw = c.req.queries();
+  const normalized = normalizeQueryParams(raw, options.repeated);
+  const parsed = schema.safeParse(normalized);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  return validationError(c, parsed.error);
+}
+
+/**
+ * Converts the heterogeneous query parameter shapes that Hono hands us
+ * (`URLSearchParams`, array values from Node-style objects, or plain records)
+ * into the `{ [key]: string }` map format that Zod expects.
+ *
+ * - When a parameter appears multiple times (e.g. `?foo=a&foo=b`) we retain the
+ *   first occurrence so callers don't accidentally send arrays to SnapTrade.
+ *   Keys listed in `repeated` are the exception and keep every value in order.
+ * - For Node/Express-style objects we collapse `string[]` values the same way.
+ * - Anything else (numbers, booleans, nullish) is skipped to keep validation strict.
+ */
+export function normalizeQueryParams(
+  params: unknown,
+  repeated: readonly string[] = []
+): Record<string, string | string[]> {
+  if (!params) {
+    return {};
+  }
+
+  const normalized: Record<string, string | string[]> = {};
+  const keepAll = new Set(repeated);
+
+  if (params instanceof URLSearchParams) {
+    for (const key of new Set(params.keys())) {
+      normalized[key] = keepAll.has(key) ? params.getAll(key) : params.get(key)!;
+    }
+    return normalized;
+  }
+
+  if (typeof params !== "object") {
+    return normalized;
+  }
+
+  for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
+    if (typeof value === "string") {
+      normalized[key] = keepAll.has(key) ? [value] : value;
+    } else if (Array.isArray(value) && value.length > 0) {
+      const strings = value.filter((v): v is string => typeof v === "string");
+      if (strings.length > 0) {
+        normalized[key] = keepAll.has(key) ? strings : strings[0]!;
+      }
+    }
+  }
+
+  return normalized;
+}
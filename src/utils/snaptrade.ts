@@ -1,5 +1,22 @@
 import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import type { ZodError } from "zod";
+import { upstreamBudget } from "../lib/upstreamBudget";
+import { CircuitOpenError } from "../lib/circuitBreaker";
+
+/**
+ * Set on fail-fast responses from an open circuit breaker. Besides helping
+ * callers tell our 503 apart from SnapTrade's, it tells the idempotency layer
+ * that nothing was sent upstream.
+ */
+export const CIRCUIT_OPEN_HEADER = "X-Coinage-Circuit-Open";
+
+/**
+ * Cache metadata on read endpoints: `HIT`, `MISS` or `COALESCED`, plus the age
+ * of the data in milliseconds since it was fetched from SnapTrade.
+ */
+export const CACHE_STATUS_HEADER = "X-Coinage-Cache";
+export const CACHE_AGE_HEADER = "X-Coinage-Cache-Age-Ms";
 
 /**
  * Shapes returned by the SnapTrade SDK vary between raw response payloads and
@@ -36,12 +53,122 @@ export function validationError(c: Context, error: ZodError) {
   );
 }
 
+/**
+ * HTTP 429 emitted by our own per-account throttles. `Retry-After` is rounded
+ * up to whole seconds per RFC 9110 while `retryAfterMs` keeps the precise hint
+ * for callers that schedule their own retries.
+ */
+export function rateLimitedResponse(c: Context, retryAfterMs: number, message: string) {
+  c.header("Retry-After", Math.max(1, Math.ceil(retryAfterMs / 1000)).toString());
+  return c.json(
+    {
+      error: "rate_limited",
+      message,
+      retryAfterMs
+    },
+    429
+  );
+}
+
+/**
+ * HTTP 503 when the per-account throttle's store cannot be reached. Orders are
+ * refused rather than placed unthrottled; nothing was sent to SnapTrade.
+ */
+export function throttleUnavailableResponse(c: Context, retryAfterMs: number) {
+  c.header("Retry-After", Math.max(1, Math.ceil(retryAfterMs / 1000)).toString());
+  return c.json(
+    {
+      error: "throttle_unavailable",
+      message: "Order throttle state is unavailable; order placement is paused until it can be read."
+    },
+    503
+  );
+}
+
+/**
+ * HTTP 503 when the risk store (daily notional usage, checked trades) cannot
+ * be reached. Orders are refused rather than placed unchecked.
+ */
+export function riskUnavailableResponse(c: Context) {
+  return c.json(
+    {
+      error: "risk_unavailable",
+      message: "Risk limit state is unavailable; order placement is paused until it can be read."
+    },
+    503
+  );
+}
+
+/**
+ * HTTP 422 for an order stopped by a pre-trade risk rule. `rule` names the
+ * rule so callers can tell a fat-finger cap from a deny-listed symbol.
+ */
+export function riskRejectedResponse(c: Context, rejection: { rule: string; message: string }) {
+  return c.json(
+    {
+      error: "risk_rejected",
+      rule: rejection.rule,
+      message: rejection.message
+    },
+    422
+  );
+}
+
+/**
+ * HTTP 400 for a malformed `X-Coinage-Max-Wait-Ms` header.
+ */
+export function invalidMaxWaitResponse(c: Context) {
+  return c.json(
+    {
+      error: "invalid_header",
+      message: "X-Coinage-Max-Wait-Ms must be a non-negative integer number of milliseconds."
+    },
+    400
+  );
+}
+
+/**
+ * Response body for replace endpoints. Brokerages may or may not issue a new
+ * order id on replace, so callers get both ids explicitly and must track
+ * `new_brokerage_order_id` from here on; SnapTrade's order record is under
+ * `order` unchanged.
+ */
+export function replacedOrderResponse(previousBrokerageOrderId: string, order: unknown) {
+  const newBrokerageOrderId = (order as { brokerage_order_id?: unknown } | null)?.brokerage_order_id;
+  return {
+    previous_brokerage_order_id: previousBrokerageOrderId,
+    new_brokerage_order_id: typeof newBrokerageOrderId === "string" ? newBrokerageOrderId : null,
+    order
+  };
+}
+
 /**
  * Standardised error bridge between this service and SnapTrade. We surface the
  * upstream status code when available, include the partner-facing request id,
  * and log unexpected failures for further triage.
  */
 export function handleSnaptradeError(c: Context, error: unknown) {
+  const { status, body, headers } = describeSnaptradeError(error);
+  for (const [name, value] of Object.entries(headers)) {
+    c.header(name, value);
+  }
+  return c.json(body, status as ContentfulStatusCode);
+}
+
+/**
+ * The status, body and headers `handleSnaptradeError` would respond with.
+ * Endpoints that report several SnapTrade outcomes in one response (e.g.
+ * cancel-all) embed these per item instead of failing the whole request.
+ */
+export type SnaptradeErrorDescription = {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+};
+
+export function describeSnaptradeError(error: unknown): SnaptradeErrorDescription {
+  const headers: Record<string, string> = {};
+
   /**
    * IMPORTANT CONTEXT (why this function exists):
    *
@@ -76,30 +203,48 @@ export function handleSnaptradeError(c: Context, error: unknown) {
    * 2) SnapTrade SDK `SnaptradeError`-like errors (non-Axios), by returning the original
    *    status + raw error JSON unmodified.
    */
+  if (error instanceof CircuitOpenError) {
+    // Our own fail-fast path: SnapTrade was never called, so there is no native
+    // error body to preserve. Use a distinct envelope so Java can back off.
+    headers["Retry-After"] = Math.max(1, Math.ceil(error.retryAfterMs / 1000)).toString();
+    headers[CIRCUIT_OPEN_HEADER] = error.operation;
+    return {
+      status: 503,
+      body: {
+        error: "circuit_open",
+        message: "SnapTrade is degraded; failing fast until the circuit breaker recovers.",
+        operation: error.operation,
+        retryAfterMs: error.retryAfterMs
+      },
+      headers
+    };
+  }
+
   if (isAxiosLikeError(error)) {
     const status = error.response?.status ?? 502;
     const requestId = readHeaderValue(error.response?.headers, "x-request-id");
 
     if (requestId) {
-      c.header("X-SnapTrade-Request-ID", String(requestId));
+      headers["X-SnapTrade-Request-ID"] = String(requestId);
       // The Java backend expects `X-Request-ID` when mapping SnapTrade SDK errors (it uses this
       // header name for both SDK and TS-bridge calls). Set both so logs/errors can correlate.
-      c.header("X-Request-ID", String(requestId));
+      headers["X-Request-ID"] = String(requestId);
     }
 
     const rateLimit = pickRateLimitHeaders(error.response?.headers);
+    upstreamBudget.observe(rateLimit);
     if (rateLimit.limit) {
-      c.header("X-SnapTrade-RateLimit-Limit", rateLimit.limit);
+      headers["X-SnapTrade-RateLimit-Limit"] = rateLimit.limit;
     }
     if (rateLimit.remaining) {
-      c.header("X-SnapTrade-RateLimit-Remaining", rateLimit.remaining);
+      headers["X-SnapTrade-RateLimit-Remaining"] = rateLimit.remaining;
     }
     if (rateLimit.reset) {
-      c.header("X-SnapTrade-RateLimit-Reset", rateLimit.reset);
+      headers["X-SnapTrade-RateLimit-Reset"] = rateLimit.reset;
     }
     const retryAfter = readHeaderValue(error.response?.headers, "retry-after");
     if (retryAfter) {
-      c.header("Retry-After", String(retryAfter));
+      headers["Retry-After"] = String(retryAfter);
     }
 
     const data = error.response?.data;
@@ -107,7 +252,7 @@ export function handleSnaptradeError(c: Context, error: unknown) {
     // shape (e.g., `{ code, detail, raw_error }`). Do not wrap object payloads, otherwise the
     // mapper can't extract nested broker error codes and remediation URLs.
     if (data && typeof data === "object") {
-      return c.json(data, status);
+      return { status, body: data, headers };
     }
     if (typeof data === "string") {
       const trimmed = data.trim();
@@ -115,15 +260,15 @@ export function handleSnaptradeError(c: Context, error: unknown) {
         try {
           const parsed = JSON.parse(trimmed);
           if (parsed && typeof parsed === "object") {
-            return c.json(parsed, status);
+            return { status, body: parsed, headers };
           }
         } catch {
           // fall through to synthetic error payload
         }
       }
-      return c.json({ code: "SNAPTRADE_ERROR", detail: data }, status);
+      return { status, body: { code: "SNAPTRADE_ERROR", detail: data }, headers };
     }
-    return c.json({ code: "SNAPTRADE_ERROR", detail: error.message }, status);
+    return { status, body: { code: "SNAPTRADE_ERROR", detail: error.message }, headers };
   }
 
   // Handle SnapTrade TS SDK errors that are *not* Axios-like.
@@ -151,19 +296,20 @@ export function handleSnaptradeError(c: Context, error: unknown) {
     // X-Request-ID for correlation and mapping.
     const requestId = readHeaderValue(error.headers, "x-request-id");
     if (requestId) {
-      c.header("X-SnapTrade-Request-ID", String(requestId));
-      c.header("X-Request-ID", String(requestId));
+      headers["X-SnapTrade-Request-ID"] = String(requestId);
+      headers["X-Request-ID"] = String(requestId);
     }
 
     // Propagate rate limit headers so the Java backend can observe/record remaining budget.
     const rateLimit = pickRateLimitHeaders(error.headers);
-    if (rateLimit.limit) c.header("X-SnapTrade-RateLimit-Limit", rateLimit.limit);
-    if (rateLimit.remaining) c.header("X-SnapTrade-RateLimit-Remaining", rateLimit.remaining);
-    if (rateLimit.reset) c.header("X-SnapTrade-RateLimit-Reset", rateLimit.reset);
+    upstreamBudget.observe(rateLimit);
+    if (rateLimit.limit) headers["X-SnapTrade-RateLimit-Limit"] = rateLimit.limit;
+    if (rateLimit.remaining) headers["X-SnapTrade-RateLimit-Remaining"] = rateLimit.remaining;
+    if (rateLimit.reset) headers["X-SnapTrade-RateLimit-Reset"] = rateLimit.reset;
 
     // Propagate Retry-After when present (important for 429 and backoff behaviour).
     const retryAfter = readHeaderValue(error.headers, "retry-after");
-    if (retryAfter) c.header("Retry-After", String(retryAfter));
+    if (retryAfter) headers["Retry-After"] = String(retryAfter);
 
     // SnapTrade's error payload may be an object or a JSON string. We must return it *as-is* (object),
     // not wrapped, so the Java `SnaptradeErrorMapper` can parse:
@@ -172,7 +318,7 @@ export function handleSnaptradeError(c: Context, error: unknown) {
     // - `raw_error.body.error_code` (the real actionable broker code).
     const body = error.responseBody;
     if (body && typeof body === "object") {
-      return c.json(body, status);
+      return { status, body, headers };
     }
     if (typeof body === "string") {
       const trimmed = body.trim();
@@ -180,30 +326,42 @@ export function handleSnaptradeError(c: Context, error: unknown) {
         try {
           const parsed = JSON.parse(trimmed);
           if (parsed && typeof parsed === "object") {
-            return c.json(parsed, status);
+            return { status, body: parsed, headers };
           }
         } catch {
           // fall through to string wrapper below
         }
       }
       // If we received a non-JSON string, return it as `detail` so callers at least see the reason.
-      return c.json({ code: "SNAPTRADE_ERROR", detail: body }, status);
+      return { status, body: { code: "SNAPTRADE_ERROR", detail: body }, headers };
     }
 
     // Last resort: preserve status code, but use the error message as detail.
-    return c.json({ code: "SNAPTRADE_ERROR", detail: error.message }, status);
+    return { status, body: { code: "SNAPTRADE_ERROR", detail: error.message }, headers };
+  }
+
+  // Our own SDK timeout (`SNAPTRADE_TIMEOUT_MS`) fired before SnapTrade answered.
+  // The request may still have been acted on, so report it as a gateway
+  // timeout rather than a failure of ours.
+  if (isTimeoutError(error)) {
+    return {
+      status: 504,
+      body: { code: "SNAPTRADE_TIMEOUT", detail: "SnapTrade did not respond in time." },
+      headers
+    };
   }
 
   // Any other unknown error shape: log and return a synthetic 500.
   // This path should be rare; if it becomes common we should expand the type guards above.
   console.error("Unhandled SnapTrade error", error);
-  return c.json(
-    {
+  return {
+    status: 500,
+    body: {
       error: "internal_error",
       message: "Failed to process SnapTrade request"
     },
-    500
-  );
+    headers
+  };
 }
 
 /**
@@ -272,6 +430,15 @@ function isSnaptradeSdkError(
   return hasMessage && hasStatus && hasBodyOrHeaders;
 }
 
+/**
+ * Axios reports its own timeout as `ECONNABORTED` (or `ETIMEDOUT` with
+ * `clarifyTimeoutError`); `SnaptradeError` copies that code.
+ */
+function isTimeoutError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === "ECONNABORTED" || code === "ETIMEDOUT";
+}
+
 /**
  * Header lookup that works across `Headers`, Axios response objects, and plain
  * key/value records. SnapTrade is case-insensitive, so we normalise keys before
@@ -362,9 +529,10 @@ export function propagateRateLimitHeaders(c: Context, headers?: HeadersLike) {
     return;
   }
 
-  const limit = readHeaderValue(headers, "x-ratelimit-limit");
-  const remaining = readHeaderValue(headers, "x-ratelimit-remaining");
-  const reset = readHeaderValue(headers, "x-ratelimit-reset");
+  const { limit, remaining, reset } = pickRateLimitHeaders(headers);
+  // Every successful SnapTrade call flows through here, which makes it the
+  // natural place to keep the partner-wide budget tracker current.
+  upstreamBudget.observe({ limit, remaining, reset });
 
   if (limit) {
     c.header("X-SnapTrade-RateLimit-Limit", String(limit));
@@ -0,0 +1,104 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+
+const accountInformationMocks = {
+  getUserAccountBalance: mock(async () => {
+    throw new Error("getUserAccountBalance mock not configured");
+  }),
+  getUserAccountPositions: mock(async () => {
+    throw new Error("getUserAccountPositions mock not configured");
+  }),
+  getUserHoldings: mock(async () => {
+    throw new Error("getUserHoldings mock not configured");
+  })
+};
+
+mock.module("../src/lib/snaptrade", () => ({
+  snaptrade: {
+    accountInformation: accountInformationMocks
+  }
+}));
+
+import { registerAccountRoutes } from "../src/routes/accounts";
+import { resetCircuitBreakersForTests } from "../src/lib/circuitBreaker";
+
+function createApp() {
+  const app = new Hono();
+  registerAccountRoutes(app);
+  return app;
+}
+
+const payload = {
+  accountId: "11111111-2222-4333-8aaa-555555555555",
+  userId: "snap-user",
+  userSecret: "snap-secret"
+};
+
+function post(path: string, body: unknown) {
+  return createApp().request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+const originalSharedSecret = env.COINAGE_TS_SHARED_SECRET;
+
+beforeEach(() => {
+  (env as any).COINAGE_TS_SHARED_SECRET = originalSharedSecret;
+  resetCircuitBreakersForTests();
+  for (const fn of Object.values(accountInformationMocks)) {
+    fn.mockReset();
+    fn.mockImplementation(async () => {
+      throw new Error("mock not configured");
+    });
+  }
+});
+
+afterAll(() => {
+  (env as any).COINAGE_TS_SHARED_SECRET = originalSharedSecret;
+});
+
+describe("account routes", () => {
+  it.each([
+    ["/accounts/balances", "getUserAccountBalance", [{ currency: { code: "USD" }, cash: 100, buying_power: 200 }]],
+    ["/accounts/positions", "getUserAccountPositions", [{ symbol: { symbol: { symbol: "BTC" } }, units: 0.5 }]],
+    ["/accounts/holdings", "getUserHoldings", { account: { id: payload.accountId }, balances: [], positions: [] }]
+  ] as const)("%s proxies %s and propagates SnapTrade headers", async (path, method, data) => {
+    accountInformationMocks[method].mockImplementation(async (req: any) => {
+      expect(req).toEqual(payload);
+      return { data, headers: { "x-request-id": `req-${method}`, "x-ratelimit-remaining": "42" } };
+    });
+
+    const res = await post(path, payload);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(data);
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe(`req-${method}`);
+    expect(res.headers.get("X-SnapTrade-RateLimit-Remaining")).toBe("42");
+  });
+
+  it("passes SnapTrade errors through unchanged", async () => {
+    accountInformationMocks.getUserAccountBalance.mockImplementation(async () => {
+      const error: any = new Error("Request failed with status code 403");
+      error.response = { status: 403, data: { code: "1012", detail: "Connection disabled" }, headers: {} };
+      throw error;
+    });
+
+    const res = await post("/accounts/balances", payload);
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ code: "1012", detail: "Connection disabled" });
+  });
+
+  it("validates the payload and requires a signature when configured", async () => {
+    const invalid = await post("/accounts/positions", { ...payload, accountId: "nope" });
+    expect(invalid.status).toBe(400);
+
+    (env as any).COINAGE_TS_SHARED_SECRET = "bridge-secret";
+    const unsigned = await post("/accounts/holdings", payload);
+    expect(unsigned.status).toBe(401);
+    expect(accountInformationMocks.getUserHoldings.mock.calls.length).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+
+const tradingMocks = {
+  searchCryptocurrencyPairInstruments: mock(async (): Promise<unknown> => {
+    throw new Error("searchCryptocurrencyPairInstruments mock not configured");
+  }),
+  getCryptocurrencyPairQuote: mock(async (): Promise<unknown> => {
+    throw new Error("getCryptocurrencyPairQuote mock not configured");
+  }),
+  previewCryptoOrder: mock(async (): Promise<unknown> => {
+    throw new Error("previewCryptoOrder mock not configured");
+  }),
+  placeCryptoOrder: mock(async (): Promise<unknown> => {
+    throw new Error("placeCryptoOrder mock not configured");
+  })
+};
+
+mock.module("../src/lib/snaptrade", () => ({
+  snaptrade: {
+    trading: tradingMocks
+  }
+}));
+
+import { CircuitBreaker, CircuitOpenError, resetCircuitBreakersForTests } from "../src/lib/circuitBreaker";
+import {
+  registerCryptoRoutes,
+  resetCryptoCachesForTests,
+  resetCryptoRateLimiterForTests
+} from "../src/routes/crypto";
+import { registerStatusRoutes } from "../src/routes/status";
+
+function createApp() {
+  const app = new Hono();
+  registerCryptoRoutes(app);
+  registerStatusRoutes(app);
+  return app;
+}
+
+function snaptradeError(status: number, body: unknown) {
+  const error: any = new Error(`Request failed with status code ${status}`);
+  error.status = status;
+  error.headers = { get: () => undefined };
+  error.responseBody = body;
+  return error;
+}
+
+const originalSecret = env.COINAGE_TS_SHARED_SECRET;
+const originalThreshold = env.COINAGE_BREAKER_FAILURE_THRESHOLD;
+const originalMaxAttempts = env.COINAGE_READ_RETRY_MAX_ATTEMPTS;
+
+beforeEach(() => {
+  resetCircuitBreakersForTests();
+  resetCryptoRateLimiterForTests();
+  resetCryptoCachesForTests();
+  (env as any).COINAGE_TS_SHARED_SECRET = "";
+  (env as any).COINAGE_BREAKER_FAILURE_THRESHOLD = 2;
+  // One attempt per request keeps the failure count per request predictable.
+  (env as any).COINAGE_READ_RETRY_MAX_ATTEMPTS = 1;
+  for (const fn of Object.values(tradingMocks)) {
+    fn.mockReset();
+  }
+});
+
+afterAll(() => {
+  (env as any).COINAGE_TS_SHARED_SECRET = originalSecret;
+  (env as any).COINAGE_BREAKER_FAILURE_THRESHOLD = originalThreshold;
+  (env as any).COINAGE_READ_RETRY_MAX_ATTEMPTS = originalMaxAttempts;
+  resetCircuitBreakersForTests();
+});
+
+const quotePath =
+  "/crypto/quote?accountId=33333333-4444-4555-8ccc-777777777777&userId=snap-user&userSecret=snap-secret&instrumentSymbol=BTC-USD";
+
+describe("circuit breaker", () => {
+  it("opens after repeated 5xx and fails fast with a distinct 503", async () => {
+    const upstreamBody = { code: "5000", detail: "upstream unavailable" };
+    tradingMocks.getCryptocurrencyPairQuote.mockImplementation(async () => {
+      throw snaptradeError(502, upstreamBody);
+    });
+    const app = createApp();
+
+    for (let i = 0; i < 2; i++) {
+      const res = await app.request(quotePath);
+      expect(res.status).toBe(502);
+      // SnapTrade's native body still passes through while the breaker is closed.
+      expect(await res.json()).toEqual(upstreamBody);
+    }
+    const callsBeforeOpen = tradingMocks.getCryptocurrencyPairQuote.mock.calls.length;
+
+    const res = await app.request(quotePath);
+    expect(res.status).toBe(503);
+    expect(Number(res.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(res.headers.get("X-Coinage-Circuit-Open")).toBe("getCryptocurrencyPairQuote");
+    const body = await res.json();
+    expect(body.error).toBe("circuit_open");
+    expect(body.operation).toBe("getCryptocurrencyPairQuote");
+    expect(tradingMocks.getCryptocurrencyPairQuote.mock.calls.length).toBe(callsBeforeOpen);
+
+    const status = await app.request("/status/circuit-breakers");
+    const { breakers } = await status.json();
+    expect(breakers).toContainEqual(
+      expect.objectContaining({ operation: "getCryptocurrencyPairQuote", state: "open" })
+    );
+  });
+
+  it("does not trip on SnapTrade 4xx rejections", async () => {
+    const rejection = { code: "1119", detail: "Order rejected", raw_error: { body: { error_code: "X" } } };
+    tradingMocks.previewCryptoOrder.mockImplementation(async () => {
+      throw snaptradeError(400, rejection);
+    });
+    const app = createApp();
+    const payload = {
+      accountId: "44444444-5555-4666-8ddd-888888888888",
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+      side: "BUY",
+      type: "MARKET",
+      time_in_force: "GTC",
+      amount: "1"
+    };
+    for (let i = 0; i < 4; i++) {
+      const res = await app.request("/crypto/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload)
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual(rejection);
+    }
+    expect(tradingMocks.previewCryptoOrder.mock.calls.length).toBe(4);
+  });
+
+  it("lets a half-open probe through and closes on success", async () => {
+    const options = { failureThreshold: 1, openMs: 20, halfOpenProbes: 1 };
+    const breaker = new CircuitBreaker("test", () => options);
+    const timeout = Object.assign(new Error("timeout of 10000ms exceeded"), { code: "ECONNABORTED" });
+
+    await expect(breaker.run(async () => Promise.reject(timeout))).rejects.toBe(timeout);
+    expect(breaker.snapshot().state).toBe("open");
+    await expect(breaker.run(async () => "ok")).rejects.toBeInstanceOf(CircuitOpenError);
+
+    await Bun.sleep(25);
+    expect(breaker.snapshot().state).toBe("half_open");
+    expect(await breaker.run(async () => "ok")).toBe("ok");
+    expect(breaker.snapshot().state).toBe("closed");
+  });
+
+  it("re-opens when the half-open probe fails", async () => {
+    const options = { failureThreshold: 3, openMs: 20, halfOpenProbes: 1 };
+    const breaker = new CircuitBreaker("test", () => options);
+    const failure = snaptradeError(503, {});
+    for (let i = 0; i < 3; i++) {
+      await breaker.run(async () => Promise.reject(failure)).catch(() => undefined);
+    }
+    await Bun.sleep(25);
+    await breaker.run(async () => Promise.reject(failure)).catch(() => undefined);
+    expect(breaker.snapshot().state).toBe("open");
+  });
+});
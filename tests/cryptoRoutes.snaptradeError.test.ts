@@ -39,7 +39,11 @@ mock.module("../src/lib/snaptrade", () => ({
   }
 }));
 
-import { registerCryptoRoutes, resetCryptoRateLimiterForTests } from "../src/routes/crypto";
+import {
+  registerCryptoRoutes,
+  resetCryptoCachesForTests,
+  resetCryptoRateLimiterForTests
+} from "../src/routes/crypto";
 
 function createApp() {
   const app = new Hono();
@@ -51,6 +55,7 @@ const originalSharedSecret = env.COINAGE_TS_SHARED_SECRET;
 
 beforeEach(() => {
   resetCryptoRateLimiterForTests();
+  resetCryptoCachesForTests();
   /**
    * Make this test environment-independent.
    *
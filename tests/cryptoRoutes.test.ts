@@ -1,6 +1,7 @@
 import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Hono } from "hono";
 import { env } from "../src/lib/env";
+import { signedHeaders } from "./helpers/signing";
 
 const tradingMocks = {
   searchCryptocurrencyPairInstruments: mock(async () => {
@@ -14,6 +15,9 @@ const tradingMocks = {
   }),
   placeCryptoOrder: mock(async () => {
     throw new Error("placeCryptoOrder mock not configured");
+  }),
+  replaceOrder: mock(async () => {
+    throw new Error("replaceOrder mock not configured");
   })
 };
 
@@ -23,7 +27,14 @@ mock.module("../src/lib/snaptrade", () => ({
   }
 }));
 
-import { registerCryptoRoutes, resetCryptoRateLimiterForTests } from "../src/routes/crypto";
+import {
+  registerCryptoRoutes,
+  resetCryptoCachesForTests,
+  resetCryptoRateLimiterForTests
+} from "../src/routes/crypto";
+import { resetRiskChecksForTests } from "../src/lib/riskChecks";
+import { haltTrading, resetKillSwitchForTests } from "../src/lib/killSwitch";
+import { resetPaperTradingForTests } from "../src/lib/paperTrading";
 
 function createApp() {
   const app = new Hono();
@@ -35,6 +46,7 @@ const originalSharedSecret = env.COINAGE_TS_SHARED_SECRET;
 
 beforeEach(() => {
   resetCryptoRateLimiterForTests();
+  resetCryptoCachesForTests();
   (env as any).COINAGE_TS_SHARED_SECRET = originalSharedSecret;
   for (const fn of Object.values(tradingMocks)) {
     fn.mockReset();
@@ -94,17 +106,54 @@ describe("crypto routes", () => {
     expect(res.headers.get("X-SnapTrade-RateLimit-Reset")).toBe("1699999999");
   });
 
-  it("rejects requests missing the shared secret header when configured", async () => {
+  it("coalesces concurrent quote requests and serves repeats from cache", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    tradingMocks.getCryptocurrencyPairQuote.mockImplementation(async () => {
+      await gate;
+      return { data: { bid: "1.00", ask: "1.01" }, headers: { "x-request-id": "req-quote" } };
+    });
+
+    const app = createApp();
+    const url =
+      "/crypto/quote?accountId=55555555-6666-4777-8eee-999999999999&userId=snap-user&userSecret=snap-secret&instrumentSymbol=BTC-USD";
+    const first = app.request(url);
+    const second = app.request(url);
+    await Bun.sleep(0);
+    release();
+
+    const shared = await Promise.all([first, second]);
+    const statuses = shared.map((res) => res.headers.get("X-Coinage-Cache"));
+    expect(statuses.sort()).toEqual(["COALESCED", "MISS"]);
+    expect(shared.map((res) => res.headers.get("X-Coinage-Attempts"))).toEqual(["1", "1"]);
+
+    const cached = await app.request(url);
+    expect(cached.status).toBe(200);
+    expect(cached.headers.get("X-Coinage-Cache")).toBe("HIT");
+    expect(cached.headers.get("X-Coinage-Attempts")).toBeNull();
+    expect(cached.headers.get("X-SnapTrade-Request-ID")).toBe("req-quote");
+    expect(await cached.json()).toEqual({ bid: "1.00", ask: "1.01" });
+
+    const otherSecret = await app.request(url.replace("snap-secret", "other-secret"));
+    expect(otherSecret.headers.get("X-Coinage-Cache")).toBe("MISS");
+    expect(tradingMocks.getCryptocurrencyPairQuote.mock.calls.length).toBe(2);
+  });
+
+  it("rejects unsigned requests when a shared secret is configured", async () => {
     (env as any).COINAGE_TS_SHARED_SECRET = "bridge-secret";
     const accountId = "55555555-6666-4777-8eee-999999999999";
     const app = createApp();
-    const res = await app.request(`/crypto/pairs?accountId=${accountId}&userId=snap-user&userSecret=snap-secret`);
+    const res = await app.request(`/crypto/pairs?accountId=${accountId}&userId=snap-user&userSecret=snap-secret`, {
+      headers: { "X-Coinage-TS-Secret": "bridge-secret" }
+    });
     expect(res.status).toBe(401);
     const body = await res.json();
     expect(body.error).toBe("unauthorized");
   });
 
-  it("accepts requests when shared secret header matches", async () => {
+  it("accepts requests signed with the shared secret", async () => {
     (env as any).COINAGE_TS_SHARED_SECRET = "bridge-secret";
     tradingMocks.searchCryptocurrencyPairInstruments.mockImplementation(async () => ({
       data: [{ symbol: "ETH-USD" }],
@@ -113,13 +162,11 @@ describe("crypto routes", () => {
       }
     }));
     const accountId = "aaaa1111-2222-4333-8fff-aaaaaaa00000";
+    const path = `/crypto/pairs?accountId=${accountId}&userId=snap-user&userSecret=snap-secret`;
     const app = createApp();
-    const res = await app.request(
-      `/crypto/pairs?accountId=${accountId}&userId=snap-user&userSecret=snap-secret`,
-      {
-        headers: { "X-Coinage-TS-Secret": "bridge-secret" }
-      }
-    );
+    const res = await app.request(path, {
+      headers: signedHeaders("bridge-secret", { method: "GET", path })
+    });
     expect(res.status).toBe(200);
     expect(await res.json()).toEqual([{ symbol: "ETH-USD" }]);
     expect(tradingMocks.searchCryptocurrencyPairInstruments.mock.calls.length).toBe(1);
@@ -184,6 +231,47 @@ describe("crypto routes", () => {
     expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(1);
   });
 
+  it("holds place orders that opt into waiting until the next slot", async () => {
+    tradingMocks.placeCryptoOrder.mockImplementation(async () => ({
+      data: { order_id: "queued" },
+      headers: { get: () => undefined }
+    }));
+
+    const payload = {
+      accountId: "66666666-7777-4888-8999-aaaaaaaaaaaa",
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" as const },
+      side: "BUY" as const,
+      type: "MARKET" as const,
+      time_in_force: "GTC" as const,
+      amount: "1"
+    };
+    const app = createApp();
+    const send = (headers: Record<string, string> = {}) =>
+      app.request("/crypto/place", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(payload)
+      });
+
+    expect((await send()).status).toBe(200);
+
+    const invalid = await send({ "X-Coinage-Max-Wait-Ms": "soon" });
+    expect(invalid.status).toBe(400);
+
+    const startedAt = Date.now();
+    const queued = await send({ "X-Coinage-Max-Wait-Ms": "2000" });
+    expect(queued.status).toBe(200);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900);
+
+    // A budget shorter than the remaining interval still gets today's 429.
+    const tooShort = await send({ "X-Coinage-Max-Wait-Ms": "100" });
+    expect(tooShort.status).toBe(429);
+    expect((await tooShort.json()).error).toBe("rate_limited");
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(2);
+  });
+
   it("maps SnapTrade errors onto the HTTP response", async () => {
     tradingMocks.getCryptocurrencyPairQuote.mockImplementation(async () => {
       const error: any = new Error("snaptrade unavailable");
@@ -255,4 +343,315 @@ describe("crypto routes", () => {
     expect(await res.json()).toEqual({ order_id: "preview-123" });
     expect(tradingMocks.previewCryptoOrder.mock.calls.length).toBe(1);
   });
+
+  it("replaces a resting crypto order through SnapTrade's replaceOrder", async () => {
+    tradingMocks.replaceOrder.mockImplementation(async (payload: any) => {
+      expect(payload).toMatchObject({
+        brokerage_order_id: "crypto-old",
+        action: "SELL",
+        order_type: "StopLimit",
+        time_in_force: "GTC",
+        symbol: "BTC-USD",
+        units: 0.25,
+        price: 60000,
+        stop: 60500
+      });
+      return { data: { brokerage_order_id: "crypto-new" }, headers: {} };
+    });
+
+    const app = createApp();
+    const res = await app.request("/crypto/replace", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        accountId: "77777777-8888-4999-8aaa-111111111111",
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        brokerage_order_id: "crypto-old",
+        instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+        side: "SELL",
+        type: "STOP_LOSS_LIMIT",
+        time_in_force: "GTC",
+        amount: "0.25",
+        limit_price: "60000",
+        stop_price: "60500"
+      })
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      previous_brokerage_order_id: "crypto-old",
+      new_brokerage_order_id: "crypto-new",
+      order: { brokerage_order_id: "crypto-new" }
+    });
+  });
+
+  it("rejects crypto replacements missing the stop price", async () => {
+    const app = createApp();
+    const res = await app.request("/crypto/replace", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        accountId: "77777777-8888-4999-8aaa-111111111111",
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        brokerage_order_id: "crypto-old",
+        instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+        side: "SELL",
+        type: "STOP_LOSS_MARKET",
+        time_in_force: "GTC",
+        amount: "0.25"
+      })
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.issues.fieldErrors.stop_price).toEqual(["stop_price is required for STOP_* and TAKE_PROFIT_* orders"]);
+    expect(tradingMocks.replaceOrder.mock.calls.length).toBe(0);
+  });
+});
+
+describe("crypto risk checks", () => {
+  const riskKeys = ["COINAGE_RISK_MAX_ORDER_NOTIONAL", "COINAGE_RISK_MAX_DAILY_NOTIONAL", "COINAGE_RISK_CRYPTO_PAIR_DENYLIST"] as const;
+  const originalRisk = Object.fromEntries(riskKeys.map((key) => [key, env[key]]));
+  const order = {
+    accountId: "77777777-3333-4444-8bbb-666666666666",
+    userId: "snap-user",
+    userSecret: "snap-secret",
+    instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" as const },
+    side: "BUY" as const,
+    type: "MARKET" as const,
+    time_in_force: "GTC" as const,
+    amount: "1000"
+  };
+  const post = (path: string, body: unknown) =>
+    createApp().request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+
+  beforeEach(() => {
+    resetRiskChecksForTests();
+    Object.assign(env, originalRisk);
+  });
+
+  afterAll(() => {
+    Object.assign(env, originalRisk);
+  });
+
+  it("prices market orders from the quote and rejects a fat-fingered amount", async () => {
+    (env as any).COINAGE_RISK_MAX_ORDER_NOTIONAL = 100_000;
+    tradingMocks.getCryptocurrencyPairQuote.mockImplementation(async (req: any) => {
+      expect(req.instrumentSymbol).toBe("BTC-USD");
+      return { data: { bid: "59990", ask: "60010", mid: "60000" }, headers: {} };
+    });
+
+    const res = await post("/crypto/place", order);
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({
+      error: "risk_rejected",
+      rule: "max_order_notional",
+      message: "Order notional 60010000 exceeds the limit of 100000."
+    });
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(0);
+  });
+
+  it("checks previews and uses the limit price when there is one", async () => {
+    (env as any).COINAGE_RISK_MAX_ORDER_NOTIONAL = 100_000;
+    tradingMocks.previewCryptoOrder.mockImplementation(async () => ({ data: { estimated_fee: null }, headers: {} }));
+
+    const ok = await post("/crypto/preview", { ...order, type: "LIMIT", amount: "1", limit_price: "60000" });
+    const tooBig = await post("/crypto/preview", { ...order, type: "LIMIT", amount: "2", limit_price: "60000" });
+
+    expect(ok.status).toBe(200);
+    expect(tooBig.status).toBe(422);
+    expect(tradingMocks.previewCryptoOrder.mock.calls.length).toBe(1);
+    expect(tradingMocks.getCryptocurrencyPairQuote.mock.calls.length).toBe(0);
+  });
+
+  it("rejects denied pairs before taking a throttle slot", async () => {
+    (env as any).COINAGE_RISK_CRYPTO_PAIR_DENYLIST = ["DOGE-USD"];
+    tradingMocks.placeCryptoOrder.mockImplementation(async () => ({ data: { order_id: "btc" }, headers: {} }));
+
+    const denied = await post("/crypto/place", { ...order, instrument: { ...order.instrument, symbol: "doge-usd" } });
+    expect(denied.status).toBe(422);
+    expect((await denied.json()).rule).toBe("symbol_denylist");
+
+    expect((await post("/crypto/place", order)).status).toBe(200);
+  });
+
+  it("does not count failed placements against the daily limit", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 100_000;
+    const limit = { ...order, type: "LIMIT", amount: "1", limit_price: "60000" };
+    tradingMocks.placeCryptoOrder.mockImplementationOnce(async () => {
+      const error: any = new Error("Request failed with status code 400");
+      error.response = { status: 400, data: { detail: "Insufficient funds" }, headers: {} };
+      throw error;
+    });
+    tradingMocks.placeCryptoOrder.mockImplementation(async () => ({ data: { order_id: "ok" }, headers: {} }));
+
+    expect((await post("/crypto/place", limit)).status).toBe(400);
+    resetCryptoRateLimiterForTests();
+    expect((await post("/crypto/place", limit)).status).toBe(200);
+    resetCryptoRateLimiterForTests();
+    const over = await post("/crypto/place", limit);
+    expect(over.status).toBe(422);
+    expect((await over.json()).rule).toBe("max_daily_notional");
+  });
+
+  it("keeps counting placements whose outcome is unknown", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 130_000;
+    const limit = { ...order, type: "LIMIT", amount: "1", limit_price: "60000" };
+    tradingMocks.placeCryptoOrder.mockImplementationOnce(async () => {
+      const error: any = new Error("Request failed with status code 502");
+      error.response = { status: 502, data: { detail: "Bad gateway" }, headers: {} };
+      throw error;
+    });
+    tradingMocks.placeCryptoOrder.mockImplementationOnce(async () => {
+      throw Object.assign(new Error("timeout of 10000ms exceeded"), { code: "ECONNABORTED" });
+    });
+
+    expect((await post("/crypto/place", limit)).status).toBe(502);
+    resetCryptoRateLimiterForTests();
+    const timedOut = await post("/crypto/place", limit);
+    expect(timedOut.status).toBe(504);
+    expect((await timedOut.json()).code).toBe("SNAPTRADE_TIMEOUT");
+    resetCryptoRateLimiterForTests();
+    const over = await post("/crypto/place", limit);
+    expect(over.status).toBe(422);
+    expect((await over.json()).rule).toBe("max_daily_notional");
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(2);
+  });
+
+  it("checks replacements and counts them against the daily limit", async () => {
+    (env as any).COINAGE_RISK_MAX_ORDER_NOTIONAL = 100_000;
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 100_000;
+    const replacement = { ...order, brokerage_order_id: "ord-1", type: "LIMIT", amount: "1", limit_price: "60000" };
+    tradingMocks.replaceOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "ord-2" }, headers: {} }));
+
+    const tooBig = await post("/crypto/replace", { ...replacement, amount: "2" });
+    expect(tooBig.status).toBe(422);
+    expect((await tooBig.json()).rule).toBe("max_order_notional");
+    expect(tradingMocks.replaceOrder.mock.calls.length).toBe(0);
+
+    expect((await post("/crypto/replace", replacement)).status).toBe(200);
+    resetCryptoRateLimiterForTests();
+    const over = await post("/crypto/replace", replacement);
+    expect(over.status).toBe(422);
+    expect((await over.json()).rule).toBe("max_daily_notional");
+    expect(tradingMocks.replaceOrder.mock.calls.length).toBe(1);
+  });
+});
+
+describe("crypto kill switch", () => {
+  const order = {
+    accountId: "77777777-3333-4444-8bbb-666666666666",
+    userId: "snap-user",
+    userSecret: "snap-secret",
+    instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" as const },
+    side: "BUY" as const,
+    type: "MARKET" as const,
+    time_in_force: "GTC" as const,
+    amount: "0.1"
+  };
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    createApp().request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body)
+    });
+
+  beforeEach(() => resetKillSwitchForTests());
+  afterAll(() => resetKillSwitchForTests());
+
+  it("halts placement without recording the idempotency key, and leaves previews alone", async () => {
+    await haltTrading({ scope: "asset_class", assetClass: "crypto", reason: "broker_incident" });
+    tradingMocks.previewCryptoOrder.mockImplementation(async () => ({ data: { estimated_fee: null }, headers: {} }));
+    tradingMocks.placeCryptoOrder.mockImplementation(async () => ({ data: { order_id: "btc" }, headers: {} }));
+    const key = { "Idempotency-Key": crypto.randomUUID() };
+
+    const halted = await post("/crypto/place", order, key);
+    expect(halted.status).toBe(503);
+    expect(await halted.json()).toEqual({
+      error: "trading_halted",
+      message: "Trading is halted for crypto.",
+      scope: "asset_class",
+      reason: "broker_incident",
+      note: null,
+      haltedAt: expect.any(String)
+    });
+    expect((await post("/crypto/preview", order)).status).toBe(200);
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(0);
+
+    resetKillSwitchForTests();
+    const placed = await post("/crypto/place", order, key);
+    expect(placed.status).toBe(200);
+    expect(placed.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+});
+
+describe("crypto paper trading", () => {
+  const order = {
+    accountId: "88888888-3333-4444-8bbb-666666666666",
+    userId: "snap-user",
+    userSecret: "snap-secret",
+    instrument: { symbol: "ETH-USD", type: "CRYPTOCURRENCY_PAIR" as const },
+    side: "SELL" as const,
+    type: "MARKET" as const,
+    time_in_force: "GTC" as const,
+    amount: "2"
+  };
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    createApp().request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body)
+    });
+  const originalPaperTrading = env.COINAGE_PAPER_TRADING;
+
+  beforeEach(() =>
+    resetPaperTradingForTests({
+      cryptoPair: async () => ({ bid: 2_000, ask: 2_001 }),
+      equity: async () => ({ bid: 0, ask: 0 })
+    })
+  );
+  afterAll(() => resetPaperTradingForTests());
+
+  it("places paper orders on the simulated broker when the request opts in", async () => {
+    const res = await post("/crypto/place", order, { "X-Coinage-Paper-Trading": "true" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Coinage-Paper-Trading")).toBe("true");
+    const body = await res.json();
+    expect(body.order).toMatchObject({ status: "EXECUTED", execution_price: 2_000, filled_quantity: "2" });
+    expect(body.brokerage_order_id).toBe(body.order.brokerage_order_id);
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(0);
+  });
+
+  it("sends every order to paper when the env says so", async () => {
+    (env as any).COINAGE_PAPER_TRADING = true;
+    try {
+      const preview = await post("/crypto/preview", order, { "X-Coinage-Paper-Trading": "false" });
+      expect(preview.status).toBe(200);
+      expect(await preview.json()).toEqual({ estimated_fee: { currency: "USD", amount: "24" } });
+
+      const replace = await post("/crypto/replace", { ...order, brokerage_order_id: "ord-1" });
+      expect(replace.status).toBe(501);
+      expect((await replace.json()).error).toBe("paper_trading_unsupported");
+      expect(tradingMocks.previewCryptoOrder.mock.calls.length).toBe(0);
+      expect(tradingMocks.replaceOrder.mock.calls.length).toBe(0);
+    } finally {
+      (env as any).COINAGE_PAPER_TRADING = originalPaperTrading;
+    }
+  });
+
+  it("rejects a paper-trading header it cannot read", async () => {
+    const res = await post("/crypto/place", order, { "X-Coinage-Paper-Trading": "yes" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("invalid_header");
+    expect(tradingMocks.placeCryptoOrder.mock.calls.length).toBe(0);
+  });
 });
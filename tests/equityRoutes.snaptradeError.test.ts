@@ -35,7 +35,7 @@ mock.module("../src/lib/snaptrade", () => ({
   }
 }));
 
-import { registerEquityRoutes } from "../src/routes/equity";
+import { registerEquityRoutes, resetEquityRateLimiterForTests } from "../src/routes/equity";
 
 function createApp() {
   const app = new Hono();
@@ -46,6 +46,7 @@ function createApp() {
 const originalSharedSecret = env.COINAGE_TS_SHARED_SECRET;
 
 beforeEach(() => {
+  resetEquityRateLimiterForTests();
   /**
    * Make this test environment-independent.
    *
@@ -1,26 +1,43 @@
 import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Hono } from "hono";
 import { env } from "../src/lib/env";
+import { signedHeaders } from "./helpers/signing";
 
 const tradingMocks = {
   getOrderImpact: mock(async () => {
     throw new Error("getOrderImpact mock not configured");
   }),
+  getUserAccountQuotes: mock(async () => {
+    throw new Error("getUserAccountQuotes mock not configured");
+  }),
   placeOrder: mock(async () => {
     throw new Error("placeOrder mock not configured");
   }),
   placeForceOrder: mock(async () => {
     throw new Error("placeForceOrder mock not configured");
+  }),
+  replaceOrder: mock(async () => {
+    throw new Error("replaceOrder mock not configured");
+  })
+};
+
+const referenceDataMocks = {
+  symbolSearchUserAccount: mock(async () => {
+    throw new Error("symbolSearchUserAccount mock not configured");
   })
 };
 
 mock.module("../src/lib/snaptrade", () => ({
   snaptrade: {
-    trading: tradingMocks
+    trading: tradingMocks,
+    referenceData: referenceDataMocks
   }
 }));
 
-import { registerEquityRoutes } from "../src/routes/equity";
+import { registerEquityRoutes, resetEquityRateLimiterForTests } from "../src/routes/equity";
+import { resetRiskChecksForTests } from "../src/lib/riskChecks";
+import { haltTrading, resetKillSwitchForTests, resumeTrading } from "../src/lib/killSwitch";
+import { resetPaperTradingForTests } from "../src/lib/paperTrading";
 
 function createApp() {
   const app = new Hono();
@@ -28,8 +45,33 @@ function createApp() {
   return app;
 }
 
+/**
+ * Posts JSON the way the Java backend does, signing the request whenever the
+ * environment configures a shared secret.
+ */
+function postJson(app: Hono, path: string, payload: unknown) {
+  const body = JSON.stringify(payload);
+  const secret = env.COINAGE_TS_SHARED_SECRET;
+  return app.request(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(secret ? signedHeaders(secret, { method: "POST", path, body }) : {})
+    },
+    body
+  });
+}
+
+function getSigned(app: Hono, path: string) {
+  const secret = env.COINAGE_TS_SHARED_SECRET;
+  return app.request(path, {
+    headers: secret ? signedHeaders(secret, { method: "GET", path }) : {}
+  });
+}
+
 beforeEach(() => {
-  for (const fn of Object.values(tradingMocks)) {
+  resetEquityRateLimiterForTests();
+  for (const fn of [...Object.values(tradingMocks), ...Object.values(referenceDataMocks)]) {
     fn.mockReset();
     fn.mockImplementation(async () => {
       throw new Error("mock not configured");
@@ -73,22 +115,15 @@ describe("equity routes", () => {
     });
 
     const app = createApp();
-    const res = await app.request("/equity/impact", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(env.COINAGE_TS_SHARED_SECRET ? { "X-Coinage-TS-Secret": env.COINAGE_TS_SHARED_SECRET } : {})
-      },
-      body: JSON.stringify({
-        accountId,
-        userId: "snap-user",
-        userSecret: "snap-secret",
-        action: "SELL",
-        orderType: "Market",
-        timeInForce: "Day",
-        symbol: "AAPL",
-        notionalValue: "25"
-      })
+    const res = await postJson(app, "/equity/impact", {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "SELL",
+      orderType: "Market",
+      timeInForce: "Day",
+      symbol: "AAPL",
+      notionalValue: "25"
     });
 
     const body = await res.json();
@@ -125,22 +160,15 @@ describe("equity routes", () => {
     });
 
     const app = createApp();
-    const res = await app.request("/equity/place", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(env.COINAGE_TS_SHARED_SECRET ? { "X-Coinage-TS-Secret": env.COINAGE_TS_SHARED_SECRET } : {})
-      },
-      body: JSON.stringify({
-        accountId,
-        userId: "snap-user",
-        userSecret: "snap-secret",
-        action: "BUY",
-        orderType: "Market",
-        timeInForce: "Day",
-        symbol: "AAPL",
-        notionalValue: "50"
-      })
+    const res = await postJson(app, "/equity/place", {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "BUY",
+      orderType: "Market",
+      timeInForce: "Day",
+      symbol: "AAPL",
+      notionalValue: "50"
     });
 
     const body = await res.json();
@@ -186,18 +214,11 @@ describe("equity routes", () => {
     });
 
     const app = createApp();
-    const res = await app.request("/equity/trade", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(env.COINAGE_TS_SHARED_SECRET ? { "X-Coinage-TS-Secret": env.COINAGE_TS_SHARED_SECRET } : {})
-      },
-      body: JSON.stringify({
-        accountId,
-        userId: "snap-user",
-        userSecret: "snap-secret",
-        tradeId: "139e307a-82f7-4402-b39e-4da7baa87758"
-      })
+    const res = await postJson(app, "/equity/trade", {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      tradeId: "139e307a-82f7-4402-b39e-4da7baa87758"
     });
 
     const body = await res.json();
@@ -237,22 +258,523 @@ describe("equity routes", () => {
 
   it("rejects invalid payloads with 400", async () => {
     const app = createApp();
-    const res = await app.request("/equity/place", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(env.COINAGE_TS_SHARED_SECRET ? { "X-Coinage-TS-Secret": env.COINAGE_TS_SHARED_SECRET } : {})
-      },
-      body: JSON.stringify({
-        // missing accountId/userId/userSecret, etc.
-        action: "BUY",
-        orderType: "Market",
-        timeInForce: "Day",
-        symbol: "AAPL"
-      })
+    const res = await postJson(app, "/equity/place", {
+      // missing accountId/userId/userSecret, etc.
+      action: "BUY",
+      orderType: "Market",
+      timeInForce: "Day",
+      symbol: "AAPL"
     });
     expect(res.status).toBe(400);
     const json = await res.json();
     expect(json.error).toBe("validation_error");
   });
+
+  it("replaces a resting order and separates the old and new order ids", async () => {
+    const accountId = "66666666-7777-4888-8fff-000000000000";
+    tradingMocks.replaceOrder.mockImplementation(async (payload: any) => {
+      expect(payload).toEqual({
+        accountId,
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        brokerage_order_id: "bo-old",
+        action: "BUY",
+        order_type: "StopLimit",
+        time_in_force: "GTC",
+        symbol: "AAPL",
+        price: 101.5,
+        stop: 100
+      });
+      return {
+        data: { brokerage_order_id: "bo-new", status: "ACCEPTED" },
+        headers: { "x-request-id": "req-replace" }
+      };
+    });
+
+    const app = createApp();
+    const res = await postJson(app, "/equity/replace", {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      brokerage_order_id: "bo-old",
+      action: "BUY",
+      orderType: "StopLimit",
+      timeInForce: "GTC",
+      symbol: "AAPL",
+      price: "101.5",
+      stop: 100
+    });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      previous_brokerage_order_id: "bo-old",
+      new_brokerage_order_id: "bo-new",
+      order: { brokerage_order_id: "bo-new", status: "ACCEPTED" }
+    });
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-replace");
+  });
+
+  it("applies the order-type price rules to replacements", async () => {
+    const app = createApp();
+    const res = await postJson(app, "/equity/replace", {
+      accountId: "66666666-7777-4888-8fff-000000000000",
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      brokerage_order_id: "bo-old",
+      action: "SELL",
+      orderType: "Limit",
+      timeInForce: "Day"
+    });
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.issues.fieldErrors.price).toEqual(["price is required for Limit and StopLimit orders"]);
+    expect(tradingMocks.replaceOrder.mock.calls.length).toBe(0);
+  });
+
+  it("enforces per-account rate limiting on place and trade", async () => {
+    tradingMocks.placeForceOrder.mockImplementation(async () => ({
+      data: { brokerage_order_id: "bo-3", status: "EXECUTED" },
+      headers: { get: () => undefined }
+    }));
+    tradingMocks.placeOrder.mockImplementation(async () => ({
+      data: { brokerage_order_id: "bo-4", status: "EXECUTED" },
+      headers: { get: () => undefined }
+    }));
+
+    const accountId = "44444444-5555-4666-8ddd-888888888888";
+    const order = {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "BUY",
+      orderType: "Market",
+      timeInForce: "Day",
+      symbol: "AAPL",
+      units: 1
+    };
+
+    const app = createApp();
+    const first = await postJson(app, "/equity/place", order);
+    expect(first.status).toBe(200);
+
+    const second = await postJson(app, "/equity/place", order);
+    expect(second.status).toBe(429);
+    expect(Number(second.headers.get("Retry-After"))).toBeGreaterThanOrEqual(1);
+    const secondBody = await second.json();
+    expect(secondBody.error).toBe("rate_limited");
+    expect(secondBody.retryAfterMs).toBeGreaterThan(0);
+
+    // Checked-order placement draws from the same per-account bucket.
+    const trade = await postJson(app, "/equity/trade", {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      tradeId: "139e307a-82f7-4402-b39e-4da7baa87758"
+    });
+    expect(trade.status).toBe(429);
+
+    // Other accounts are unaffected.
+    const otherAccount = await postJson(app, "/equity/place", {
+      ...order,
+      accountId: "55555555-6666-4777-8eee-999999999999"
+    });
+    expect(otherAccount.status).toBe(200);
+
+    expect(tradingMocks.placeForceOrder.mock.calls.length).toBe(2);
+    expect(tradingMocks.placeOrder.mock.calls.length).toBe(0);
+  });
+
+  describe("symbol resolution", () => {
+    const accountId = "77777777-8888-4999-8aaa-bbbbbbbbbbbb";
+    const symbol = (id: string, ticker: string, exchange: string) => ({
+      id,
+      symbol: ticker,
+      raw_symbol: ticker.split(".")[0],
+      description: `${ticker} on ${exchange}`,
+      exchange: { code: exchange, mic_code: `X${exchange}` },
+      currency: { code: "USD" },
+      type: { code: "cs" }
+    });
+    const order = {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "BUY",
+      orderType: "Market",
+      timeInForce: "Day",
+      units: 2,
+      resolveSymbol: true
+    };
+
+    it("searches the account's tradable symbols", async () => {
+      const results = [symbol("0b5c1a1e-0000-4000-8000-000000000001", "SHOP", "NYSE")];
+      referenceDataMocks.symbolSearchUserAccount.mockImplementation(async (req: any) => {
+        expect(req).toEqual({ userId: "snap-user", userSecret: "snap-secret", accountId, substring: "SHO" });
+        return { data: results, headers: { "x-request-id": "req-symbols" } };
+      });
+
+      const res = await postJson(createApp(), "/equity/symbols", {
+        accountId,
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        substring: "SHO"
+      });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(results);
+      expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-symbols");
+      expect(res.headers.get("X-Coinage-Attempts")).toBe("1");
+    });
+
+    it("places by the single exact ticker match", async () => {
+      referenceDataMocks.symbolSearchUserAccount.mockImplementation(async () => ({
+        // Substring search also returns SHOPX; only the exact ticker counts.
+        data: [
+          symbol("0b5c1a1e-0000-4000-8000-000000000001", "SHOP", "NYSE"),
+          symbol("0b5c1a1e-0000-4000-8000-000000000002", "SHOPX", "NASDAQ")
+        ],
+        headers: {}
+      }));
+      tradingMocks.placeForceOrder.mockImplementation(async (payload: any) => {
+        expect(payload.universal_symbol_id).toBe("0b5c1a1e-0000-4000-8000-000000000001");
+        expect(payload.symbol).toBeUndefined();
+        return { data: { brokerage_order_id: "bo-5", status: "EXECUTED" }, headers: {} };
+      });
+
+      const res = await postJson(createApp(), "/equity/place", { ...order, symbol: "shop" });
+
+      expect(res.status).toBe(200);
+      expect(tradingMocks.placeForceOrder.mock.calls.length).toBe(1);
+    });
+
+    it("rejects an ambiguous ticker with its candidates", async () => {
+      referenceDataMocks.symbolSearchUserAccount.mockImplementation(async () => ({
+        data: [
+          symbol("0b5c1a1e-0000-4000-8000-000000000001", "SHOP", "NYSE"),
+          symbol("0b5c1a1e-0000-4000-8000-000000000003", "SHOP.TO", "TSX")
+        ],
+        headers: {}
+      }));
+
+      const res = await postJson(createApp(), "/equity/impact", { ...order, symbol: "SHOP" });
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.error).toBe("ambiguous_symbol");
+      expect(body.candidates.map((c: any) => [c.universalSymbolId, c.exchange])).toEqual([
+        ["0b5c1a1e-0000-4000-8000-000000000001", "NYSE"],
+        ["0b5c1a1e-0000-4000-8000-000000000003", "TSX"]
+      ]);
+      expect(tradingMocks.getOrderImpact.mock.calls.length).toBe(0);
+    });
+
+    it("rejects a ticker the account cannot trade without using a throttle slot", async () => {
+      referenceDataMocks.symbolSearchUserAccount.mockImplementation(async () => ({ data: [], headers: {} }));
+      tradingMocks.placeForceOrder.mockImplementation(async () => ({
+        data: { brokerage_order_id: "bo-6", status: "EXECUTED" },
+        headers: {}
+      }));
+
+      const missing = await postJson(createApp(), "/equity/place", { ...order, symbol: "NOPE" });
+      expect(missing.status).toBe(422);
+      expect((await missing.json()).error).toBe("symbol_not_found");
+
+      const unresolved = await postJson(createApp(), "/equity/place", { ...order, resolveSymbol: false, symbol: "NOPE" });
+      expect(unresolved.status).toBe(200);
+      expect(tradingMocks.placeForceOrder.mock.calls[0]![0]).toMatchObject({ symbol: "NOPE" });
+    });
+  });
+
+  describe("quotes", () => {
+    const auth = "accountId=88888888-9999-4aaa-8bbb-cccccccccccc&userId=snap-user&userSecret=snap-secret";
+
+    it("accepts repeated and comma-separated tickers in one SnapTrade call", async () => {
+      const quotes = [
+        { symbol: { symbol: "AAPL" }, bid_price: 189.1, ask_price: 189.2, last_trade_price: 189.15 },
+        { symbol: { symbol: "MSFT" }, bid_price: 410.0, ask_price: 410.3, last_trade_price: 410.1 },
+        { symbol: { symbol: "VTI" }, bid_price: 250.4, ask_price: 250.5, last_trade_price: 250.45 }
+      ];
+      tradingMocks.getUserAccountQuotes.mockImplementation(async (req: any) => {
+        expect(req).toEqual({
+          userId: "snap-user",
+          userSecret: "snap-secret",
+          accountId: "88888888-9999-4aaa-8bbb-cccccccccccc",
+          symbols: "AAPL,MSFT,VTI",
+          useTicker: true
+        });
+        return { data: quotes, headers: { "x-request-id": "req-quotes" } };
+      });
+
+      const res = await getSigned(createApp(), `/equity/quote?${auth}&symbols=AAPL,MSFT&symbols=VTI&symbols=AAPL`);
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(quotes);
+      expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-quotes");
+      expect(res.headers.get("X-Coinage-Attempts")).toBe("1");
+    });
+
+    it("quotes universal symbol ids without use_ticker", async () => {
+      const ids = ["0b5c1a1e-0000-4000-8000-000000000001", "0b5c1a1e-0000-4000-8000-000000000002"];
+      tradingMocks.getUserAccountQuotes.mockImplementation(async (req: any) => {
+        expect(req.symbols).toBe(ids.join(","));
+        expect(req.useTicker).toBe(false);
+        return { data: [], headers: {} };
+      });
+
+      const res = await getSigned(createApp(), `/equity/quote?${auth}&symbols=${ids[0]}&symbols=${ids[1]}`);
+
+      expect(res.status).toBe(200);
+      expect(tradingMocks.getUserAccountQuotes.mock.calls.length).toBe(1);
+    });
+
+    it("rejects missing symbols and lists mixing tickers with ids", async () => {
+      const missing = await getSigned(createApp(), `/equity/quote?${auth}&symbols=`);
+      expect(missing.status).toBe(400);
+
+      const mixed = await getSigned(
+        createApp(),
+        `/equity/quote?${auth}&symbols=AAPL&symbols=0b5c1a1e-0000-4000-8000-000000000001`
+      );
+      expect(mixed.status).toBe(400);
+      expect((await mixed.json()).issues.fieldErrors.symbols).toEqual([
+        "symbols must be all tickers or all universal symbol ids"
+      ]);
+      expect(tradingMocks.getUserAccountQuotes.mock.calls.length).toBe(0);
+    });
+  });
+
+  describe("risk checks", () => {
+    const riskKeys = [
+      "COINAGE_RISK_MAX_ORDER_NOTIONAL",
+      "COINAGE_RISK_MAX_DAILY_NOTIONAL",
+      "COINAGE_RISK_EQUITY_MAX_UNITS",
+      "COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST",
+      "COINAGE_RISK_EQUITY_SYMBOL_DENYLIST"
+    ] as const;
+    const originalRisk = Object.fromEntries(riskKeys.map((key) => [key, env[key]]));
+    const order = {
+      accountId: "11111111-2222-4333-8aaa-555555555555",
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "BUY",
+      orderType: "Market",
+      timeInForce: "Day",
+      symbol: "AAPL",
+      units: 10
+    };
+
+    beforeEach(() => {
+      resetRiskChecksForTests();
+      Object.assign(env, originalRisk);
+    });
+
+    afterAll(() => {
+      Object.assign(env, originalRisk);
+    });
+
+    it("caps units and prices market orders from the account quote", async () => {
+      (env as any).COINAGE_RISK_EQUITY_MAX_UNITS = 100;
+      (env as any).COINAGE_RISK_MAX_ORDER_NOTIONAL = 1_500;
+      tradingMocks.getUserAccountQuotes.mockImplementation(async (req: any) => {
+        expect(req.symbols).toBe("AAPL");
+        expect(req.useTicker).toBe(true);
+        return { data: [{ ask_price: 200, bid_price: 199, last_trade_price: 199.5 }], headers: {} };
+      });
+
+      const units = await postJson(createApp(), "/equity/place", { ...order, units: 1_000 });
+      expect(units.status).toBe(422);
+      expect((await units.json()).rule).toBe("max_order_quantity");
+
+      const notional = await postJson(createApp(), "/equity/place", order);
+      expect(notional.status).toBe(422);
+      expect(await notional.json()).toEqual({
+        error: "risk_rejected",
+        rule: "max_order_notional",
+        message: "Order notional 2000 exceeds the limit of 1500."
+      });
+
+      const stated = await postJson(createApp(), "/equity/impact", { ...order, units: undefined, notionalValue: "1600" });
+      expect(stated.status).toBe(422);
+      expect(tradingMocks.getUserAccountQuotes.mock.calls.length).toBe(1);
+      expect(tradingMocks.placeForceOrder.mock.calls.length).toBe(0);
+      expect(tradingMocks.getOrderImpact.mock.calls.length).toBe(0);
+    });
+
+    it("lets /equity/trade place only trades impact checked, against the daily limit", async () => {
+      (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 3_000;
+      const limit = { ...order, orderType: "Limit", price: 200 };
+      let trade = 0;
+      const tradeIds = ["aaaaaaaa-0000-4000-8000-000000000001", "aaaaaaaa-0000-4000-8000-000000000002"];
+      tradingMocks.getOrderImpact.mockImplementation(async () => ({ data: { trade: { id: tradeIds[trade++] } }, headers: {} }));
+      tradingMocks.placeOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "ord" }, headers: {} }));
+      const place = (tradeId: string) =>
+        postJson(createApp(), "/equity/trade", { accountId: order.accountId, userId: "snap-user", userSecret: "snap-secret", tradeId });
+
+      expect((await postJson(createApp(), "/equity/impact", limit)).status).toBe(200);
+      expect((await postJson(createApp(), "/equity/impact", limit)).status).toBe(200);
+
+      const unchecked = await place("bbbbbbbb-0000-4000-8000-000000000009");
+      expect(unchecked.status).toBe(422);
+      expect((await unchecked.json()).rule).toBe("unchecked_trade");
+
+      expect((await place(tradeIds[0]!)).status).toBe(200);
+      resetEquityRateLimiterForTests();
+      const overDaily = await place(tradeIds[1]!);
+      expect(overDaily.status).toBe(422);
+      expect((await overDaily.json()).rule).toBe("max_daily_notional");
+      expect(tradingMocks.placeOrder.mock.calls.length).toBe(1);
+    });
+
+    it("matches universal symbol ids against the allow list", async () => {
+      const id = "0b5c1a1e-0000-4000-8000-000000000001";
+      (env as any).COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST = ["MSFT", id.toUpperCase()];
+      tradingMocks.placeForceOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "ord" }, headers: {} }));
+
+      const ticker = await postJson(createApp(), "/equity/place", order);
+      expect(ticker.status).toBe(422);
+      expect((await ticker.json()).rule).toBe("symbol_allowlist");
+
+      const byId = await postJson(createApp(), "/equity/place", { ...order, symbol: undefined, universalSymbolId: id });
+      expect(byId.status).toBe(200);
+    });
+
+    it("resolves universal symbol ids to tickers for the deny list", async () => {
+      const id = "0b5c1a1e-0000-4000-8000-000000000001";
+      (env as any).COINAGE_RISK_EQUITY_SYMBOL_DENYLIST = ["GME"];
+      tradingMocks.getUserAccountQuotes.mockImplementationOnce(async (req: any) => {
+        expect(req.symbols).toBe(id);
+        expect(req.useTicker).toBe(false);
+        return { data: [{ symbol: { id, symbol: "GME" }, ask_price: 20 }], headers: {} };
+      });
+      tradingMocks.getUserAccountQuotes.mockImplementationOnce(async () => ({ data: [], headers: {} }));
+      const byId = { ...order, symbol: undefined, universalSymbolId: id };
+
+      const denied = await postJson(createApp(), "/equity/place", byId);
+      expect(denied.status).toBe(422);
+      expect((await denied.json()).rule).toBe("symbol_denylist");
+
+      const unknown = await postJson(createApp(), "/equity/place", byId);
+      expect(unknown.status).toBe(422);
+      expect(await unknown.json()).toEqual({
+        error: "risk_rejected",
+        rule: "symbol_denylist",
+        message: `Unable to determine the ticker of ${id} to check the deny list.`
+      });
+      expect(tradingMocks.placeForceOrder.mock.calls.length).toBe(0);
+    });
+
+    it("checks replacements on the size and price they state", async () => {
+      (env as any).COINAGE_RISK_EQUITY_MAX_UNITS = 100;
+      (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 3_000;
+      const replacement = { ...order, brokerage_order_id: "ord-1", orderType: "Limit", price: 200 };
+      tradingMocks.replaceOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "ord-2" }, headers: {} }));
+
+      const units = await postJson(createApp(), "/equity/replace", { ...replacement, units: 1_000 });
+      expect(units.status).toBe(422);
+      expect((await units.json()).rule).toBe("max_order_quantity");
+
+      // Without units the replacement cannot be valued, so the daily limit fails closed.
+      const unsized = await postJson(createApp(), "/equity/replace", { ...replacement, units: undefined });
+      expect(unsized.status).toBe(422);
+      expect((await unsized.json()).rule).toBe("max_daily_notional");
+
+      expect((await postJson(createApp(), "/equity/replace", replacement)).status).toBe(200);
+      resetEquityRateLimiterForTests();
+      const overDaily = await postJson(createApp(), "/equity/replace", replacement);
+      expect(overDaily.status).toBe(422);
+      expect((await overDaily.json()).rule).toBe("max_daily_notional");
+      expect(tradingMocks.replaceOrder.mock.calls.length).toBe(1);
+    });
+  });
+
+  describe("kill switch", () => {
+    const accountId = "11111111-2222-4333-8aaa-555555555555";
+    const order = {
+      accountId,
+      userId: "snap-user",
+      userSecret: "snap-secret",
+      action: "BUY",
+      orderType: "Limit",
+      timeInForce: "Day",
+      symbol: "AAPL",
+      units: 1,
+      price: 200
+    };
+
+    beforeEach(() => resetKillSwitchForTests());
+    afterAll(() => resetKillSwitchForTests());
+
+    it("stops placement for a halted account while impact checks keep working", async () => {
+      await haltTrading({ scope: "account", accountId, reason: "broker_incident", note: "Fills delayed" });
+      tradingMocks.getOrderImpact.mockImplementation(async () => ({ data: { trade: { id: "t" } }, headers: {} }));
+      tradingMocks.placeForceOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "ord" }, headers: {} }));
+
+      const trade = await postJson(createApp(), "/equity/trade", {
+        accountId,
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        tradeId: "aaaaaaaa-0000-4000-8000-000000000001"
+      });
+      expect(trade.status).toBe(503);
+      expect(await trade.json()).toMatchObject({ error: "trading_halted", scope: "account", reason: "broker_incident", note: "Fills delayed" });
+      expect((await postJson(createApp(), "/equity/place", order)).status).toBe(503);
+      expect((await postJson(createApp(), "/equity/impact", order)).status).toBe(200);
+      expect(tradingMocks.placeOrder.mock.calls.length).toBe(0);
+
+      await resumeTrading({ scope: "account", accountId });
+      expect((await postJson(createApp(), "/equity/place", order)).status).toBe(200);
+    });
+  });
+
+  describe("paper trading", () => {
+    const account = { accountId: "11111111-2222-4333-8aaa-555555555555", userId: "snap-user", userSecret: "snap-secret" };
+    const originalPaperTrading = env.COINAGE_PAPER_TRADING;
+
+    beforeEach(() => {
+      (env as any).COINAGE_PAPER_TRADING = true;
+      resetPaperTradingForTests({
+        cryptoPair: async () => ({ bid: 0, ask: 0 }),
+        equity: async () => ({ bid: 189.5, ask: 190 })
+      });
+    });
+    afterAll(() => {
+      (env as any).COINAGE_PAPER_TRADING = originalPaperTrading;
+      resetPaperTradingForTests();
+    });
+
+    it("checks and places a trade on the simulated broker", async () => {
+      const impact = await postJson(createApp(), "/equity/impact", {
+        ...account,
+        action: "SELL",
+        orderType: "Market",
+        timeInForce: "Day",
+        symbol: "AAPL",
+        units: 2
+      });
+      expect(impact.status).toBe(200);
+      const { trade } = await impact.json();
+      expect(trade).toMatchObject({ action: "SELL", units: 2, price: 189.5, symbol: { symbol: "AAPL" } });
+
+      const placed = await postJson(createApp(), "/equity/trade", { ...account, tradeId: trade.id });
+      expect(placed.status).toBe(200);
+      expect(await placed.json()).toMatchObject({ status: "EXECUTED", action: "SELL", execution_price: 189.5 });
+      expect(tradingMocks.getOrderImpact.mock.calls.length).toBe(0);
+      expect(tradingMocks.placeOrder.mock.calls.length).toBe(0);
+    });
+
+    it("refuses replace, which has no simulation", async () => {
+      const res = await postJson(createApp(), "/equity/replace", {
+        ...account,
+        brokerage_order_id: "ord-1",
+        action: "BUY",
+        orderType: "Limit",
+        timeInForce: "Day",
+        price: 180
+      });
+
+      expect(res.status).toBe(501);
+      expect(tradingMocks.replaceOrder.mock.calls.length).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,174 @@
+import { createHmac } from "node:crypto";
+
+/**
+ * An in-repo stand-in for the SnapTrade HTTP API. Point `SNAPTRADE_BASE_URL`
+ * at `baseUrl` and the real SDK serializes, signs and parses against it, so
+ * tests cover the wire format that `mock.module` skips.
+ *
+ * Routes are scripted per test with `on`; anything unscripted is a 404.
+ * Requests that are not signed the way SnapTrade checks them get SnapTrade's
+ * 401 before any script runs.
+ */
+export type FakeResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Sent as JSON unless it is a string. */
+  body?: unknown;
+  /** Never answer; the caller's timeout has to fire. */
+  hang?: boolean;
+};
+
+export type RecordedRequest = {
+  method: string;
+  /** Path below the API base, e.g. `/accounts/{id}/orders/details`. */
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  signatureValid: boolean;
+};
+
+export const scenarios = {
+  success(body: unknown, headers: Record<string, string> = {}): FakeResponse {
+    return { status: 200, body, headers };
+  },
+
+  /** SnapTrade's error envelope around the brokerage's own error. */
+  brokerError(status: number, code: string, detail: string, rawError: unknown): FakeResponse {
+    return { status, body: { detail, status_code: status, code, raw_error: rawError } };
+  },
+
+  rateLimited(counters: { limit?: number; reset?: number; retryAfter?: number } = {}): FakeResponse {
+    const { limit = 250, reset = 60, retryAfter = 30 } = counters;
+    return {
+      status: 429,
+      headers: {
+        "x-ratelimit-limit": String(limit),
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(reset),
+        "retry-after": String(retryAfter)
+      },
+      body: { detail: "Rate limit exceeded", status_code: 429, code: "RATE_LIMITED" }
+    };
+  },
+
+  timeout(): FakeResponse {
+    return { hang: true };
+  },
+
+  /** A body that is not JSON, such as a load balancer's error page. */
+  text(status: number, body: string, contentType = "text/html"): FakeResponse {
+    return { status, body, headers: { "content-type": contentType } };
+  }
+};
+
+const API_PREFIX = "/api/v1";
+
+type Script = { method: string; pattern: RegExp; responses: FakeResponse[] };
+
+export class FakeSnaptrade {
+  readonly requests: RecordedRequest[] = [];
+  private scripts: Script[] = [];
+  private readonly hanging = new Set<() => void>();
+  private server: ReturnType<typeof Bun.serve> | undefined;
+
+  constructor(
+    readonly clientId: string,
+    private readonly consumerKey: string
+  ) {}
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error("FakeSnaptrade is not started");
+    }
+    return `http://127.0.0.1:${this.server.port}${API_PREFIX}`;
+  }
+
+  start(): this {
+    this.server = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: (request) => this.handle(request) });
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.release();
+    await this.server?.stop(true);
+    this.server = undefined;
+  }
+
+  /**
+   * Scripts `method` + `path` (SDK path template, `{param}` matches one
+   * segment). Responses are served in order and the last one repeats.
+   */
+  on(method: string, path: string, ...responses: FakeResponse[]): this {
+    const pattern = new RegExp(`^${path.replace(/\{[^}]+\}/g, "[^/]+")}$`);
+    this.scripts.unshift({ method: method.toUpperCase(), pattern, responses });
+    return this;
+  }
+
+  /** Forgets scripts and recorded requests, and answers anything left hanging. */
+  reset(): void {
+    this.scripts = [];
+    this.requests.length = 0;
+    this.release();
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const text = await request.text();
+    const body = text === "" ? null : JSON.parse(text);
+    const path = url.pathname.startsWith(API_PREFIX) ? url.pathname.slice(API_PREFIX.length) : url.pathname;
+    const signatureValid = this.verify(request, url, text);
+    this.requests.push({ method: request.method, path, query: url.searchParams, body, signatureValid });
+
+    if (!signatureValid) {
+      return json(401, { detail: "Unable to verify signature sent", status_code: 401, code: "1076" });
+    }
+    const script = this.scripts.find((entry) => entry.method === request.method && entry.pattern.test(path));
+    if (!script) {
+      return json(404, { detail: `No scenario for ${request.method} ${path}`, status_code: 404, code: "NOT_SCRIPTED" });
+    }
+    const response = script.responses.length > 1 ? script.responses.shift()! : script.responses[0]!;
+    if (response.hang) {
+      await new Promise<void>((resolve) => this.hanging.add(resolve));
+      return json(504, { detail: "Released by the test", status_code: 504 });
+    }
+    const headers = { "x-request-id": crypto.randomUUID(), ...response.headers };
+    if (typeof response.body === "string") {
+      return new Response(response.body, { status: response.status ?? 200, headers });
+    }
+    return json(response.status ?? 200, response.body ?? null, headers);
+  }
+
+  // SnapTrade signs `{ content, path, query }` with sorted keys, HMAC-SHA256
+  // keyed by the consumer key; `clientId` and `timestamp` ride in the query.
+  private verify(request: Request, url: URL, text: string): boolean {
+    const timestamp = Number(url.searchParams.get("timestamp"));
+    if (url.searchParams.get("clientId") !== this.clientId || Math.abs(Date.now() / 1000 - timestamp) > 300) {
+      return false;
+    }
+    const content = text === "" || text === "{}" ? null : JSON.parse(text);
+    const signed = stringifySorted({ content, path: url.pathname, query: url.search.replace(/^\?/, "") });
+    const expected = createHmac("sha256", encodeURI(this.consumerKey)).update(signed).digest("base64");
+    return request.headers.get("Signature") === expected;
+  }
+
+  private release(): void {
+    for (const resolve of this.hanging) {
+      resolve();
+    }
+    this.hanging.clear();
+  }
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return Response.json(body, { status, headers });
+}
+
+// JSON with every object's keys in sorted order, at any depth.
+function stringifySorted(value: unknown): string {
+  const keys = new Set<string>();
+  JSON.stringify(value, (key, inner) => {
+    keys.add(key);
+    return inner;
+  });
+  return JSON.stringify(value, [...keys].sort());
+}
@@ -0,0 +1,22 @@
+import { NONCE_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, signRequest } from "../../src/lib/requestSigning";
+
+/**
+ * Builds the signature headers the Java backend would send for a request.
+ * `path` must include the query string when there is one.
+ */
+export function signedHeaders(
+  secret: string,
+  options: { method: string; path: string; body?: string; timestamp?: number; nonce?: string }
+): Record<string, string> {
+  const timestamp = String(options.timestamp ?? Date.now());
+  const nonce = options.nonce ?? crypto.randomUUID();
+  const signature = signRequest(
+    { method: options.method, path: options.path, timestamp, nonce, body: options.body ?? "" },
+    secret
+  );
+  return {
+    [SIGNATURE_HEADER]: signature,
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce
+  };
+}
@@ -0,0 +1,175 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  MemoryIdempotencyStore,
+  SqliteIdempotencyStore,
+  idempotency,
+  markPlacementSent,
+  resetIdempotencyStoreForTests
+} from "../src/lib/idempotency";
+
+let handlerCalls = 0;
+let releaseHandler: (() => void) | undefined;
+
+function createApp() {
+  const app = new Hono();
+  app.post("/place", idempotency("test.place"), async (c) => {
+    handlerCalls += 1;
+    const body = await c.req.json();
+    if (body.slow) {
+      await new Promise<void>((resolve) => {
+        releaseHandler = resolve;
+      });
+    }
+    if (body.throttle) {
+      return c.json({ error: "rate_limited" }, 429);
+    }
+    if (body.failBeforePlacing) {
+      return c.json({ error: "risk_quote_failed" }, 502);
+    }
+    markPlacementSent(c);
+    if (body.failPlacing) {
+      return c.json({ code: "SNAPTRADE_TIMEOUT" }, 504);
+    }
+    c.header("X-SnapTrade-Request-ID", `req-${handlerCalls}`);
+    return c.json({ order_id: `order-${handlerCalls}` });
+  });
+  return app;
+}
+
+function place(app: Hono, key: string | undefined, payload: unknown, headers: Record<string, string> = {}) {
+  return app.request("/place", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(key ? { "Idempotency-Key": key } : {}),
+      ...headers
+    },
+    body: JSON.stringify(payload)
+  });
+}
+
+const sqlitePath = join(tmpdir(), `coinage-idempotency-${process.pid}.sqlite`);
+
+beforeEach(() => {
+  handlerCalls = 0;
+  releaseHandler = undefined;
+  resetIdempotencyStoreForTests();
+});
+
+afterAll(() => {
+  for (const suffix of ["", "-wal", "-shm"]) {
+    rmSync(`${sqlitePath}${suffix}`, { force: true });
+  }
+});
+
+describe("idempotency middleware", () => {
+  it("replays the first response, including SnapTrade headers, for a repeated key", async () => {
+    const app = createApp();
+    const first = await place(app, "key-1", { amount: "1" });
+    const second = await place(app, "key-1", { amount: "1" });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(await second.json()).toEqual({ order_id: "order-1" });
+    expect(second.headers.get("X-SnapTrade-Request-ID")).toBe("req-1");
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(handlerCalls).toBe(1);
+  });
+
+  it("rejects a reused key with a different payload", async () => {
+    const app = createApp();
+    await place(app, "key-2", { amount: "1" });
+    const res = await place(app, "key-2", { amount: "2" });
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toBe("idempotency_key_reused");
+    expect(handlerCalls).toBe(1);
+  });
+
+  it("never replays a paper response for a live request", async () => {
+    const app = createApp();
+    const paper = await place(app, "key-paper", { amount: "1" }, { "X-Coinage-Paper-Trading": "true" });
+    const live = await place(app, "key-paper", { amount: "1" });
+
+    expect(paper.status).toBe(200);
+    expect(live.status).toBe(422);
+    expect((await live.json()).error).toBe("idempotency_key_reused");
+    expect(handlerCalls).toBe(1);
+  });
+
+  it("returns 409 while the first request is still in flight", async () => {
+    const app = createApp();
+    const first = place(app, "key-3", { slow: true });
+    // Let the first request reach the handler before sending the duplicate.
+    while (!releaseHandler) {
+      await Bun.sleep(1);
+    }
+    const second = await place(app, "key-3", { slow: true });
+    expect(second.status).toBe(409);
+    expect((await second.json()).error).toBe("idempotency_conflict");
+
+    releaseHandler();
+    expect((await first).status).toBe(200);
+    expect(handlerCalls).toBe(1);
+  });
+
+  it("does not record throttled responses so the caller can retry with the same key", async () => {
+    const app = createApp();
+    const throttled = await place(app, "key-4", { throttle: true });
+    const retried = await place(app, "key-4", { throttle: true });
+
+    expect(throttled.status).toBe(429);
+    expect(retried.status).toBe(429);
+    expect(handlerCalls).toBe(2);
+  });
+
+  it("records 5xx responses only once the order was sent", async () => {
+    const app = createApp();
+    await place(app, "key-5", { failBeforePlacing: true });
+    expect((await place(app, "key-5", { failBeforePlacing: true })).headers.get("Idempotent-Replayed")).toBeNull();
+    expect(handlerCalls).toBe(2);
+
+    await place(app, "key-6", { failPlacing: true });
+    const replayed = await place(app, "key-6", { failPlacing: true });
+    expect(replayed.status).toBe(504);
+    expect(replayed.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(handlerCalls).toBe(3);
+  });
+
+  it("passes through requests without a key", async () => {
+    const app = createApp();
+    await place(app, undefined, { amount: "1" });
+    await place(app, undefined, { amount: "1" });
+    expect(handlerCalls).toBe(2);
+  });
+});
+
+describe("idempotency stores", () => {
+  it("expires memory records after the ttl", () => {
+    const store = new MemoryIdempotencyStore();
+    expect(store.begin("k", "fp", 1_000, 0).kind).toBe("started");
+    store.complete("k", { status: 200, body: "{}", headers: {} });
+    expect(store.begin("k", "fp", 1_000, 500).kind).toBe("replay");
+    expect(store.begin("k", "fp", 1_000, 1_500).kind).toBe("started");
+  });
+
+  it("persists completed responses across SQLite store instances", () => {
+    const writer = new SqliteIdempotencyStore(sqlitePath);
+    expect(writer.begin("k", "fp", 60_000).kind).toBe("started");
+    writer.complete("k", { status: 201, body: '{"ok":true}', headers: { "x-request-id": "req-9" } });
+    writer.close();
+
+    const reader = new SqliteIdempotencyStore(sqlitePath);
+    const outcome = reader.begin("k", "fp", 60_000);
+    expect(outcome).toEqual({
+      kind: "replay",
+      response: { status: 201, body: '{"ok":true}', headers: { "x-request-id": "req-9" } }
+    });
+    expect(reader.begin("k", "other", 60_000).kind).toBe("mismatch");
+    reader.close();
+  });
+});
@@ -0,0 +1,181 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+import {
+  MemoryKillSwitchStore,
+  RedisKillSwitchStore,
+  findHalt,
+  requireTradingEnabled,
+  resetKillSwitchForTests
+} from "../src/lib/killSwitch";
+import type { RedisCommandClient } from "../src/lib/rateLimiter";
+import { registerAdminRoutes } from "../src/routes/admin";
+
+/**
+ * In-process stand-in for the hash commands the Redis store uses.
+ */
+class FakeRedis implements RedisCommandClient {
+  readonly hashes = new Map<string, Map<string, string>>();
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const [key, field, value] = args;
+    const hash = this.hashes.get(key!) ?? new Map<string, string>();
+    this.hashes.set(key!, hash);
+    if (command === "HSET") {
+      hash.set(field!, value!);
+      return 1;
+    }
+    if (command === "HVALS") {
+      return [...hash.values()];
+    }
+    if (command === "HDEL") {
+      return hash.delete(field!) ? 1 : 0;
+    }
+    throw new Error(`FakeRedis does not support ${command}`);
+  }
+}
+
+const token = "admin-token";
+const accountId = "11111111-2222-4333-8aaa-555555555555";
+const originalToken = env.COINAGE_ADMIN_TOKEN;
+
+// A stand-in for a mutating route: the gate, then a handler that echoes the body.
+function createApp() {
+  const app = new Hono();
+  registerAdminRoutes(app);
+  app.use("/crypto/place", requireTradingEnabled("crypto", "test.crypto.halted"));
+  app.post("/crypto/place", async (c) => c.json({ placed: true, body: await c.req.json() }));
+  return app;
+}
+
+function admin(app: Hono, path: string, body?: unknown, auth = `Bearer ${token}`) {
+  return app.request(path, {
+    method: body === undefined ? "GET" : "POST",
+    headers: { "Content-Type": "application/json", Authorization: auth },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) })
+  });
+}
+
+function place(app: Hono, body: unknown = { accountId }) {
+  return app.request("/crypto/place", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+beforeEach(() => {
+  resetKillSwitchForTests();
+  (env as any).COINAGE_ADMIN_TOKEN = token;
+});
+
+afterAll(() => {
+  resetKillSwitchForTests();
+  (env as any).COINAGE_ADMIN_TOKEN = originalToken;
+});
+
+describe("kill switch admin API", () => {
+  it("requires the admin token, and refuses everyone when none is configured", async () => {
+    const app = createApp();
+    expect((await admin(app, "/admin/kill-switch", undefined, "Bearer wrong")).status).toBe(401);
+    expect((await admin(app, "/admin/kill-switch", undefined, "")).status).toBe(401);
+
+    (env as any).COINAGE_ADMIN_TOKEN = undefined;
+    const disabled = await admin(app, "/admin/kill-switch");
+    expect(disabled.status).toBe(401);
+    expect((await disabled.json()).error).toBe("unauthorized");
+  });
+
+  it("halts and resumes an account", async () => {
+    const app = createApp();
+    const halted = await admin(app, "/admin/kill-switch/halt", {
+      scope: "account",
+      accountId,
+      reason: "broker_incident",
+      note: "Alpaca rejecting fills, see status page"
+    });
+    expect(halted.status).toBe(200);
+    expect(await halted.json()).toMatchObject({ scope: "account", accountId, assetClass: null, reason: "broker_incident" });
+
+    const blocked = await place(app);
+    expect(blocked.status).toBe(503);
+    expect(await blocked.json()).toMatchObject({
+      error: "trading_halted",
+      scope: "account",
+      reason: "broker_incident",
+      note: "Alpaca rejecting fills, see status page"
+    });
+    expect((await place(app, { accountId: "99999999-2222-4333-8aaa-555555555555" })).status).toBe(200);
+
+    const listed = await (await admin(app, "/admin/kill-switch")).json();
+    expect(listed.halts).toHaveLength(1);
+
+    expect(await (await admin(app, "/admin/kill-switch/resume", { scope: "account", accountId })).json()).toEqual({
+      resumed: true
+    });
+    expect((await place(app)).status).toBe(200);
+    expect(await (await admin(app, "/admin/kill-switch/resume", { scope: "account", accountId })).json()).toEqual({
+      resumed: false
+    });
+  });
+
+  it("requires the target that goes with the scope", async () => {
+    const res = await admin(createApp(), "/admin/kill-switch/halt", { scope: "asset_class", reason: "maintenance" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).issues.fieldErrors.assetClass).toEqual(["assetClass is required when scope is asset_class"]);
+  });
+
+  it("passes the untouched body on to the route", async () => {
+    const app = createApp();
+    await admin(app, "/admin/kill-switch/halt", { scope: "asset_class", assetClass: "equity", reason: "maintenance" });
+
+    const res = await place(app, { accountId, amount: "1.5" });
+    expect(res.status).toBe(200);
+    expect((await res.json()).body).toEqual({ accountId, amount: "1.5" });
+  });
+
+  it("fails closed when the store cannot be read", async () => {
+    resetKillSwitchForTests({
+      list: async () => {
+        throw new Error("connection refused");
+      },
+      put: async () => {},
+      remove: async () => false
+    });
+
+    const res = await place(createApp());
+    expect(res.status).toBe(503);
+    expect((await res.json()).reason).toBe("kill_switch_unavailable");
+  });
+});
+
+describe("kill switch stores", () => {
+  it("shares halts between replicas through Redis", async () => {
+    // Each "machine" gets its own store instance over the same Redis.
+    const redis = new FakeRedis();
+    const app = createApp();
+    const onMachine = (fn: () => Promise<Response>) => {
+      resetKillSwitchForTests(new RedisKillSwitchStore(redis));
+      return fn();
+    };
+
+    await onMachine(() => admin(app, "/admin/kill-switch/halt", { scope: "global", reason: "broker_incident" }));
+    expect((await onMachine(() => place(app))).status).toBe(503);
+
+    await onMachine(() => admin(app, "/admin/kill-switch/resume", { scope: "global" }));
+    expect((await onMachine(() => place(app))).status).toBe(200);
+  });
+
+  it("reports the broadest halt that applies", async () => {
+    const store = new MemoryKillSwitchStore();
+    const base = { assetClass: null, accountId: null, note: null, haltedAt: new Date().toISOString() };
+    await store.put("account", { ...base, scope: "account", accountId, reason: "account" });
+    await store.put("asset_class", { ...base, scope: "asset_class", assetClass: "crypto", reason: "crypto" });
+    const halts = await store.list();
+
+    expect(findHalt(halts, "crypto", accountId)?.reason).toBe("crypto");
+    expect(findHalt(halts, "equity", accountId)?.reason).toBe("account");
+    expect(findHalt(halts, "equity", undefined)).toBeUndefined();
+  });
+});
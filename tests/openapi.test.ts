@@ -0,0 +1,171 @@
+import { describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import type { ZodType } from "zod";
+import { documentedRules } from "../src/lib/openapi";
+import { registerOpenApiRoutes } from "../src/routes/openapi";
+import { cryptoReplaceSchema, orderSchema } from "../src/schemas/crypto";
+import { equityOrderSchema, equityReplaceSchema } from "../src/schemas/equity";
+import { optionOrderSchema } from "../src/schemas/options";
+import { snaptradeWebhookSchema } from "../src/schemas/webhook";
+import { killSwitchHaltSchema, killSwitchResumeSchema } from "../src/schemas/killSwitch";
+
+function createApp() {
+  const app = new Hono();
+  registerOpenApiRoutes(app);
+  return app;
+}
+
+function customMessages(schema: ZodType, payload: unknown): string[] {
+  const result = schema.safeParse(payload);
+  return result.success ? [] : result.error.issues.filter((issue) => issue.code === "custom").map((issue) => issue.message);
+}
+
+const base = { accountId: "11111111-2222-4333-8aaa-555555555555", userId: "u", userSecret: "s" };
+
+describe("openapi document", () => {
+  it("serves an OpenAPI 3.1 document covering every route", async () => {
+    const res = await createApp().request("/openapi.json");
+    expect(res.status).toBe(200);
+    const doc = await res.json();
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(Object.keys(doc.paths)).toEqual(
+      expect.arrayContaining([
+        "/crypto/pairs",
+        "/crypto/quote",
+        "/crypto/preview",
+        "/crypto/place",
+        "/equity/symbols",
+        "/equity/quote",
+        "/options/chain",
+        "/options/impact",
+        "/options/place",
+        "/equity/impact",
+        "/equity/place",
+        "/equity/trade",
+        "/equity/replace",
+        "/crypto/replace",
+        "/orders/detail",
+        "/orders/await",
+        "/orders/stream",
+        "/webhooks/snaptrade",
+        "/admin/kill-switch",
+        "/admin/kill-switch/halt",
+        "/admin/kill-switch/resume"
+      ])
+    );
+    expect(doc.components.schemas.CryptoOrderRequest.required).toContain("amount");
+    expect(doc.components.schemas.RateLimited.properties.error.const).toBe("rate_limited");
+    expect(doc.paths["/crypto/place"].post.responses["429"].headers["Retry-After"]).toBeDefined();
+    expect(doc.paths["/crypto/quote"].get.responses["200"].headers["X-Coinage-Cache"]).toBeDefined();
+    expect(doc.paths["/orders/stream"].get.responses["200"].content["text/event-stream"]).toBeDefined();
+    expect(doc.components.schemas.RiskRejected.properties.rule.enum).toContain("max_daily_notional");
+    expect(doc.paths["/crypto/place"].post.responses["422"].content["application/json"].schema.oneOf).toContainEqual({
+      $ref: "#/components/schemas/RiskRejected"
+    });
+    expect(doc.paths["/equity/replace"].post.responses["503"].content["application/json"].schema.oneOf).toContainEqual({
+      $ref: "#/components/schemas/TradingHalted"
+    });
+    expect(doc.paths["/equity/place"].post.responses["409"].content["application/json"].schema.oneOf).toContainEqual({
+      $ref: "#/components/schemas/AmbiguousSymbol"
+    });
+    expect(doc.paths["/orders/detail"].post.parameters).toContainEqual({ $ref: "#/components/parameters/PaperTrading" });
+    expect(doc.paths["/orders/detail"].post.responses["200"].headers["X-Coinage-Paper-Trading"]).toBeDefined();
+    expect(doc.paths["/crypto/replace"].post.responses["501"].content["application/json"].schema).toEqual({
+      $ref: "#/components/schemas/PaperTradingUnsupported"
+    });
+  });
+
+  it("documents every superRefine rule with the message the route returns", () => {
+    const cryptoMessages = [
+      ...customMessages(orderSchema, {
+        ...base,
+        instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+        side: "BUY",
+        type: "STOP_LOSS_LIMIT",
+        time_in_force: "GTD",
+        amount: "1",
+        post_only: true
+      })
+    ];
+    const equityMessages = [
+      ...customMessages(equityOrderSchema, { ...base, action: "BUY", orderType: "StopLimit", timeInForce: "GTC" }),
+      ...customMessages(equityOrderSchema, {
+        ...base,
+        action: "BUY",
+        orderType: "Limit",
+        timeInForce: "GTC",
+        symbol: "AAPL",
+        notionalValue: 10,
+        price: 1
+      })
+    ];
+
+    const documented = (name: string) => documentedRules[name]!.map((rule) => rule.description).sort();
+    expect(documented("CryptoOrderRequest")).toEqual([...new Set(cryptoMessages)].sort());
+    expect(documented("EquityOrderRequest")).toEqual([...new Set(equityMessages)].sort());
+    expect(documented("CryptoReplaceRequest")).toEqual(
+      customMessages(cryptoReplaceSchema, {
+        ...base,
+        brokerage_order_id: "o",
+        instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+        side: "BUY",
+        type: "STOP_LOSS_LIMIT",
+        time_in_force: "GTC",
+        amount: "1"
+      }).sort()
+    );
+    expect(documented("EquityReplaceRequest")).toEqual(
+      customMessages(equityReplaceSchema, {
+        ...base,
+        brokerage_order_id: "o",
+        action: "BUY",
+        orderType: "StopLimit",
+        timeInForce: "GTC"
+      }).sort()
+    );
+
+    const stock = { instrument: { symbol: "AAPL", instrument_type: "EQUITY" }, action: "BUY", units: 100 };
+    const call = { instrument: { symbol: "AAPL250117C00190000", instrument_type: "OPTION" }, action: "SELL_TO_OPEN", units: 1 };
+    const optionMessages = [
+      ...customMessages(optionOrderSchema, { ...base, order_type: "STOP_LOSS_LIMIT", time_in_force: "Day", legs: [stock, stock] }),
+      ...customMessages(optionOrderSchema, {
+        ...base,
+        order_type: "MARKET",
+        time_in_force: "Day",
+        limit_price: "1",
+        price_effect: "EVEN",
+        legs: [call]
+      }),
+      ...customMessages(optionOrderSchema, {
+        ...base,
+        order_type: "LIMIT",
+        time_in_force: "Day",
+        limit_price: "0",
+        price_effect: "CREDIT",
+        legs: [stock, call]
+      })
+    ];
+    expect(documented("OptionOrderRequest")).toEqual([...new Set(optionMessages)].sort());
+    expect(documented("SnaptradeWebhook")).toEqual(
+      customMessages(snaptradeWebhookSchema, {
+        webhookId: "w",
+        clientId: "c",
+        userId: "u",
+        eventType: "TRADES_PLACED",
+        eventTimestamp: "2026-01-02T03:04:05Z"
+      }).sort()
+    );
+    for (const [name, schema] of [
+      ["KillSwitchHaltRequest", killSwitchHaltSchema],
+      ["KillSwitchResumeRequest", killSwitchResumeSchema]
+    ] as const) {
+      expect(documented(name)).toEqual(
+        [
+          ...customMessages(schema, { scope: "asset_class", reason: "r" }),
+          ...customMessages(schema, { scope: "account", reason: "r" })
+        ].sort()
+      );
+    }
+  });
+});
@@ -0,0 +1,246 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+import { signedHeaders } from "./helpers/signing";
+
+const tradingMocks = {
+  placeMlegOrder: mock(async () => {
+    throw new Error("placeMlegOrder mock not configured");
+  })
+};
+
+const optionsMocks = {
+  getOptionsChain: mock(async () => {
+    throw new Error("getOptionsChain mock not configured");
+  })
+};
+
+mock.module("../src/lib/snaptrade", () => ({
+  snaptrade: {
+    trading: tradingMocks,
+    options: optionsMocks
+  }
+}));
+
+import { registerOptionsRoutes, resetOptionsRateLimiterForTests } from "../src/routes/options";
+import { resetCircuitBreakersForTests } from "../src/lib/circuitBreaker";
+import { resetIdempotencyStoreForTests } from "../src/lib/idempotency";
+import { haltTrading, resetKillSwitchForTests } from "../src/lib/killSwitch";
+import { resetRiskChecksForTests } from "../src/lib/riskChecks";
+
+function createApp() {
+  const app = new Hono();
+  registerOptionsRoutes(app);
+  return app;
+}
+
+function request(path: string, init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}) {
+  const method = init.method ?? (init.body === undefined ? "GET" : "POST");
+  const body = init.body === undefined ? undefined : JSON.stringify(init.body);
+  const secret = env.COINAGE_TS_SHARED_SECRET;
+  return createApp().request(path, {
+    method,
+    headers: {
+      ...(body ? { "Content-Type": "application/json" } : {}),
+      ...(secret ? signedHeaders(secret, { method, path, body }) : {}),
+      ...init.headers
+    },
+    body
+  });
+}
+
+const accountId = "99999999-aaaa-4bbb-8ccc-dddddddddddd";
+const base = { accountId, userId: "snap-user", userSecret: "snap-secret" };
+
+// Bull call spread: buy the 190 call, sell the 200 call, for a net debit.
+const spread = {
+  ...base,
+  order_type: "LIMIT",
+  time_in_force: "Day",
+  limit_price: "3.25",
+  price_effect: "DEBIT",
+  legs: [
+    { instrument: { symbol: "AAPL250117C00190000", instrument_type: "OPTION" }, action: "BUY_TO_OPEN", units: 1 },
+    { instrument: { symbol: "AAPL  250117C00200000", instrument_type: "OPTION" }, action: "SELL_TO_OPEN", units: 1 }
+  ]
+};
+
+beforeEach(() => {
+  resetOptionsRateLimiterForTests();
+  resetCircuitBreakersForTests();
+  resetIdempotencyStoreForTests();
+  resetKillSwitchForTests();
+  for (const fn of [...Object.values(tradingMocks), ...Object.values(optionsMocks)]) {
+    fn.mockReset();
+    fn.mockImplementation(async () => {
+      throw new Error("mock not configured");
+    });
+  }
+});
+
+describe("options routes", () => {
+  it("looks up a chain for the underlying", async () => {
+    const chain = [{ expiry_date: "2025-01-17", chain_per_root: [] }];
+    optionsMocks.getOptionsChain.mockImplementation(async (req: any) => {
+      expect(req).toEqual({ ...base, symbol: "AAPL" });
+      return { data: chain, headers: { "x-request-id": "req-chain" } };
+    });
+
+    const res = await request(`/options/chain?accountId=${accountId}&userId=snap-user&userSecret=snap-secret&symbol=AAPL`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(chain);
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-chain");
+    expect(res.headers.get("X-Coinage-Attempts")).toBe("1");
+  });
+
+  it("dry-runs impact without calling SnapTrade", async () => {
+    const res = await request("/options/impact", { body: spread });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.order.legs.map((leg: any) => leg.instrument.symbol)).toEqual([
+      "AAPL  250117C00190000",
+      "AAPL  250117C00200000"
+    ]);
+    expect(body.legs[1].contract).toEqual({ underlying: "AAPL", expiration: "2025-01-17", right: "CALL", strike: 200 });
+    expect(tradingMocks.placeMlegOrder.mock.calls.length).toBe(0);
+  });
+
+  it("places a multi-leg order with OCC symbols normalized", async () => {
+    tradingMocks.placeMlegOrder.mockImplementation(async (req: any) => {
+      expect(req).toEqual({
+        ...base,
+        order_type: "LIMIT",
+        time_in_force: "Day",
+        limit_price: "3.25",
+        price_effect: "DEBIT",
+        legs: [
+          { instrument: { symbol: "AAPL  250117C00190000", instrument_type: "OPTION" }, action: "BUY_TO_OPEN", units: 1 },
+          { instrument: { symbol: "AAPL  250117C00200000", instrument_type: "OPTION" }, action: "SELL_TO_OPEN", units: 1 }
+        ]
+      });
+      return { data: { brokerage_order_id: "mleg-1", orders: [] }, headers: { "x-request-id": "req-mleg" } };
+    });
+
+    const res = await request("/options/place", { body: spread, headers: { "Idempotency-Key": "opt-1" } });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).brokerage_order_id).toBe("mleg-1");
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-mleg");
+
+    // Same account, inside the equity interval: throttled.
+    const again = await request("/options/place", { body: spread, headers: { "Idempotency-Key": "opt-2" } });
+    expect(again.status).toBe(429);
+    expect(tradingMocks.placeMlegOrder.mock.calls.length).toBe(1);
+  });
+
+  it("refuses placement while equity trading is halted, without recording the key", async () => {
+    await haltTrading({ scope: "asset_class", assetClass: "equity", reason: "broker_incident", note: "" });
+
+    const res = await request("/options/place", { body: spread, headers: { "Idempotency-Key": "opt-halted" } });
+
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ error: "trading_halted", scope: "asset_class", reason: "broker_incident" });
+    expect(tradingMocks.placeMlegOrder.mock.calls.length).toBe(0);
+
+    resetKillSwitchForTests();
+    tradingMocks.placeMlegOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "mleg-2" }, headers: {} }));
+    const resumed = await request("/options/place", { body: spread, headers: { "Idempotency-Key": "opt-halted" } });
+    expect(resumed.status).toBe(200);
+    expect(resumed.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("passes SnapTrade rejections through", async () => {
+    tradingMocks.placeMlegOrder.mockImplementation(async () => {
+      const error: any = new Error("Request failed with status code 400");
+      error.response = { status: 400, data: { code: "1076", detail: "Options trading not enabled" }, headers: {} };
+      throw error;
+    });
+
+    const res = await request("/options/place", { body: spread });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ code: "1076", detail: "Options trading not enabled" });
+  });
+
+  it("validates legs and net pricing", async () => {
+    const issues = async (order: unknown) => {
+      const res = await request("/options/impact", { body: order });
+      expect(res.status).toBe(400);
+      return (await res.json()).issues.fieldErrors;
+    };
+
+    expect((await issues({ ...spread, price_effect: undefined })).price_effect).toEqual([
+      "price_effect is required for multi-leg LIMIT and STOP_LOSS_LIMIT orders"
+    ]);
+    expect((await issues({ ...spread, price_effect: "EVEN" })).limit_price).toEqual([
+      "limit_price must be 0 when price_effect=EVEN"
+    ]);
+    expect(
+      (await issues({ ...spread, legs: [{ ...spread.legs[0], instrument: { symbol: "AAPL", instrument_type: "OPTION" } }] }))
+        .legs
+    ).toBeDefined();
+    expect(
+      (
+        await issues({
+          ...spread,
+          legs: [{ instrument: { symbol: "AAPL", instrument_type: "EQUITY" }, action: "BUY", units: 100 }]
+        })
+      ).legs
+    ).toEqual(["At least one leg must be an OPTION leg"]);
+  });
+});
+
+describe("options risk checks", () => {
+  const riskKeys = [
+    "COINAGE_RISK_MAX_ORDER_NOTIONAL",
+    "COINAGE_RISK_MAX_DAILY_NOTIONAL",
+    "COINAGE_RISK_EQUITY_MAX_UNITS",
+    "COINAGE_RISK_EQUITY_SYMBOL_DENYLIST"
+  ] as const;
+  const originalRisk = Object.fromEntries(riskKeys.map((key) => [key, env[key]]));
+
+  beforeEach(() => {
+    resetRiskChecksForTests();
+    Object.assign(env, originalRisk);
+    tradingMocks.placeMlegOrder.mockImplementation(async () => ({ data: { brokerage_order_id: "mleg" }, headers: {} }));
+  });
+
+  afterAll(() => {
+    Object.assign(env, originalRisk);
+  });
+
+  it("matches leg underlyings against the equity deny list and sizes contracts in shares", async () => {
+    (env as any).COINAGE_RISK_EQUITY_SYMBOL_DENYLIST = ["AAPL"];
+    const denied = await request("/options/place", { body: spread });
+    expect(denied.status).toBe(422);
+    expect(await denied.json()).toEqual({ error: "risk_rejected", rule: "symbol_denylist", message: "AAPL is on the deny list." });
+
+    (env as any).COINAGE_RISK_EQUITY_SYMBOL_DENYLIST = [];
+    (env as any).COINAGE_RISK_EQUITY_MAX_UNITS = 500;
+    const legs = spread.legs.map((leg) => ({ ...leg, units: 10 }));
+    const tooBig = await request("/options/place", { body: { ...spread, legs } });
+    expect(tooBig.status).toBe(422);
+    expect((await tooBig.json()).rule).toBe("max_order_quantity");
+    expect(tradingMocks.placeMlegOrder.mock.calls.length).toBe(0);
+  });
+
+  it("counts the net premium against the daily limit", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 500;
+
+    expect((await request("/options/place", { body: spread })).status).toBe(200);
+    resetOptionsRateLimiterForTests();
+    const over = await request("/options/place", { body: spread });
+    expect(over.status).toBe(422);
+    expect(await over.json()).toMatchObject({
+      rule: "max_daily_notional",
+      message: "Order notional 325 would take the account to 650 in 24 hours, over the limit of 500."
+    });
+
+    // A market order has no price to value it by.
+    const market = { ...spread, order_type: "MARKET", limit_price: undefined, price_effect: undefined };
+    expect((await (await request("/options/place", { body: market })).json()).rule).toBe("max_daily_notional");
+    expect(tradingMocks.placeMlegOrder.mock.calls.length).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "bun:test";
+import { OrderEventBus, type OrderEvent } from "../src/lib/orderEvents";
+
+const order = (status: string, filled_quantity: string | null = null) => ({
+  brokerage_order_id: "ord-1",
+  status,
+  filled_quantity
+});
+
+describe("OrderEventBus", () => {
+  it("emits only when status or filled quantity changes", () => {
+    const bus = new OrderEventBus();
+    const seen: OrderEvent[] = [];
+    bus.subscribe("acct", (event) => seen.push(event));
+
+    bus.publish("acct", order("PENDING"), "poll");
+    bus.publish("acct", order("PENDING"), "webhook");
+    bus.publish("acct", order("PARTIAL", "5"), "poll");
+    bus.publish("acct", order("PARTIAL", "5"), "poll");
+    bus.publish("acct", order("EXECUTED", "10"), "webhook");
+    bus.publish("other", order("PENDING"), "poll");
+
+    expect(seen.map((e) => [e.id, e.status, e.filled_quantity, e.source])).toEqual([
+      [1, "PENDING", null, "poll"],
+      [2, "PARTIAL", "5", "poll"],
+      [3, "EXECUTED", "10", "webhook"]
+    ]);
+    expect(seen[2]!.previous).toEqual({ status: "PARTIAL", filled_quantity: "5" });
+  });
+
+  it("replays after an event id and reports gaps it cannot fill", () => {
+    const bus = new OrderEventBus(2);
+    for (const status of ["PENDING", "ACCEPTED", "PARTIAL", "EXECUTED"]) {
+      bus.publish("acct", order(status), "poll");
+    }
+
+    expect(bus.replaySince("acct", 2)).toMatchObject({ complete: true, events: [{ id: 3 }, { id: 4 }] });
+    // Events 1 and 2 were evicted, so a client that last saw 1 missed one.
+    expect(bus.replaySince("acct", 1).complete).toBe(false);
+    // An id this process never issued comes from before a restart.
+    expect(bus.replaySince("acct", 99)).toEqual({ events: [], complete: false });
+  });
+});
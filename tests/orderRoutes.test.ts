@@ -2,16 +2,30 @@ import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Hono } from "hono";
 import { env } from "../src/lib/env";
 import { registerOrderRoutes } from "../src/routes/orders";
+import { resetCircuitBreakersForTests } from "../src/lib/circuitBreaker";
+import { resetUpstreamBudgetForTests, upstreamBudget } from "../src/lib/upstreamBudget";
+import { orderEvents, resetOrderEventsForTests } from "../src/lib/orderEvents";
+import { getPaperBroker, resetPaperTradingForTests } from "../src/lib/paperTrading";
 
 const accountInformationMocks = {
   getUserAccountOrderDetail: mock(async () => {
     throw new Error("getUserAccountOrderDetail mock not configured");
+  }),
+  getUserAccountOrders: mock(async () => {
+    throw new Error("getUserAccountOrders mock not configured");
+  })
+};
+
+const tradingMocks = {
+  cancelOrder: mock(async () => {
+    throw new Error("cancelOrder mock not configured");
   })
 };
 
 mock.module("../src/lib/snaptrade", () => ({
   snaptrade: {
-    accountInformation: accountInformationMocks
+    accountInformation: accountInformationMocks,
+    trading: tradingMocks
   }
 }));
 
@@ -25,7 +39,8 @@ const originalSharedSecret = env.COINAGE_TS_SHARED_SECRET;
 
 beforeEach(() => {
   (env as any).COINAGE_TS_SHARED_SECRET = originalSharedSecret;
-  for (const fn of Object.values(accountInformationMocks)) {
+  resetCircuitBreakersForTests();
+  for (const fn of [...Object.values(accountInformationMocks), ...Object.values(tradingMocks)]) {
     fn.mockReset();
     fn.mockImplementation(async () => {
       throw new Error("mock not configured");
@@ -123,3 +138,514 @@ describe("order detail route", () => {
     expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(0);
   });
 });
+
+describe("paper order routes", () => {
+  const account = {
+    accountId: "11111111-2222-4333-8aaa-555555555555",
+    userId: "snap-user",
+    userSecret: "snap-secret"
+  };
+  const paper = { "Content-Type": "application/json", "X-Coinage-Paper-Trading": "true" };
+  let bid = 50;
+  const post = (path: string, body: unknown) =>
+    createApp().request(path, { method: "POST", headers: paper, body: JSON.stringify(body) });
+
+  beforeEach(() => {
+    bid = 50;
+    const quote = async () => ({ bid, ask: bid + 1 });
+    resetPaperTradingForTests({ cryptoPair: quote, equity: quote });
+  });
+  afterAll(() => resetPaperTradingForTests());
+
+  it("serves detail and cancellation from the paper book", async () => {
+    const placed = await getPaperBroker().placeCryptoOrder({
+      ...account,
+      instrument: { symbol: "SOL-USD", type: "CRYPTOCURRENCY_PAIR" },
+      side: "SELL",
+      type: "LIMIT",
+      time_in_force: "GTC",
+      amount: "4",
+      limit_price: "60"
+    });
+    const order = { ...account, brokerage_order_id: placed.data.brokerage_order_id };
+
+    const resting = await post("/orders/detail", order);
+    expect(resting.status).toBe(200);
+    expect(resting.headers.get("X-Coinage-Paper-Trading")).toBe("true");
+    expect((await resting.json()).status).toBe("ACCEPTED");
+
+    const canceled = await post("/orders/cancel", order);
+    expect(await canceled.json()).toEqual({ brokerage_order_id: order.brokerage_order_id, raw_response: null });
+    const detail = await (await post("/orders/detail", order)).json();
+    expect(detail).toMatchObject({ status: "CANCELED", canceled_quantity: "4" });
+
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(0);
+    expect(tradingMocks.cancelOrder.mock.calls.length).toBe(0);
+  });
+
+  it("returns the paper fill once the market crosses the limit", async () => {
+    const placed = await getPaperBroker().placeCryptoOrder({
+      ...account,
+      instrument: { symbol: "SOL-USD", type: "CRYPTOCURRENCY_PAIR" },
+      side: "SELL",
+      type: "LIMIT",
+      time_in_force: "GTC",
+      amount: "4",
+      limit_price: "60"
+    });
+    bid = 61;
+
+    const res = await post("/orders/await", { ...account, brokerage_order_id: placed.data.brokerage_order_id });
+    expect(await res.json()).toMatchObject({ terminal: true, polls: 1, order: { status: "EXECUTED", execution_price: 61 } });
+  });
+
+  it("refuses paper requests on routes the simulator does not cover", async () => {
+    const res = await post("/orders/list", account);
+
+    expect(res.status).toBe(501);
+    expect((await res.json()).error).toBe("paper_trading_unsupported");
+    expect(accountInformationMocks.getUserAccountOrders.mock.calls.length).toBe(0);
+  });
+});
+
+describe("order cancellation routes", () => {
+  const account = {
+    accountId: "11111111-2222-4333-8aaa-555555555555",
+    userId: "snap-user",
+    userSecret: "snap-secret"
+  };
+
+  function post(path: string, body: unknown) {
+    return createApp().request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it("cancels a single order and propagates SnapTrade headers", async () => {
+    tradingMocks.cancelOrder.mockImplementation(async (req: any) => {
+      expect(req).toEqual({ ...account, brokerage_order_id: "ord-1" });
+      return {
+        data: { brokerage_order_id: "ord-1" },
+        headers: { "x-request-id": "req-cancel", "x-ratelimit-remaining": "48" }
+      };
+    });
+
+    const res = await post("/orders/cancel", { ...account, brokerage_order_id: "ord-1" });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ brokerage_order_id: "ord-1" });
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-cancel");
+    expect(res.headers.get("X-SnapTrade-RateLimit-Remaining")).toBe("48");
+  });
+
+  it("passes broker rejections through unchanged", async () => {
+    tradingMocks.cancelOrder.mockImplementation(async () => {
+      const error: any = new Error("Request failed with status code 400");
+      error.response = {
+        status: 400,
+        data: { code: "1063", detail: "Order is not cancellable" },
+        headers: { "x-request-id": "req-reject" }
+      };
+      throw error;
+    });
+
+    const res = await post("/orders/cancel", { ...account, brokerage_order_id: "ord-1" });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ code: "1063", detail: "Order is not cancellable" });
+    expect(res.headers.get("X-Request-ID")).toBe("req-reject");
+  });
+
+  it("cancels every open order and reports failures per order", async () => {
+    accountInformationMocks.getUserAccountOrders.mockImplementation(async (req: any) => {
+      expect(req.state).toBe("open");
+      return {
+        data: [{ brokerage_order_id: "ord-1" }, { brokerage_order_id: "ord-2" }],
+        headers: { "x-request-id": "req-list" }
+      };
+    });
+    tradingMocks.cancelOrder.mockImplementation(async (req: any) => {
+      if (req.brokerage_order_id === "ord-2") {
+        const error: any = new Error("Request failed with status code 400");
+        error.response = { status: 400, data: { code: "1063", detail: "Already filled" }, headers: {} };
+        throw error;
+      }
+      return { data: { brokerage_order_id: req.brokerage_order_id }, headers: { "x-request-id": "req-c1" } };
+    });
+
+    const res = await post("/orders/cancel-all", account);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      requested: 2,
+      cancelled: [{ brokerage_order_id: "ord-1", requestId: "req-c1", response: { brokerage_order_id: "ord-1" } }],
+      failed: [
+        {
+          brokerage_order_id: "ord-2",
+          status: 400,
+          requestId: null,
+          error: { code: "1063", detail: "Already filled" }
+        }
+      ]
+    });
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-list");
+  });
+
+  it("requires a signature when a shared secret is configured", async () => {
+    (env as any).COINAGE_TS_SHARED_SECRET = "bridge-secret";
+
+    const res = await post("/orders/cancel-all", account);
+
+    expect(res.status).toBe(401);
+    expect(accountInformationMocks.getUserAccountOrders.mock.calls.length).toBe(0);
+  });
+});
+
+describe("order list route", () => {
+  const account = {
+    accountId: "11111111-2222-4333-8aaa-555555555555",
+    userId: "snap-user",
+    userSecret: "snap-secret"
+  };
+
+  const orders = [
+    { brokerage_order_id: "b", time_placed: "2026-01-02T10:00:00Z", universal_symbol: { symbol: "AAPL" } },
+    { brokerage_order_id: "a", time_placed: "2026-01-02T10:00:00Z", universal_symbol: { symbol: "AAPL" } },
+    { brokerage_order_id: "c", time_placed: "2026-01-03T10:00:00Z", universal_symbol: { symbol: "MSFT" } },
+    { brokerage_order_id: "d", time_placed: "2026-01-01T10:00:00Z", universal_symbol: { symbol: "aapl" } }
+  ];
+
+  function list(body: unknown) {
+    return createApp().request("/orders/list", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it("filters by symbol and pages through a stable newest-first order", async () => {
+    accountInformationMocks.getUserAccountOrders.mockImplementation(async (req: any) => {
+      expect(req.state).toBe("executed");
+      expect(req.days).toBe(7);
+      return { data: [...orders], headers: { "x-request-id": "req-list" } };
+    });
+
+    const first = await list({ ...account, state: "executed", days: 7, symbol: "AAPL", limit: 2 });
+    expect(first.status).toBe(200);
+    expect(first.headers.get("X-SnapTrade-Request-ID")).toBe("req-list");
+    const firstPage = await first.json();
+    expect(firstPage.orders.map((o: any) => o.brokerage_order_id)).toEqual(["a", "b"]);
+    expect(firstPage.total).toBe(3);
+    expect(typeof firstPage.nextCursor).toBe("string");
+
+    // A new order arriving between pages must not shift the next page.
+    orders.push({ brokerage_order_id: "e", time_placed: "2026-01-04T10:00:00Z", universal_symbol: { symbol: "AAPL" } });
+    const second = await list({ ...account, state: "executed", days: 7, symbol: "AAPL", limit: 2, cursor: firstPage.nextCursor });
+    const secondPage = await second.json();
+    expect(secondPage.orders.map((o: any) => o.brokerage_order_id)).toEqual(["d"]);
+    expect(secondPage.nextCursor).toBeNull();
+  });
+
+  it("rejects malformed cursors without calling SnapTrade", async () => {
+    const res = await list({ ...account, cursor: "not-a-cursor" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("invalid_cursor");
+    expect(accountInformationMocks.getUserAccountOrders.mock.calls.length).toBe(0);
+  });
+
+  it("validates the lookback window", async () => {
+    const res = await list({ ...account, days: 365 });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("validation_error");
+  });
+});
+
+describe("order detail batch route", () => {
+  function batch(body: unknown) {
+    return createApp().request("/orders/detail/batch", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it("returns per-item results so one bad id does not fail the batch", async () => {
+    const originalConcurrency = env.COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY;
+    (env as any).COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY = 2;
+    let inFlight = 0;
+    let peak = 0;
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async (req: any) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await Bun.sleep(5);
+      inFlight -= 1;
+      if (req.brokerage_order_id === "missing") {
+        const error: any = new Error("Request failed with status code 404");
+        error.response = { status: 404, data: { code: "1076", detail: "Order not found" }, headers: { "x-request-id": "req-404" } };
+        throw error;
+      }
+      return { data: { status: "EXECUTED", id: req.brokerage_order_id }, headers: { "x-request-id": `req-${req.brokerage_order_id}` } };
+    });
+
+    try {
+      const accountId = "11111111-2222-4333-8aaa-555555555555";
+      const res = await batch({
+        userId: "snap-user",
+        userSecret: "snap-secret",
+        orders: ["o1", "missing", "o3", "o4"].map((id) => ({ accountId, brokerage_order_id: id }))
+      });
+
+      expect(res.status).toBe(200);
+      const { results } = await res.json();
+      expect(results.map((r: any) => [r.brokerage_order_id, r.ok, r.status])).toEqual([
+        ["o1", true, 200],
+        ["missing", false, 404],
+        ["o3", true, 200],
+        ["o4", true, 200]
+      ]);
+      expect(results[1].error).toEqual({ code: "1076", detail: "Order not found" });
+      expect(results[1].requestId).toBe("req-404");
+      expect(results[0].data).toEqual({ status: "EXECUTED", id: "o1" });
+      expect(peak).toBe(2);
+    } finally {
+      (env as any).COINAGE_ORDER_DETAIL_BATCH_CONCURRENCY = originalConcurrency;
+    }
+  });
+
+  it("rejects empty batches", async () => {
+    const res = await batch({ userId: "snap-user", userSecret: "snap-secret", orders: [] });
+
+    expect(res.status).toBe(400);
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(0);
+  });
+});
+
+describe("order await route", () => {
+  const payload = {
+    accountId: "11111111-2222-4333-8aaa-555555555555",
+    userId: "snap-user",
+    userSecret: "snap-secret",
+    brokerage_order_id: "ord-await"
+  };
+  const original = {
+    poll: env.COINAGE_ORDER_AWAIT_POLL_MS,
+    maxPoll: env.COINAGE_ORDER_AWAIT_MAX_POLL_MS,
+    floor: env.COINAGE_UPSTREAM_BUDGET_FLOOR
+  };
+
+  function post(body: unknown) {
+    return createApp().request("/orders/await", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body)
+    });
+  }
+
+  function respondWithStatuses(...statuses: string[]) {
+    let call = 0;
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      const status = statuses[Math.min(call, statuses.length - 1)];
+      call++;
+      return { data: { brokerage_order_id: "ord-await", status }, headers: { "x-request-id": `req-${call}` } };
+    });
+  }
+
+  beforeEach(() => {
+    (env as any).COINAGE_ORDER_AWAIT_POLL_MS = 5;
+    (env as any).COINAGE_ORDER_AWAIT_MAX_POLL_MS = 10;
+  });
+
+  afterAll(() => {
+    (env as any).COINAGE_ORDER_AWAIT_POLL_MS = original.poll;
+    (env as any).COINAGE_ORDER_AWAIT_MAX_POLL_MS = original.maxPoll;
+    (env as any).COINAGE_UPSTREAM_BUDGET_FLOOR = original.floor;
+    resetUpstreamBudgetForTests();
+  });
+
+  it("returns as soon as the order reaches a terminal status", async () => {
+    respondWithStatuses("PENDING", "ACCEPTED", "EXECUTED");
+
+    const res = await post({ ...payload, maxWaitMs: 5_000 });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ terminal: true, polls: 3, order: { status: "EXECUTED" } });
+    expect(body.waitedMs).toBeLessThan(1_000);
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-3");
+  });
+
+  it("returns the last known state when the wait runs out", async () => {
+    respondWithStatuses("PENDING");
+
+    const res = await post({ ...payload, maxWaitMs: 40 });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ terminal: false, order: { status: "PENDING" } });
+    expect(body.polls).toBeGreaterThan(1);
+    expect(body.waitedMs).toBeGreaterThanOrEqual(40);
+  });
+
+  it("stops polling rather than dip into a low partner budget", async () => {
+    (env as any).COINAGE_UPSTREAM_BUDGET_FLOOR = 5;
+    upstreamBudget.observe({ limit: "250", remaining: "3", reset: "60" });
+    respondWithStatuses("PENDING");
+
+    const res = await post({ ...payload, maxWaitMs: 5_000 });
+
+    (env as any).COINAGE_UPSTREAM_BUDGET_FLOOR = original.floor;
+    resetUpstreamBudgetForTests();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ terminal: false, polls: 1 });
+  });
+
+  it("passes SnapTrade errors through", async () => {
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      const error: any = new Error("Request failed with status code 404");
+      error.response = { status: 404, data: { code: "1064", detail: "Order not found" }, headers: {} };
+      throw error;
+    });
+
+    const res = await post(payload);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ code: "1064", detail: "Order not found" });
+  });
+});
+
+describe("order stream route", () => {
+  const accountId = "11111111-2222-4333-8aaa-555555555555";
+  const query = `accountId=${accountId}&userId=snap-user&userSecret=snap-secret`;
+  const original = {
+    poll: env.COINAGE_ORDER_STREAM_POLL_MS,
+    heartbeat: env.COINAGE_ORDER_STREAM_HEARTBEAT_MS
+  };
+
+  type SseMessage = { event?: string; id?: string; data?: string; comment?: string };
+
+  /**
+   * Opens the stream and collects messages until `done` returns true, then
+   * disconnects the way a browser closing the EventSource would.
+   */
+  async function collect(path: string, done: (messages: SseMessage[]) => boolean, headers: Record<string, string> = {}) {
+    const res = await createApp().request(path, { headers });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    const messages: SseMessage[] = [];
+    let buffer = "";
+    const deadline = Date.now() + 2_000;
+    while (!done(messages) && Date.now() < deadline) {
+      const { value, done: ended } = await reader.read();
+      if (ended) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const message: SseMessage = {};
+        for (const line of block.split("\n")) {
+          if (line.startsWith(":")) message.comment = line.slice(1).trim();
+          else if (line.startsWith("event: ")) message.event = line.slice(7);
+          else if (line.startsWith("id: ")) message.id = line.slice(4);
+          else if (line.startsWith("data: ")) message.data = line.slice(6);
+        }
+        messages.push(message);
+      }
+    }
+    await reader.cancel();
+    return messages;
+  }
+
+  const orderEventsOf = (messages: SseMessage[]) => messages.filter((m) => m.event === "order").map((m) => JSON.parse(m.data!));
+
+  beforeEach(() => {
+    resetOrderEventsForTests();
+    (env as any).COINAGE_ORDER_STREAM_POLL_MS = 5;
+    (env as any).COINAGE_ORDER_STREAM_HEARTBEAT_MS = 1_000;
+  });
+
+  afterAll(() => {
+    (env as any).COINAGE_ORDER_STREAM_POLL_MS = original.poll;
+    (env as any).COINAGE_ORDER_STREAM_HEARTBEAT_MS = original.heartbeat;
+  });
+
+  it("emits an event per status change of a tracked order and stops at a terminal status", async () => {
+    const statuses = [
+      ["PENDING", "0"],
+      ["PENDING", "0"],
+      ["PARTIAL", "3"],
+      ["EXECUTED", "10"]
+    ];
+    let call = 0;
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async (req: any) => {
+      expect(req.brokerage_order_id).toBe("ord-live");
+      const [status, filled_quantity] = statuses[Math.min(call++, statuses.length - 1)]!;
+      return { data: { brokerage_order_id: "ord-live", status, filled_quantity }, headers: {} };
+    });
+
+    const messages = await collect(`/orders/stream?${query}&brokerage_order_id=ord-live`, (m) => orderEventsOf(m).length === 3);
+
+    expect(orderEventsOf(messages).map((e) => [e.status, e.filled_quantity, e.source])).toEqual([
+      ["PENDING", "0", "poll"],
+      ["PARTIAL", "3", "poll"],
+      ["EXECUTED", "10", "poll"]
+    ]);
+    expect(messages.filter((m) => m.event === "order").map((m) => m.id)).toEqual(["1", "2", "3"]);
+    await Bun.sleep(30);
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(4);
+  });
+
+  it("resumes after Last-Event-ID and relays changes published by other producers", async () => {
+    orderEvents.publish(accountId, { brokerage_order_id: "ord-a", status: "PENDING" }, "webhook");
+    orderEvents.publish(accountId, { brokerage_order_id: "ord-a", status: "EXECUTED" }, "webhook");
+    setTimeout(() => orderEvents.publish(accountId, { brokerage_order_id: "ord-b", status: "CANCELED" }, "webhook"), 20);
+
+    const messages = await collect(`/orders/stream?${query}`, (m) => orderEventsOf(m).length === 2, {
+      "Last-Event-ID": "1"
+    });
+
+    expect(orderEventsOf(messages).map((e) => [e.id, e.brokerage_order_id, e.status])).toEqual([
+      [2, "ord-a", "EXECUTED"],
+      [3, "ord-b", "CANCELED"]
+    ]);
+    expect(messages.some((m) => m.event === "reset")).toBe(false);
+  });
+
+  it("asks the client to resync when it cannot replay, and sends heartbeats", async () => {
+    (env as any).COINAGE_ORDER_STREAM_HEARTBEAT_MS = 10;
+
+    const messages = await collect(`/orders/stream?${query}`, (m) => m.some((x) => x.comment === "heartbeat"), {
+      "Last-Event-ID": "42"
+    });
+
+    expect(messages[0]!.event).toBe("reset");
+    expect(messages.some((m) => m.comment === "heartbeat")).toBe(true);
+  });
+
+  it("reports an order SnapTrade does not know and stops polling it", async () => {
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      const error: any = new Error("Request failed with status code 404");
+      error.response = { status: 404, data: { detail: "Order not found" }, headers: {} };
+      throw error;
+    });
+
+    const messages = await collect(`/orders/stream?${query}&brokerage_order_id=missing`, (m) =>
+      m.some((x) => x.event === "order_error")
+    );
+
+    expect(JSON.parse(messages.find((m) => m.event === "order_error")!.data!)).toEqual({
+      brokerage_order_id: "missing",
+      status: 404,
+      error: { detail: "Order not found" }
+    });
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { PaperBroker, type PaperQuote, type PaperQuoteSource } from "../src/lib/paperBroker";
+import { describeSnaptradeError } from "../src/utils/snaptrade";
+
+const accountId = "11111111-2222-4333-8aaa-555555555555";
+const credentials = { userId: "snap-user", userSecret: "snap-secret" };
+
+// Quotes the tests move by hand; every symbol shares one book.
+let market: PaperQuote;
+const quotes: PaperQuoteSource = {
+  cryptoPair: async () => market,
+  equity: async () => market
+};
+
+let broker: PaperBroker;
+
+beforeEach(() => {
+  market = { bid: 99, ask: 101 };
+  broker = new PaperBroker(quotes);
+});
+
+function cryptoOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    ...credentials,
+    accountId,
+    instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" as const },
+    side: "BUY" as const,
+    type: "MARKET" as const,
+    time_in_force: "GTC" as const,
+    amount: "0.5",
+    ...overrides
+  };
+}
+
+function detail(brokerageOrderId: string) {
+  return broker.getUserAccountOrderDetail({ ...credentials, accountId, brokerage_order_id: brokerageOrderId });
+}
+
+describe("paper broker", () => {
+  it("fills market orders at the touch", async () => {
+    const buy = (await broker.placeCryptoOrder(cryptoOrder())).data;
+    expect(buy.order).toMatchObject({
+      brokerage_order_id: buy.brokerage_order_id,
+      status: "EXECUTED",
+      action: "BUY",
+      symbol: "BTC-USD",
+      total_quantity: "0.5",
+      filled_quantity: "0.5",
+      open_quantity: "0",
+      execution_price: 101,
+      universal_symbol: { symbol: "BTC" },
+      quote_currency: { code: "USD" }
+    });
+
+    const sell = (await broker.placeCryptoOrder(cryptoOrder({ side: "SELL" }))).data;
+    expect(sell.order?.execution_price).toBe(99);
+  });
+
+  it("rests a limit order until the quote crosses it", async () => {
+    const placed = (await broker.placeCryptoOrder(cryptoOrder({ type: "LIMIT", limit_price: "95" }))).data;
+    expect(placed.order?.status).toBe("ACCEPTED");
+    expect((await detail(placed.brokerage_order_id)).data.status).toBe("ACCEPTED");
+
+    market = { bid: 93, ask: 94 };
+    const filled = (await detail(placed.brokerage_order_id)).data;
+    expect(filled).toMatchObject({ status: "EXECUTED", execution_price: 94, filled_quantity: "0.5" });
+  });
+
+  it("triggers a stop loss when the market falls to it", async () => {
+    const order = cryptoOrder({ side: "SELL", type: "STOP_LOSS_MARKET", stop_price: "90" });
+    const placed = (await broker.placeCryptoOrder(order)).data;
+    expect(placed.order?.status).toBe("ACCEPTED");
+
+    market = { bid: 89.5, ask: 90.5 };
+    expect((await detail(placed.brokerage_order_id)).data).toMatchObject({ status: "EXECUTED", execution_price: 89.5 });
+  });
+
+  it("cancels IOC orders that cannot fill at once", async () => {
+    const placed = (await broker.placeCryptoOrder(cryptoOrder({ type: "LIMIT", limit_price: "95", time_in_force: "IOC" })))
+      .data;
+    expect(placed.order).toMatchObject({ status: "CANCELED", canceled_quantity: "0.5", open_quantity: "0" });
+  });
+
+  it("estimates crypto fees from the configured basis points", async () => {
+    const preview = (await broker.previewCryptoOrder(cryptoOrder({ amount: "2" }))).data;
+    // 2 at the 101 ask is 202; 60 bps of that.
+    expect(preview).toEqual({ estimated_fee: { currency: "USD", amount: "1.212" } });
+  });
+
+  it("places a checked equity trade once, by trade id", async () => {
+    const form = {
+      ...credentials,
+      account_id: accountId,
+      action: "BUY" as const,
+      order_type: "Market" as const,
+      time_in_force: "Day" as const,
+      symbol: "AAPL",
+      units: 3
+    };
+    const impact = (await broker.getOrderImpact(form as any)).data;
+    expect(impact.trade).toMatchObject({ account: accountId, symbol: { symbol: "AAPL" }, units: 3, price: 101 });
+    expect(impact.trade_impacts?.[0]).toMatchObject({ estimated_commission: 0 });
+
+    const tradeId = impact.trade!.id!;
+    const placed = (await broker.placeOrder({ ...credentials, tradeId })).data;
+    expect(placed).toMatchObject({ status: "EXECUTED", execution_price: 101, filled_quantity: "3", symbol: "AAPL" });
+
+    const again = await broker.placeOrder({ ...credentials, tradeId }).catch((error) => error);
+    expect(describeSnaptradeError(again)).toMatchObject({ status: 404, body: { code: "TRADE_NOT_FOUND" } });
+  });
+
+  it("sizes notional equity orders from the fill price", async () => {
+    market = { bid: 199, ask: 200 };
+    const placed = (
+      await broker.placeForceOrder({
+        ...credentials,
+        account_id: accountId,
+        action: "BUY",
+        order_type: "Market",
+        time_in_force: "Day",
+        symbol: "AAPL",
+        notional_value: 50
+      })
+    ).data;
+    expect(placed).toMatchObject({ status: "EXECUTED", filled_quantity: "0.25", total_quantity: "0.25" });
+  });
+
+  it("cancels resting orders and reports unknown ones the way SnapTrade does", async () => {
+    const placed = (await broker.placeCryptoOrder(cryptoOrder({ type: "LIMIT", limit_price: "95" }))).data;
+    const request = { ...credentials, accountId, brokerage_order_id: placed.brokerage_order_id };
+    expect((await broker.cancelOrder(request)).data).toEqual({
+      brokerage_order_id: placed.brokerage_order_id,
+      raw_response: null
+    });
+    expect((await detail(placed.brokerage_order_id)).data.status).toBe("CANCELED");
+
+    const cancelAgain = await broker.cancelOrder(request).catch((error) => error);
+    expect(describeSnaptradeError(cancelAgain).status).toBe(400);
+
+    const unknown = await detail(crypto.randomUUID()).catch((error) => error);
+    expect(describeSnaptradeError(unknown)).toMatchObject({
+      status: 404,
+      body: { detail: "Order not found.", status_code: 404, code: "ORDER_NOT_FOUND" }
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "bun:test";
+import { normalizeQueryParams } from "../src/utils/query";
+
+describe("normalizeQueryParams", () => {
+  it("keeps the first value of a repeated key", () => {
+    expect(normalizeQueryParams(new URLSearchParams("a=1&a=2&b=3"))).toEqual({ a: "1", b: "3" });
+    expect(normalizeQueryParams({ a: ["1", "2"], b: "3", c: 4 })).toEqual({ a: "1", b: "3" });
+  });
+
+  it("keeps every value of keys declared as repeated", () => {
+    expect(normalizeQueryParams(new URLSearchParams("s=A&b=1&s=B"), ["s"])).toEqual({ s: ["A", "B"], b: "1" });
+    expect(normalizeQueryParams({ s: "A", b: ["1", "2"] }, ["s"])).toEqual({ s: ["A"], b: "1" });
+  });
+});
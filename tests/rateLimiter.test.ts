@@ -0,0 +1,144 @@
+import { describe, expect, it } from "bun:test";
+import {
+  MemoryRateLimiterStore,
+  PerKeyRateLimiter,
+  RedisRateLimiterStore,
+  type RedisCommandClient
+} from "../src/lib/rateLimiter";
+
+/**
+ * In-process stand-in for the two Redis commands the limiter uses
+ * (`SET ... PX ... NX` and `PTTL`), so the shared store can be exercised
+ * without a Redis server.
+ */
+class FakeRedis implements RedisCommandClient {
+  private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const now = Date.now();
+    const [key] = args;
+    const entry = this.entries.get(key);
+    const live = entry && entry.expiresAt > now ? entry : undefined;
+
+    if (command === "SET") {
+      const [, value, , px, nx] = args;
+      if (nx === "NX" && live) {
+        return null;
+      }
+      this.entries.set(key, { value, expiresAt: now + Number(px) });
+      return "OK";
+    }
+    if (command === "PTTL") {
+      return live ? live.expiresAt - now : -2;
+    }
+    throw new Error(`FakeRedis does not support ${command}`);
+  }
+}
+
+describe("PerKeyRateLimiter", () => {
+  it("allows one acquisition per interval per key", async () => {
+    const limiter = new PerKeyRateLimiter(1_000, "test", new MemoryRateLimiterStore());
+    expect(await limiter.tryAcquire("acct-1")).toEqual({ allowed: true });
+
+    const blocked = await limiter.tryAcquire("acct-1");
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.allowed === false && blocked.retryAfterMs).toBeGreaterThan(0);
+
+    expect(await limiter.tryAcquire("acct-2")).toEqual({ allowed: true });
+  });
+
+  it("keeps namespaces apart on a shared store", async () => {
+    const store = new MemoryRateLimiterStore();
+    const crypto = new PerKeyRateLimiter(1_000, "crypto", store);
+    const equity = new PerKeyRateLimiter(1_000, "equity", store);
+    expect((await crypto.tryAcquire("acct")).allowed).toBe(true);
+    expect((await equity.tryAcquire("acct")).allowed).toBe(true);
+
+    crypto.reset();
+    expect((await crypto.tryAcquire("acct")).allowed).toBe(true);
+    expect((await equity.tryAcquire("acct")).allowed).toBe(false);
+  });
+
+  it("evicts keys once their interval has elapsed", async () => {
+    const store = new MemoryRateLimiterStore();
+    await store.acquire("a", 100, 0);
+    await store.acquire("b", 100, 50);
+    expect(store.size).toBe(2);
+
+    await store.acquire("c", 100, 120);
+    expect(store.size).toBe(2);
+
+    await store.acquire("d", 100, 1_000);
+    expect(store.size).toBe(1);
+  });
+
+  it("shares the budget between replicas through Redis", async () => {
+    const redis = new FakeRedis();
+    const machineA = new PerKeyRateLimiter(1_000, "crypto.place", new RedisRateLimiterStore(redis));
+    const machineB = new PerKeyRateLimiter(1_000, "crypto.place", new RedisRateLimiterStore(redis));
+
+    expect((await machineA.tryAcquire("acct")).allowed).toBe(true);
+    const blocked = await machineB.tryAcquire("acct");
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.allowed === false && blocked.retryAfterMs).toBeLessThanOrEqual(1_000);
+  });
+
+  it("releases the Redis slot after the interval", async () => {
+    const redis = new FakeRedis();
+    const limiter = new PerKeyRateLimiter(20, "crypto.place", new RedisRateLimiterStore(redis));
+    expect((await limiter.tryAcquire("acct")).allowed).toBe(true);
+    await Bun.sleep(30);
+    expect((await limiter.tryAcquire("acct")).allowed).toBe(true);
+  });
+
+  it("refuses the slot instead of throwing when Redis is unreachable", async () => {
+    const down: RedisCommandClient = {
+      send: async () => {
+        throw new Error("Connection closed");
+      }
+    };
+    const limiter = new PerKeyRateLimiter(1_000, "crypto.place", new RedisRateLimiterStore(down));
+
+    expect(await limiter.acquire("acct", 0)).toEqual({
+      allowed: false,
+      retryAfterMs: 1_000,
+      reason: "store_unavailable",
+      message: "Connection closed"
+    });
+    expect(await limiter.acquire("acct", 500)).toMatchObject({ allowed: false, reason: "store_unavailable" });
+  });
+
+  it("queues waiting callers in FIFO order until a slot opens", async () => {
+    const limiter = new PerKeyRateLimiter(30, "test", new MemoryRateLimiterStore(), 5);
+    const admitted: string[] = [];
+    const attempt = (label: string) =>
+      limiter.acquire("acct", 500).then((result) => {
+        if (result.allowed) admitted.push(label);
+        return result;
+      });
+
+    const results = await Promise.all([attempt("a"), attempt("b"), attempt("c")]);
+    expect(results.every((result) => result.allowed)).toBe(true);
+    expect(admitted).toEqual(["a", "b", "c"]);
+  });
+
+  it("refuses queued callers whose wait budget would run out", async () => {
+    const limiter = new PerKeyRateLimiter(1_000, "test", new MemoryRateLimiterStore(), 5);
+    expect((await limiter.acquire("acct", 50)).allowed).toBe(true);
+    const refused = await limiter.acquire("acct", 50);
+    expect(refused.allowed).toBe(false);
+    expect(refused.allowed === false && refused.retryAfterMs).toBeGreaterThan(50);
+  });
+
+  it("bounds the queue per key and keeps non-waiting callers behind it", async () => {
+    const limiter = new PerKeyRateLimiter(40, "test", new MemoryRateLimiterStore(), 1);
+    expect((await limiter.acquire("acct", 0)).allowed).toBe(true);
+
+    const queued = limiter.acquire("acct", 500);
+    const overflow = await limiter.acquire("acct", 500);
+    expect(overflow).toMatchObject({ allowed: false, reason: "queue_full" });
+    expect((await limiter.acquire("acct", 0)).allowed).toBe(false);
+
+    expect((await queued).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+
+const accountInformationMocks = {
+  getUserAccountOrderDetail: mock(async (): Promise<unknown> => {
+    throw new Error("getUserAccountOrderDetail mock not configured");
+  })
+};
+
+mock.module("../src/lib/snaptrade", () => ({
+  snaptrade: {
+    accountInformation: accountInformationMocks
+  }
+}));
+
+import { resetCircuitBreakersForTests } from "../src/lib/circuitBreaker";
+import { registerOrderRoutes } from "../src/routes/orders";
+
+function createApp() {
+  const app = new Hono();
+  registerOrderRoutes(app);
+  return app;
+}
+
+function upstreamError(status: number | undefined, headers: Record<string, string> = {}) {
+  const error: any = new Error(status ? `Request failed with status code ${status}` : "socket hang up");
+  if (status) {
+    error.status = status;
+    error.responseBody = { code: String(status), detail: "upstream" };
+  } else {
+    error.code = "ECONNRESET";
+  }
+  error.headers = headers;
+  return error;
+}
+
+const requestBody = JSON.stringify({
+  accountId: "11111111-2222-4333-8aaa-555555555555",
+  userId: "snap-user",
+  userSecret: "snap-secret",
+  brokerage_order_id: "ord-123"
+});
+
+function requestDetail(app: Hono) {
+  return app.request("/orders/detail", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: requestBody
+  });
+}
+
+const originalSecret = env.COINAGE_TS_SHARED_SECRET;
+const originalBaseDelay = env.COINAGE_READ_RETRY_BASE_DELAY_MS;
+
+beforeEach(() => {
+  resetCircuitBreakersForTests();
+  (env as any).COINAGE_TS_SHARED_SECRET = "";
+  (env as any).COINAGE_READ_RETRY_BASE_DELAY_MS = 1;
+  accountInformationMocks.getUserAccountOrderDetail.mockReset();
+});
+
+afterAll(() => {
+  (env as any).COINAGE_TS_SHARED_SECRET = originalSecret;
+  (env as any).COINAGE_READ_RETRY_BASE_DELAY_MS = originalBaseDelay;
+});
+
+describe("read retries", () => {
+  it("retries transient 5xx and network errors, reporting the attempt count", async () => {
+    const failures = [upstreamError(502, { "x-request-id": "req-1" }), upstreamError(undefined)];
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return { data: { status: "EXECUTED" }, headers: { "x-request-id": "req-3" } };
+    });
+
+    const res = await requestDetail(createApp());
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: "EXECUTED" });
+    expect(res.headers.get("X-Coinage-Attempts")).toBe("3");
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBe("req-3");
+  });
+
+  it("gives up after the configured attempts and returns SnapTrade's error", async () => {
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      throw upstreamError(503);
+    });
+
+    const res = await requestDetail(createApp());
+    expect(res.status).toBe(503);
+    expect(res.headers.get("X-Coinage-Attempts")).toBe(String(env.COINAGE_READ_RETRY_MAX_ATTEMPTS));
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(env.COINAGE_READ_RETRY_MAX_ATTEMPTS);
+  });
+
+  it("does not retry 4xx responses", async () => {
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      throw upstreamError(404);
+    });
+
+    const res = await requestDetail(createApp());
+    expect(res.status).toBe(404);
+    expect(res.headers.get("X-Coinage-Attempts")).toBe("1");
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(1);
+  });
+
+  it("honours a short Retry-After on 429 and skips retries when it is too long", async () => {
+    let calls = 0;
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      calls += 1;
+      if (calls === 1) throw upstreamError(429, { "retry-after": "0" });
+      return { data: { status: "PENDING" }, headers: {} };
+    });
+    const retried = await requestDetail(createApp());
+    expect(retried.status).toBe(200);
+    expect(retried.headers.get("X-Coinage-Attempts")).toBe("2");
+
+    accountInformationMocks.getUserAccountOrderDetail.mockReset();
+    accountInformationMocks.getUserAccountOrderDetail.mockImplementation(async () => {
+      throw upstreamError(429, { "retry-after": "60" });
+    });
+    const throttled = await requestDetail(createApp());
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get("Retry-After")).toBe("60");
+    expect(accountInformationMocks.getUserAccountOrderDetail.mock.calls.length).toBe(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+import { requireSignedRequest, resetNonceCacheForTests } from "../src/lib/requestSigning";
+import { signedHeaders } from "./helpers/signing";
+
+function createApp() {
+  const app = new Hono();
+  app.use("/signed/*", requireSignedRequest("test.auth.error"));
+  app.get("/signed/echo", (c) => c.json({ ok: true }));
+  app.post("/signed/echo", async (c) => c.json(await c.req.json()));
+  return app;
+}
+
+const originalPrimary = env.COINAGE_TS_SHARED_SECRET;
+const originalSecondary = env.COINAGE_TS_SHARED_SECRET_SECONDARY;
+
+beforeEach(() => {
+  resetNonceCacheForTests();
+  (env as any).COINAGE_TS_SHARED_SECRET = "primary-secret";
+  (env as any).COINAGE_TS_SHARED_SECRET_SECONDARY = undefined;
+});
+
+afterAll(() => {
+  (env as any).COINAGE_TS_SHARED_SECRET = originalPrimary;
+  (env as any).COINAGE_TS_SHARED_SECRET_SECONDARY = originalSecondary;
+});
+
+describe("requireSignedRequest", () => {
+  it("accepts a signed POST and leaves the body readable for the handler", async () => {
+    const body = JSON.stringify({ hello: "world" });
+    const res = await createApp().request("/signed/echo", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signedHeaders("primary-secret", { method: "POST", path: "/signed/echo", body })
+      },
+      body
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ hello: "world" });
+  });
+
+  it("rejects a body that does not match the signature", async () => {
+    const headers = signedHeaders("primary-secret", {
+      method: "POST",
+      path: "/signed/echo",
+      body: JSON.stringify({ amount: "1" })
+    });
+    const res = await createApp().request("/signed/echo", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ amount: "1000" })
+    });
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe("unauthorized");
+  });
+
+  it("covers the query string so parameters cannot be swapped", async () => {
+    const headers = signedHeaders("primary-secret", { method: "GET", path: "/signed/echo?accountId=a" });
+    const res = await createApp().request("/signed/echo?accountId=b", { headers });
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects timestamps outside the tolerance window", async () => {
+    const path = "/signed/echo";
+    const headers = signedHeaders("primary-secret", {
+      method: "GET",
+      path,
+      timestamp: Date.now() - env.COINAGE_TS_SIGNATURE_TOLERANCE_MS - 1_000
+    });
+    const res = await createApp().request(path, { headers });
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a replayed nonce", async () => {
+    const path = "/signed/echo";
+    const headers = signedHeaders("primary-secret", { method: "GET", path, nonce: "nonce-1" });
+    const app = createApp();
+    expect((await app.request(path, { headers })).status).toBe(200);
+    expect((await app.request(path, { headers })).status).toBe(401);
+  });
+
+  it("accepts both the primary and secondary secret during rotation", async () => {
+    (env as any).COINAGE_TS_SHARED_SECRET_SECONDARY = "next-secret";
+    const path = "/signed/echo";
+    const app = createApp();
+    const withPrimary = await app.request(path, { headers: signedHeaders("primary-secret", { method: "GET", path }) });
+    const withSecondary = await app.request(path, { headers: signedHeaders("next-secret", { method: "GET", path }) });
+    const withUnknown = await app.request(path, { headers: signedHeaders("old-secret", { method: "GET", path }) });
+    expect(withPrimary.status).toBe(200);
+    expect(withSecondary.status).toBe(200);
+    expect(withUnknown.status).toBe(401);
+  });
+
+  it("is a no-op when no secret is configured", async () => {
+    (env as any).COINAGE_TS_SHARED_SECRET = "";
+    const res = await createApp().request("/signed/echo");
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,203 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { env } from "../src/lib/env";
+import type { RedisCommandClient } from "../src/lib/rateLimiter";
+import {
+  MemoryRiskStore,
+  RedisRiskStore,
+  admitCheckedTrade,
+  admitOrder,
+  evaluateRisk,
+  needsReferencePrice,
+  rememberCheckedTrade,
+  resetRiskChecksForTests,
+  type RiskOrder
+} from "../src/lib/riskChecks";
+
+const RISK_KEYS = [
+  "COINAGE_RISK_MAX_ORDER_NOTIONAL",
+  "COINAGE_RISK_MAX_DAILY_NOTIONAL",
+  "COINAGE_RISK_CRYPTO_MAX_AMOUNT",
+  "COINAGE_RISK_EQUITY_MAX_UNITS",
+  "COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST",
+  "COINAGE_RISK_CRYPTO_PAIR_DENYLIST",
+  "COINAGE_RISK_EQUITY_SYMBOL_ALLOWLIST",
+  "COINAGE_RISK_EQUITY_SYMBOL_DENYLIST"
+] as const;
+const original = Object.fromEntries(RISK_KEYS.map((key) => [key, env[key]]));
+
+const account = "11111111-2222-4333-8aaa-555555555555";
+const btc = (overrides: Partial<RiskOrder> = {}): RiskOrder => ({
+  accountId: account,
+  assetClass: "crypto",
+  symbols: ["BTC-USD"],
+  quantity: 0.5,
+  price: 60_000,
+  ...overrides
+});
+
+beforeEach(() => {
+  resetRiskChecksForTests();
+  Object.assign(env, original);
+});
+
+afterAll(() => {
+  Object.assign(env, original);
+});
+
+describe("risk checks", () => {
+  it("allows everything when no rule is configured", async () => {
+    expect(await evaluateRisk(btc({ quantity: 1_000, price: undefined }))).toEqual({ allowed: true, notional: undefined });
+    expect((await admitCheckedTrade("unknown-trade", account)).allowed).toBe(true);
+  });
+
+  it("applies the deny list before the allow list, per asset class", async () => {
+    (env as any).COINAGE_RISK_CRYPTO_PAIR_ALLOWLIST = ["BTC-USD", "DOGE-USD"];
+    (env as any).COINAGE_RISK_CRYPTO_PAIR_DENYLIST = ["DOGE-USD"];
+
+    expect((await evaluateRisk(btc({ symbols: ["btc-usd"] }))).allowed).toBe(true);
+    expect(await evaluateRisk(btc({ symbols: ["DOGE-USD"] }))).toMatchObject({ allowed: false, rule: "symbol_denylist" });
+    expect(await evaluateRisk(btc({ symbols: ["ETH-USD"] }))).toMatchObject({ allowed: false, rule: "symbol_allowlist" });
+    // Crypto lists do not constrain equities.
+    expect((await evaluateRisk(btc({ assetClass: "equity", symbols: ["AAPL"] }))).allowed).toBe(true);
+  });
+
+  it("caps quantity and per-order notional", async () => {
+    (env as any).COINAGE_RISK_CRYPTO_MAX_AMOUNT = 1;
+    (env as any).COINAGE_RISK_MAX_ORDER_NOTIONAL = 20_000;
+
+    expect(await evaluateRisk(btc({ quantity: 1_000 }))).toMatchObject({ allowed: false, rule: "max_order_quantity" });
+    expect(await evaluateRisk(btc())).toMatchObject({
+      allowed: false,
+      rule: "max_order_notional",
+      message: "Order notional 30000 exceeds the limit of 20000."
+    });
+  });
+
+  it("needs a price for notional limits and fails closed without one", async () => {
+    expect(needsReferencePrice(btc({ price: undefined }))).toBe(false);
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 100_000;
+
+    expect(needsReferencePrice(btc({ price: undefined }))).toBe(true);
+    expect(needsReferencePrice(btc({ price: undefined, notional: 10 }))).toBe(false);
+    expect(await evaluateRisk(btc({ price: undefined }))).toMatchObject({ allowed: false, rule: "max_daily_notional" });
+  });
+
+  it("counts admitted orders against the rolling daily limit until released", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 50_000;
+
+    const first = await admitOrder(btc());
+    expect(first.allowed).toBe(true);
+    expect(await admitOrder(btc())).toMatchObject({ allowed: false, rule: "max_daily_notional" });
+    // Preview-style checks see the usage without adding to it.
+    expect((await evaluateRisk(btc({ price: 20_000 }))).allowed).toBe(true);
+    expect((await evaluateRisk(btc({ price: 20_000 }))).allowed).toBe(true);
+
+    if (first.allowed) first.release();
+    expect((await admitOrder(btc())).allowed).toBe(true);
+    // Other accounts have their own window, and a day later the usage is gone.
+    expect((await admitOrder(btc({ accountId: "other" }))).allowed).toBe(true);
+    expect((await admitOrder(btc(), Date.now() + 86_400_001)).allowed).toBe(true);
+  });
+
+  it("admits checked trades once, for the account impact checked them for", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 1_000;
+    await rememberCheckedTrade("trade-1", account, 600);
+    await rememberCheckedTrade("trade-2", account, 600);
+
+    expect(await admitCheckedTrade("trade-1", "someone-else")).toMatchObject({ allowed: false, rule: "unchecked_trade" });
+    expect(await admitCheckedTrade("trade-1", account)).toMatchObject({ allowed: true, notional: 600 });
+    expect(await admitCheckedTrade("trade-1", account)).toMatchObject({ allowed: false, rule: "unchecked_trade" });
+    expect(await admitCheckedTrade("trade-2", account)).toMatchObject({ allowed: false, rule: "max_daily_notional" });
+  });
+});
+
+// Just enough of Redis for the risk store: sorted sets and plain keys.
+class FakeRedis implements RedisCommandClient {
+  readonly sets = new Map<string, Map<string, number>>();
+  readonly keys = new Map<string, string>();
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const [key, ...rest] = args;
+    const set = this.sets.get(key!) ?? new Map<string, number>();
+    this.sets.set(key!, set);
+    switch (command) {
+      case "ZADD":
+        set.set(rest[1]!, Number(rest[0]));
+        return 1;
+      case "ZREM":
+        return set.delete(rest[0]!) ? 1 : 0;
+      case "ZREMRANGEBYSCORE":
+        for (const [member, score] of set) {
+          if (score <= Number(rest[1])) set.delete(member);
+        }
+        return 0;
+      case "ZRANGE":
+        return [...set.keys()];
+      case "PEXPIRE":
+        return 1;
+      case "SET":
+        this.keys.set(key!, rest[0]!);
+        return "OK";
+      case "GET":
+        return this.keys.get(key!) ?? null;
+      case "DEL":
+        return this.keys.delete(key!) ? 1 : 0;
+    }
+    throw new Error(`FakeRedis does not support ${command}`);
+  }
+}
+
+describe.each([
+  ["MemoryRiskStore", () => new MemoryRiskStore()],
+  ["RedisRiskStore", () => new RedisRiskStore(new FakeRedis())]
+])("%s", (_name, createStore) => {
+  it("sums entries inside the window and forgets removed ones", async () => {
+    const store = createStore();
+    await store.add("a", 10, 0);
+    const { id, usage } = await store.add("a", 5, 1_000);
+
+    expect(usage).toBe(15);
+    expect(await store.usage("a", 2_000)).toBe(15);
+    await store.remove("a", id);
+    expect(await store.usage("a", 2_000)).toBe(10);
+    expect(await store.usage("b", 2_000)).toBe(0);
+    expect(await store.usage("a", 86_400_000)).toBe(0);
+  });
+
+  it("keeps checked trades until deleted", async () => {
+    const store = createStore();
+    await store.putCheckedTrade("trade-1", { accountId: account, notional: 600 }, 60_000, 0);
+
+    expect(await store.getCheckedTrade("trade-1", 1_000)).toEqual({ accountId: account, notional: 600 });
+    expect(await store.deleteCheckedTrade("trade-1")).toBe(true);
+    expect(await store.deleteCheckedTrade("trade-1")).toBe(false);
+    expect(await store.getCheckedTrade("trade-1", 1_000)).toBeUndefined();
+  });
+});
+
+describe("shared risk store", () => {
+  it("counts another machine's placements against the daily limit", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 50_000;
+    const redis = new FakeRedis();
+
+    resetRiskChecksForTests(new RedisRiskStore(redis));
+    expect((await admitOrder(btc())).allowed).toBe(true);
+    // A second replica, same Redis.
+    resetRiskChecksForTests(new RedisRiskStore(redis));
+    expect(await admitOrder(btc())).toMatchObject({ allowed: false, rule: "max_daily_notional" });
+    expect(await evaluateRisk(btc())).toMatchObject({ allowed: false, rule: "max_daily_notional" });
+  });
+
+  it("propagates store failures instead of admitting the order", async () => {
+    (env as any).COINAGE_RISK_MAX_DAILY_NOTIONAL = 50_000;
+    resetRiskChecksForTests(
+      new RedisRiskStore({
+        send: async () => {
+          throw new Error("ECONNREFUSED");
+        }
+      })
+    );
+
+    await expect(admitOrder(btc())).rejects.toThrow("ECONNREFUSED");
+  });
+});
@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "bun:test";
+import type { Subprocess } from "bun";
+import { FakeSnaptrade, scenarios } from "./helpers/fakeSnaptrade";
+
+/**
+ * Full-stack coverage: the real server and the real SDK against the fake
+ * SnapTrade API. The service runs as its own process because other suites
+ * replace `src/lib/snaptrade` with `mock.module`, and that replacement is
+ * shared by every test file in the run.
+ */
+
+const clientId = "fake-client-id";
+const consumerKey = "fake consumer/key";
+const accountId = "11111111-2222-4333-8aaa-555555555555";
+const user = { userId: "snap-user", userSecret: "snap-secret" };
+
+const quotePath = "/accounts/{accountId}/trading/instruments/cryptocurrencyPairs/{instrumentSymbol}/quote";
+const previewPath = "/accounts/{accountId}/trading/crypto/preview";
+
+const fake = new FakeSnaptrade(clientId, consumerKey);
+let service: { url: string; process: Subprocess<"ignore", "pipe", "pipe"> };
+
+async function startService(): Promise<typeof service> {
+  const child = Bun.spawn([process.execPath, "src/server.ts"], {
+    cwd: `${import.meta.dir}/..`,
+    env: {
+      PATH: process.env.PATH,
+      HOST: "127.0.0.1",
+      PORT: "0",
+      SNAPTRADE_CLIENT_ID: clientId,
+      SNAPTRADE_CONSUMER_KEY: consumerKey,
+      SNAPTRADE_BASE_URL: fake.baseUrl,
+      SNAPTRADE_TIMEOUT_MS: "500",
+      COINAGE_BREAKER_FAILURE_THRESHOLD: "2",
+      COINAGE_READ_RETRY_MAX_ATTEMPTS: "1",
+      COINAGE_QUOTE_CACHE_TTL_MS: "0"
+    },
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe"
+  });
+
+  // Keep both pipes drained so log output can never block the child.
+  let output = "";
+  const drain = async (stream: ReadableStream<Uint8Array>) => {
+    const decoder = new TextDecoder();
+    for await (const chunk of stream) {
+      output += decoder.decode(chunk, { stream: true });
+    }
+  };
+  void drain(child.stdout);
+  void drain(child.stderr);
+
+  const deadline = Date.now() + 10_000;
+  while (Date.now() < deadline && child.exitCode === null) {
+    const listening = output.match(/listening on (http:\/\/\S+)/);
+    if (listening) {
+      return { url: listening[1]!, process: child };
+    }
+    await Bun.sleep(25);
+  }
+  child.kill();
+  throw new Error(`Service did not start:\n${output}`);
+}
+
+function previewBody(overrides: Record<string, unknown> = {}) {
+  return {
+    ...user,
+    accountId,
+    instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" },
+    side: "BUY",
+    type: "MARKET",
+    time_in_force: "GTC",
+    amount: "0.5",
+    ...overrides
+  };
+}
+
+function preview(body = previewBody()) {
+  return fetch(`${service.url}/crypto/preview`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+function quote() {
+  const query = new URLSearchParams({ ...user, accountId, instrumentSymbol: "BTC-USD" });
+  return fetch(`${service.url}/crypto/quote?${query}`);
+}
+
+beforeAll(async () => {
+  fake.start();
+  service = await startService();
+});
+
+afterAll(async () => {
+  service?.process.kill();
+  await service?.process.exited;
+  await fake.stop();
+});
+
+beforeEach(() => {
+  fake.reset();
+});
+
+describe("SnapTrade over the wire", () => {
+  it("signs requests the way SnapTrade verifies them", async () => {
+    fake.on("GET", quotePath, scenarios.success({ bid: 99.5, ask: 100.5, mid: 100 }));
+    fake.on("POST", previewPath, scenarios.success({ estimated_fee: { currency: "USD", amount: "0.3" } }));
+
+    const quoted = await quote();
+    expect(quoted.status).toBe(200);
+    expect(await quoted.json()).toEqual({ bid: 99.5, ask: 100.5, mid: 100 });
+    expect(quoted.headers.get("X-SnapTrade-Request-ID")).toBeTruthy();
+
+    const previewed = await preview();
+    expect(previewed.status).toBe(200);
+
+    const [quoteRequest, previewRequest] = fake.requests;
+    expect(quoteRequest).toMatchObject({
+      method: "GET",
+      path: `/accounts/${accountId}/trading/instruments/cryptocurrencyPairs/BTC-USD/quote`,
+      signatureValid: true
+    });
+    expect(quoteRequest!.query.get("userSecret")).toBe("snap-secret");
+    expect(previewRequest).toMatchObject({
+      method: "POST",
+      signatureValid: true,
+      body: { instrument: { symbol: "BTC-USD", type: "CRYPTOCURRENCY_PAIR" }, side: "BUY", amount: "0.5" }
+    });
+  });
+
+  it("rejects requests signed with another key", async () => {
+    const query = new URLSearchParams({ clientId, timestamp: String(Math.floor(Date.now() / 1000)) });
+    const res = await fetch(`${fake.baseUrl}/accounts/${accountId}/orders/details?${query}`, {
+      method: "POST",
+      headers: { Signature: "bm90IGEgc2lnbmF0dXJl", "Content-Type": "application/json" },
+      body: JSON.stringify({ brokerage_order_id: "ord-1" })
+    });
+
+    expect(res.status).toBe(401);
+    expect(fake.requests[0]!.signatureValid).toBe(false);
+  });
+
+  it("passes SnapTrade's 400 and raw_error through untouched", async () => {
+    const rawError = { status_code: 403, body: { error_code: "AGREEMENT_REQUIRED", url: "https://example.test/sign" } };
+    fake.on("POST", previewPath, scenarios.brokerError(400, "1119", "Brokerage rejected the order", rawError));
+
+    const res = await preview();
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      detail: "Brokerage rejected the order",
+      status_code: 400,
+      code: "1119",
+      raw_error: rawError
+    });
+    expect(res.headers.get("X-SnapTrade-Request-ID")).toBeTruthy();
+    expect(res.headers.get("X-Request-ID")).toBe(res.headers.get("X-SnapTrade-Request-ID"));
+  });
+
+  it("reports a non-JSON error page with its status", async () => {
+    fake.on("POST", previewPath, scenarios.text(502, "<html><body>Bad Gateway</body></html>"));
+
+    const res = await preview();
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({ code: "SNAPTRADE_ERROR", detail: "<html><body>Bad Gateway</body></html>" });
+  });
+
+  // Near the end: it leaves the quote breaker open.
+  it("times out a hung call and opens the breaker after repeated timeouts", async () => {
+    fake.on("GET", quotePath, scenarios.timeout());
+
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      const startedAt = Date.now();
+      const res = await quote();
+      expect(Date.now() - startedAt).toBeLessThan(5_000);
+      expect(res.status).toBe(504);
+      expect(await res.json()).toEqual({ code: "SNAPTRADE_TIMEOUT", detail: "SnapTrade did not respond in time." });
+    }
+
+    const res = await quote();
+    expect(res.status).toBe(503);
+    expect(res.headers.get("X-Coinage-Circuit-Open")).toBe("getCryptocurrencyPairQuote");
+    expect((await res.json()).error).toBe("circuit_open");
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  // Last: the exhausted budget it reports would shed quote calls.
+  it("hands a 429 back at once with SnapTrade's rate-limit headers", async () => {
+    fake.on("POST", previewPath, scenarios.rateLimited({ limit: 250, reset: 60, retryAfter: 30 }));
+
+    const startedAt = Date.now();
+    const res = await preview();
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(res.headers.get("X-SnapTrade-RateLimit-Limit")).toBe("250");
+    expect(res.headers.get("X-SnapTrade-RateLimit-Remaining")).toBe("0");
+    expect((await res.json()).status_code).toBe(429);
+    expect(fake.requests).toHaveLength(1);
+  });
+});
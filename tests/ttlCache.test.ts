@@ -0,0 +1,72 @@
+import { describe, expect, it } from "bun:test";
+import { TtlCache } from "../src/lib/ttlCache";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("TtlCache", () => {
+  it("serves hits within the TTL and reloads after it expires", async () => {
+    let ttl = 60_000;
+    const cache = new TtlCache<number>(() => ttl);
+    let loads = 0;
+    const loader = async () => ++loads;
+
+    expect((await cache.getOrLoad("k", loader)).status).toBe("miss");
+    const hit = await cache.getOrLoad("k", loader);
+    expect(hit).toMatchObject({ value: 1, status: "hit" });
+
+    ttl = 0;
+    cache.clear();
+    expect((await cache.getOrLoad("k", loader)).value).toBe(2);
+    expect((await cache.getOrLoad("k", loader)).value).toBe(3);
+  });
+
+  it("coalesces concurrent loads for the same key", async () => {
+    const cache = new TtlCache<string>(() => 1_000);
+    const pending = deferred<string>();
+    let loads = 0;
+    const loader = () => {
+      loads += 1;
+      return pending.promise;
+    };
+
+    const first = cache.getOrLoad("k", loader);
+    const second = cache.getOrLoad("k", loader);
+    pending.resolve("value");
+
+    expect(await first).toMatchObject({ value: "value", status: "miss" });
+    expect(await second).toMatchObject({ value: "value", status: "coalesced" });
+    expect(loads).toBe(1);
+  });
+
+  it("does not cache failures", async () => {
+    const cache = new TtlCache<string>(() => 1_000);
+    const pending = deferred<string>();
+
+    const results = Promise.allSettled([
+      cache.getOrLoad("k", () => pending.promise),
+      cache.getOrLoad("k", () => pending.promise)
+    ]);
+    pending.reject(new Error("boom"));
+
+    expect((await results).map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(await cache.getOrLoad("k", async () => "recovered")).toMatchObject({ value: "recovered", status: "miss" });
+  });
+
+  it("evicts the oldest entries beyond the size bound", async () => {
+    const cache = new TtlCache<string>(() => 60_000, 2);
+    await cache.getOrLoad("a", async () => "a1");
+    await cache.getOrLoad("b", async () => "b1");
+    await cache.getOrLoad("c", async () => "c1");
+
+    expect((await cache.getOrLoad("a", async () => "a2")).value).toBe("a2");
+    expect((await cache.getOrLoad("c", async () => "c2")).status).toBe("hit");
+  });
+});
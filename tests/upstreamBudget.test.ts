@@ -0,0 +1,75 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import { env } from "../src/lib/env";
+import { UpstreamBudget, requireUpstreamBudget, resetUpstreamBudgetForTests, upstreamBudget } from "../src/lib/upstreamBudget";
+import { registerStatusRoutes } from "../src/routes/status";
+import { propagateRateLimitHeaders } from "../src/utils/snaptrade";
+
+function createApp() {
+  const app = new Hono();
+  registerStatusRoutes(app);
+  app.get("/low", requireUpstreamBudget("test.budget_low"), (c) => c.json({ ok: true }));
+  app.get("/observe", (c) => {
+    propagateRateLimitHeaders(c, {
+      "x-ratelimit-limit": "250",
+      "x-ratelimit-remaining": c.req.query("remaining") ?? "0",
+      "x-ratelimit-reset": "30"
+    });
+    return c.json({ ok: true });
+  });
+  return app;
+}
+
+const originalFloor = env.COINAGE_UPSTREAM_BUDGET_FLOOR;
+const originalSecret = env.COINAGE_TS_SHARED_SECRET;
+
+beforeEach(() => {
+  resetUpstreamBudgetForTests();
+  (env as any).COINAGE_UPSTREAM_BUDGET_FLOOR = 10;
+  (env as any).COINAGE_TS_SHARED_SECRET = "";
+});
+
+afterAll(() => {
+  (env as any).COINAGE_UPSTREAM_BUDGET_FLOOR = originalFloor;
+  (env as any).COINAGE_TS_SHARED_SECRET = originalSecret;
+  resetUpstreamBudgetForTests();
+});
+
+describe("upstream budget", () => {
+  it("sheds low-priority reads once SnapTrade's remaining budget reaches the floor", async () => {
+    const app = createApp();
+    await app.request("/observe?remaining=50");
+    expect((await app.request("/low")).status).toBe(200);
+
+    await app.request("/observe?remaining=10");
+    const shed = await app.request("/low");
+    expect(shed.status).toBe(429);
+    expect(shed.headers.get("Retry-After")).toBe("30");
+    const body = await shed.json();
+    expect(body.error).toBe("upstream_budget_low");
+    expect(body.retryAfterMs).toBeGreaterThan(29_000);
+  });
+
+  it("never throttles high-priority calls and lifts the throttle after the window resets", () => {
+    const budget = new UpstreamBudget();
+    budget.observe({ limit: "250", remaining: "1", reset: "1700000000" }, 1_699_999_990_000);
+    expect(budget.check("high", 10, 1_699_999_990_000)).toEqual({ allowed: true });
+    expect(budget.check("low", 10, 1_699_999_990_000)).toEqual({ allowed: false, retryAfterMs: 10_000 });
+    expect(budget.check("low", 10, 1_700_000_000_001)).toEqual({ allowed: true });
+  });
+
+  it("is disabled when the floor is zero", () => {
+    upstreamBudget.observe({ remaining: "0", reset: "60" });
+    expect(upstreamBudget.check("low", 0)).toEqual({ allowed: true });
+  });
+
+  it("exposes the current budget on the status endpoint", async () => {
+    const app = createApp();
+    await app.request("/observe?remaining=5");
+    const res = await app.request("/status/upstream-budget");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ limit: 250, remaining: 5, floor: 10, lowPriorityThrottled: true });
+    expect(typeof body.resetAt).toBe("string");
+  });
+});
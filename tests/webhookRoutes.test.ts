@@ -0,0 +1,260 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+import type { Server } from "bun";
+import { env } from "../src/lib/env";
+import type { RedisCommandClient } from "../src/lib/rateLimiter";
+import { signRequest } from "../src/lib/requestSigning";
+import { registerWebhookRoutes } from "../src/routes/webhooks";
+import {
+  RedisWebhookIdStore,
+  WEBHOOK_ID_HEADER,
+  flushWebhookForwardsForTests,
+  resetSnaptradeWebhooksForTests,
+  signSnaptradeWebhook
+} from "../src/lib/snaptradeWebhooks";
+import { orderEvents, resetOrderEventsForTests, type OrderEvent } from "../src/lib/orderEvents";
+
+function createApp() {
+  const app = new Hono();
+  registerWebhookRoutes(app);
+  return app;
+}
+
+const accountId = "11111111-2222-4333-8aaa-555555555555";
+
+function holdingsEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    webhookId: crypto.randomUUID(),
+    clientId: "COINAGE",
+    userId: "snap-user",
+    eventType: "ACCOUNT_HOLDINGS_UPDATED",
+    eventTimestamp: new Date().toISOString(),
+    brokerageAuthorizationId: "auth-1",
+    accountId,
+    ...overrides
+  };
+}
+
+function deliver(payload: unknown, signature = signSnaptradeWebhook(payload, env.SNAPTRADE_CONSUMER_KEY)) {
+  return createApp().request("/webhooks/snaptrade", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Signature: signature },
+    body: JSON.stringify(payload)
+  });
+}
+
+// Just enough of Redis for `SET ... PX ... NX`.
+class FakeRedis implements RedisCommandClient {
+  readonly keys = new Map<string, string>();
+
+  async send(command: string, args: string[]): Promise<unknown> {
+    const [key, value, , , nx] = args;
+    if (command === "SET") {
+      if (nx === "NX" && this.keys.has(key!)) {
+        return null;
+      }
+      this.keys.set(key!, value!);
+      return "OK";
+    }
+    throw new Error(`FakeRedis does not support ${command}`);
+  }
+}
+
+// Stands in for the Java callback: records each delivery and answers with the
+// next queued status (200 once the queue is empty).
+type Received = { path: string; headers: Headers; body: any };
+const received: Received[] = [];
+const statuses: number[] = [];
+let receiver: Server<unknown>;
+
+const original = {
+  forwardUrl: env.COINAGE_WEBHOOK_FORWARD_URL,
+  baseDelay: env.COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS,
+  maxAttempts: env.COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS,
+  tolerance: env.COINAGE_WEBHOOK_TOLERANCE_MS,
+  sharedSecret: env.COINAGE_TS_SHARED_SECRET
+};
+
+beforeAll(() => {
+  receiver = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({ path: new URL(req.url).pathname, headers: req.headers, body: await req.json() });
+      return new Response(null, { status: statuses.shift() ?? 200 });
+    }
+  });
+});
+
+beforeEach(async () => {
+  await resetSnaptradeWebhooksForTests();
+  resetOrderEventsForTests();
+  received.length = 0;
+  statuses.length = 0;
+  (env as any).COINAGE_WEBHOOK_FORWARD_URL = `http://localhost:${receiver.port}/internal/snaptrade-webhooks`;
+  (env as any).COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS = 1;
+  (env as any).COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS = 3;
+  (env as any).COINAGE_WEBHOOK_TOLERANCE_MS = original.tolerance;
+  (env as any).COINAGE_TS_SHARED_SECRET = undefined;
+});
+
+afterAll(async () => {
+  await flushWebhookForwardsForTests();
+  receiver.stop(true);
+  (env as any).COINAGE_WEBHOOK_FORWARD_URL = original.forwardUrl;
+  (env as any).COINAGE_WEBHOOK_FORWARD_BASE_DELAY_MS = original.baseDelay;
+  (env as any).COINAGE_WEBHOOK_FORWARD_MAX_ATTEMPTS = original.maxAttempts;
+  (env as any).COINAGE_TS_SHARED_SECRET = original.sharedSecret;
+});
+
+describe("snaptrade webhook receiver", () => {
+  it("verifies the signature and forwards the event to Java unchanged", async () => {
+    const event = holdingsEvent({ details: { source: "daily_sync" } });
+    const res = await deliver(event);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true, webhookId: event.webhookId });
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(1);
+    expect(received[0]!.path).toBe("/internal/snaptrade-webhooks");
+    expect(received[0]!.body).toEqual(event);
+    expect(received[0]!.headers.get(WEBHOOK_ID_HEADER)).toBe(event.webhookId);
+  });
+
+  it("accepts a signature over the same payload with keys in another order", async () => {
+    const event = holdingsEvent();
+    const reordered = Object.fromEntries(Object.entries(event).reverse());
+
+    const res = await deliver(reordered, signSnaptradeWebhook(event, env.SNAPTRADE_CONSUMER_KEY));
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects missing and forged signatures without forwarding", async () => {
+    const event = holdingsEvent();
+    const missing = await createApp().request("/webhooks/snaptrade", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event)
+    });
+    const forged = await deliver(event, signSnaptradeWebhook(event, "not-the-consumer-key"));
+    const tampered = await deliver({ ...event, accountId: "99999999-2222-4333-8aaa-555555555555" }, signSnaptradeWebhook(event, env.SNAPTRADE_CONSUMER_KEY));
+
+    for (const res of [missing, forged, tampered]) {
+      expect(res.status).toBe(401);
+      expect((await res.json()).error).toBe("unauthorized");
+    }
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(0);
+  });
+
+  it("rejects stale and replayed deliveries", async () => {
+    const stale = await deliver(holdingsEvent({ eventTimestamp: new Date(Date.now() - 600_000).toISOString() }));
+    expect(stale.status).toBe(401);
+
+    const event = holdingsEvent();
+    expect((await deliver(event)).status).toBe(200);
+    const replay = await deliver(event);
+    expect(replay.status).toBe(409);
+    expect((await replay.json()).error).toBe("duplicate_webhook");
+
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(1);
+  });
+
+  it("catches a replay first accepted by another machine through the shared store", async () => {
+    const redis = new FakeRedis();
+    await resetSnaptradeWebhooksForTests(new RedisWebhookIdStore(redis));
+    const event = holdingsEvent();
+    // Another machine took the first delivery.
+    expect(await new RedisWebhookIdStore(redis).claim(event.webhookId, 600_000)).toBe(true);
+
+    const replay = await deliver(event);
+    expect(replay.status).toBe(409);
+    expect(redis.keys.has(`coinage:webhook:${event.webhookId}`)).toBe(true);
+
+    expect((await deliver(holdingsEvent())).status).toBe(200);
+  });
+
+  it("asks SnapTrade to redeliver when the id store is unreachable", async () => {
+    await resetSnaptradeWebhooksForTests({
+      claim: async () => {
+        throw new Error("connection refused");
+      }
+    });
+
+    const res = await deliver(holdingsEvent());
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe("webhook_unavailable");
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(0);
+  });
+
+  it("validates the payload for the event type", async () => {
+    const res = await deliver(holdingsEvent({ accountId: undefined, brokerageAuthorizationId: undefined }));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("validation_error");
+    expect(body.issues.fieldErrors.accountId).toEqual(["accountId is required for account and trade events"]);
+    expect(body.issues.fieldErrors.brokerageAuthorizationId).toEqual([
+      "brokerageAuthorizationId is required for connection, account and trade events"
+    ]);
+  });
+
+  it("accepts event types it has no specific rules for", async () => {
+    const res = await deliver(holdingsEvent({ eventType: "USER_REGISTERED", accountId: undefined, brokerageAuthorizationId: undefined }));
+    expect(res.status).toBe(200);
+  });
+
+  it("retries Java until it accepts the event, signing each attempt", async () => {
+    (env as any).COINAGE_TS_SHARED_SECRET = "shared";
+    statuses.push(503, 500);
+
+    expect((await deliver(holdingsEvent())).status).toBe(200);
+    await flushWebhookForwardsForTests();
+
+    expect(received).toHaveLength(3);
+    const nonces = new Set(received.map((r) => r.headers.get("X-Coinage-Nonce")));
+    expect(nonces.size).toBe(3);
+    for (const { headers, body } of received) {
+      const expected = signRequest(
+        {
+          method: "POST",
+          path: "/internal/snaptrade-webhooks",
+          timestamp: headers.get("X-Coinage-Timestamp")!,
+          nonce: headers.get("X-Coinage-Nonce")!,
+          body: JSON.stringify(body)
+        },
+        "shared"
+      );
+      expect(headers.get("X-Coinage-Signature")).toBe(expected);
+    }
+  });
+
+  it("gives up on client errors and after the last attempt", async () => {
+    statuses.push(400);
+    await deliver(holdingsEvent());
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(1);
+
+    received.length = 0;
+    statuses.push(503, 503, 503, 503);
+    await deliver(holdingsEvent());
+    await flushWebhookForwardsForTests();
+    expect(received).toHaveLength(3);
+  });
+
+  it("publishes order records from trade events to the order stream", async () => {
+    const seen: OrderEvent[] = [];
+    orderEvents.subscribe(accountId, (event) => seen.push(event));
+
+    await deliver(
+      holdingsEvent({
+        eventType: "TRADES_PLACED",
+        orders: [{ brokerage_order_id: "ord-9", status: "EXECUTED", filled_quantity: "2" }]
+      })
+    );
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0]).toMatchObject({ brokerage_order_id: "ord-9", status: "EXECUTED", source: "webhook" });
+  });
+});